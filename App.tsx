@@ -1,23 +1,217 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import Simulation from './components/Simulation';
 import ConfigPanel from './components/ConfigPanel';
 import AnalysisCharts from './components/AnalysisCharts';
-import { DEFAULT_CONFIG } from './constants';
-import { SimulationConfig, StepHistory } from './types';
+import AgentPanel from './components/AgentPanel';
+import LearningCurves from './components/LearningCurves';
+import ControllerPanel from './components/ControllerPanel';
+import IntegratorDiagnostics from './components/IntegratorDiagnostics';
+import VectorBenchmark from './components/VectorBenchmark';
+import StateSpacePanel from './components/StateSpacePanel';
+import CheckpointPanel from './components/CheckpointPanel';
+import PlayerStatsPanel from './components/PlayerStatsPanel';
+import CloningPanel from './components/CloningPanel';
+import SweepPanel from './components/SweepPanel';
+import RobustnessPanel from './components/RobustnessPanel';
+import { DEFAULT_CONFIG, DEFAULT_DOUBLE_CONFIG, DEFAULT_LQR_WEIGHTS, DEFAULT_PID_GAINS } from './constants';
+import {
+  ActionSpace,
+  AgentCheckpoint,
+  AgentSnapshot,
+  DoubleCartPoleConfig,
+  EnvironmentConfig,
+  EnvironmentKind,
+  EnvironmentState,
+  EpisodeRecording,
+  EpisodeStats,
+  EpisodeTrace,
+  LqrWeights,
+  PidGains,
+  PlayerStats,
+  Policy,
+  SimulationConfig,
+  TrainingRun,
+} from './types';
+import { createDoubleLqrController, createLqrController, createPidController } from './utils/controllers';
+import { decodeConfigFromSearch } from './utils/configSchema';
+import { restoreAgent } from './utils/training';
+import { randomSeed } from './utils/random';
+import {
+  CARTPOLE,
+  DOUBLE_CARTPOLE,
+  ENVIRONMENT_OPTIONS,
+  decodeEnvironmentFromSearch,
+  encodeEnvironmentToSearch,
+} from './utils/environments';
 import { BrainCircuit } from 'lucide-react';
 
+// Recent episodes kept for the analysis panel and export
+const MAX_TRACES = 20;
+// Human CartPole episodes of this session kept as behaviour-cloning demonstrations
+const MAX_HUMAN_EPISODES = 200;
+
+// Trained policies only play in the action space they learned in; the others are left out until it is back
+const fitsActionSpace = (actionSpace: ActionSpace) => (c: Policy | null): c is Policy =>
+  c !== null && (c.actionSpace === undefined || c.actionSpace === actionSpace);
+
+// A shared link's environment and config win over the defaults
+const initialEnvironment = decodeEnvironmentFromSearch(window.location.search);
+const initialFromUrl =
+  initialEnvironment === 'cartpole' ? decodeConfigFromSearch(window.location.search, CARTPOLE.config) : null;
+const initialDoubleFromUrl =
+  initialEnvironment === 'double-cartpole' ? decodeConfigFromSearch(window.location.search, DOUBLE_CARTPOLE.config) : null;
+
 function App() {
-  const [config, setConfig] = useState<SimulationConfig>(DEFAULT_CONFIG);
-  const [history, setHistory] = useState<StepHistory[]>([]);
+  const [environment, setEnvironment] = useState<EnvironmentKind>(initialEnvironment);
+  // Each environment keeps its own config, so switching back and forth loses nothing
+  const [config, setConfig] = useState<SimulationConfig>(initialFromUrl?.config ?? DEFAULT_CONFIG);
+  const [doubleConfig, setDoubleConfig] = useState<DoubleCartPoleConfig>(
+    initialDoubleFromUrl?.config ?? DEFAULT_DOUBLE_CONFIG
+  );
+  const [urlIssues, setUrlIssues] = useState<string[]>(initialFromUrl?.issues ?? initialDoubleFromUrl?.issues ?? []);
+  const [traces, setTraces] = useState<EpisodeTrace[]>([]);
+  const traceCountRef = useRef(0);
+  const [agent, setAgent] = useState<Policy | null>(null);
+  const [clone, setClone] = useState<Policy | null>(null);
+  const [humanEpisodes, setHumanEpisodes] = useState<EpisodeRecording[]>([]);
+  // Latest parameters from training and the run they belong to, for saving as a checkpoint
+  const [trained, setTrained] = useState<{ runId: string; label: string; snapshot: AgentSnapshot } | null>(null);
+  const [runs, setRuns] = useState<TrainingRun[]>([]);
+  const [pidGains, setPidGains] = useState<PidGains>(DEFAULT_PID_GAINS);
+  const [lqrWeights, setLqrWeights] = useState<LqrWeights>(DEFAULT_LQR_WEIGHTS);
+  // Bumped on every recorded human attempt so the stats panel reloads
+  const [statsRevision, setStatsRevision] = useState(0);
+  const [replayRequest, setReplayRequest] = useState<{
+    id: number;
+    recording: EpisodeRecording<EnvironmentConfig, EnvironmentState>;
+  } | null>(null);
+
+  const pid = useMemo(() => createPidController(pidGains, config), [pidGains, config]);
+
+  const double = environment === 'double-cartpole';
+
+  // The LQR gain is re-derived from the current physics whenever config or weights change
+  const lqrResult = useMemo(() => {
+    try {
+      const controller = double
+        ? createDoubleLqrController(lqrWeights, doubleConfig)
+        : createLqrController(lqrWeights, config);
+      return { controller, error: null };
+    } catch (err) {
+      return { controller: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [double, lqrWeights, config, doubleConfig]);
+
+  // PID and the trained agents only know the single pole
+  const controllers = useMemo(
+    () =>
+      (double ? [lqrResult.controller] : [agent, clone, pid, lqrResult.controller]).filter(
+        fitsActionSpace(config.actionSpace)
+      ),
+    [double, agent, clone, pid, lqrResult, config.actionSpace]
+  );
+
+  // The policy map resets the controllers it samples, so it gets its own PID rather than the one playing
+  const mappedPolicies = useMemo(
+    () =>
+      [agent, clone, createPidController(pidGains, config), double ? null : lqrResult.controller].filter(
+        fitsActionSpace(config.actionSpace)
+      ),
+    [agent, clone, pidGains, config, double, lqrResult]
+  );
+
+  const handleEnvironmentChange = (kind: EnvironmentKind) => {
+    setEnvironment(kind);
+    setAgent(null);
+    setClone(null);
+    setUrlIssues([]);
+    // A pending replay belongs to the simulation being replaced
+    setReplayRequest(null);
+  };
 
   const handleConfigChange = (newConfig: SimulationConfig) => {
     setConfig(newConfig);
+    setUrlIssues([]);
+  };
+
+  const handleDoubleConfigChange = (newConfig: DoubleCartPoleConfig) => {
+    setDoubleConfig(newConfig);
+    setUrlIssues([]);
+  };
+
+  // Keep the address bar in sync so the current setup can be shared as a link
+  useEffect(() => {
+    const search = double
+      ? encodeEnvironmentToSearch(DOUBLE_CARTPOLE, doubleConfig, window.location.search)
+      : encodeEnvironmentToSearch(CARTPOLE, config, window.location.search);
+    window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+  }, [double, config, doubleConfig]);
+
+  const handleAttemptRecorded = useCallback(
+    (_stats: PlayerStats, recording: EpisodeRecording<EnvironmentConfig, EnvironmentState>) => {
+      setStatsRevision((r) => r + 1);
+      if (recording.environment === 'cartpole') {
+        const episode = recording as EpisodeRecording;
+        setHumanEpisodes((prev) => [...prev, episode].slice(-MAX_HUMAN_EPISODES));
+      }
+    },
+    []
+  );
+
+  const handleCompared = useCallback((compared: TrainingRun[]) => {
+    setRuns((prev) => [...prev, ...compared]);
+  }, []);
+
+  const handleReplayAttempt = (recording: EpisodeRecording<EnvironmentConfig, EnvironmentState>) => {
+    setReplayRequest((prev) => ({ id: (prev?.id ?? 0) + 1, recording }));
   };
 
-  const handleHistoryUpdate = (newHistory: StepHistory[]) => {
-    setHistory(newHistory);
+  const handlePlayStatsConfig = (kind: EnvironmentKind, statsConfig: EnvironmentConfig) => {
+    if (kind !== environment) handleEnvironmentChange(kind);
+    // Fields added since the stats were stored take their defaults
+    if (kind === 'double-cartpole') handleDoubleConfigChange({ ...DEFAULT_DOUBLE_CONFIG, ...(statsConfig as DoubleCartPoleConfig) });
+    else handleConfigChange({ ...DEFAULT_CONFIG, ...(statsConfig as SimulationConfig) });
   };
 
+  const handleHistoryUpdate = useCallback((trace: Omit<EpisodeTrace, 'id'>) => {
+    const id = ++traceCountRef.current;
+    setTraces((prev) => [...prev, { ...trace, id }].slice(-MAX_TRACES));
+  }, []);
+
+  const handleRunStart = useCallback((run: TrainingRun) => {
+    setRuns((prev) => [...prev, run]);
+  }, []);
+
+  const handleSnapshot = useCallback((runId: string, label: string, snapshot: AgentSnapshot) => {
+    setTrained({ runId, label, snapshot });
+  }, []);
+
+  const handleCheckpointLoad = (checkpoint: AgentCheckpoint) => {
+    setAgent(restoreAgent(checkpoint.snapshot, randomSeed()));
+  };
+
+  const handleRunProgress = useCallback((runId: string, episodes: EpisodeStats[]) => {
+    setRuns((prev) => prev.map((r) => (r.id === runId ? { ...r, episodes: [...r.episodes, ...episodes] } : r)));
+  }, []);
+
+  // Episodes played live in the simulation form one run per controller and environment
+  const handleEpisodeComplete = useCallback(
+    (controller: string, stats: Omit<EpisodeStats, 'episode'>) => {
+      setRuns((prev) => {
+        const id = double ? `live-double-${controller}` : `live-${controller}`;
+        const existing = prev.find((r) => r.id === id);
+        if (!existing) {
+          const label = double ? `${controller} (live, ${DOUBLE_CARTPOLE.label})` : `${controller} (live)`;
+          return [...prev, { id, label, episodes: [{ ...stats, episode: 1 }] }];
+        }
+        return prev.map((r) =>
+          r.id === id ? { ...r, episodes: [...r.episodes, { ...stats, episode: r.episodes.length + 1 }] } : r
+        );
+      });
+    },
+    [double]
+  );
+
   return (
     <div className="min-h-screen bg-slate-50 text-gray-800 font-sans pb-20">
       {/* Header */}
@@ -32,10 +226,24 @@ function App() {
               <p className="text-xs text-gray-500 hidden sm:block">Reinforcement Learning Environment Demo</p>
             </div>
           </div>
-          <div className="text-right">
+          <div className="flex items-center gap-4">
+            <select
+              value={environment}
+              onChange={(e) => handleEnvironmentChange(e.target.value as EnvironmentKind)}
+              title="Environment to simulate"
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {ENVIRONMENT_OPTIONS.map((o) => (
+                <option key={o.kind} value={o.kind}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <div className="text-right">
              <a href="https://github.com/openai/gym/blob/master/gym/envs/classic_control/cartpole.py" target="_blank" rel="noreferrer" className="text-xs text-indigo-600 hover:underline">
                Based on OpenAI Gym
              </a>
+            </div>
           </div>
         </div>
       </header>
@@ -44,32 +252,152 @@ function App() {
         {/* Intro Text */}
         <div className="max-w-3xl mx-auto text-center mb-8">
           <p className="text-gray-600 text-lg">
-            Balance the pole by moving the cart left or right. 
+            {double ? 'Balance both poles' : 'Balance the pole'} by moving the cart left or right.
             <br />
             <span className="text-sm text-gray-500">
               This simulation demonstrates the classic control problem used in Reinforcement Learning. 
-              The cart uses <strong className="text-gray-700">Bang-Bang control</strong> (constant force), making it inherently unstable.
+              By default the cart uses <strong className="text-gray-700">Bang-Bang control</strong> (constant force), making it inherently unstable.
             </span>
           </p>
         </div>
 
         {/* Game Area */}
         <section className="flex flex-col items-center">
-          <Simulation config={config} onHistoryUpdate={handleHistoryUpdate} />
+          {/* Separate slots per environment, so switching mounts a fresh simulation */}
+          {!double && (
+            <Simulation
+              environment={CARTPOLE}
+              config={config}
+              controllers={controllers}
+              onHistoryUpdate={handleHistoryUpdate}
+              onEpisodeComplete={handleEpisodeComplete}
+              onAttemptRecorded={handleAttemptRecorded}
+              replayRequest={replayRequest}
+            />
+          )}
+          {double && (
+            <Simulation
+              environment={DOUBLE_CARTPOLE}
+              config={doubleConfig}
+              controllers={controllers}
+              onHistoryUpdate={handleHistoryUpdate}
+              onEpisodeComplete={handleEpisodeComplete}
+              onAttemptRecorded={handleAttemptRecorded}
+              replayRequest={replayRequest}
+            />
+          )}
         </section>
 
         {/* Parameters */}
         <section>
-          <ConfigPanel 
-            config={config} 
-            onChange={handleConfigChange} 
-            disabled={false} 
+          {urlIssues.length > 0 && (
+            <div className="mb-4 px-4 py-2 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-700">
+              Some values in the link were invalid and were replaced by defaults: {urlIssues.join('; ')}.
+            </div>
+          )}
+          {!double && (
+            <ConfigPanel 
+              spec={CARTPOLE.config}
+              config={config} 
+              onChange={handleConfigChange} 
+              disabled={false} 
+            />
+          )}
+          {double && (
+            <ConfigPanel
+              spec={DOUBLE_CARTPOLE.config}
+              config={doubleConfig}
+              onChange={handleDoubleConfigChange}
+              disabled={false}
+            />
+          )}
+        </section>
+
+        {/* Human play stats */}
+        <section>
+          <PlayerStatsPanel
+            environment={environment}
+            config={double ? doubleConfig : config}
+            revision={statsRevision}
+            onReplay={handleReplayAttempt}
+            onUseConfig={handlePlayStatsConfig}
+          />
+        </section>
+
+        {/* Classical Control */}
+        <section>
+          <ControllerPanel
+            environment={environment}
+            pidGains={pidGains}
+            lqrWeights={lqrWeights}
+            lqr={lqrResult.controller}
+            lqrError={lqrResult.error}
+            onPidChange={setPidGains}
+            onLqrChange={setLqrWeights}
           />
         </section>
 
+        {/* Agent (trains on the single CartPole only) */}
+        {!double && (
+          <section>
+            <AgentPanel
+              config={config}
+              onAgentChange={setAgent}
+              onSnapshot={handleSnapshot}
+              onSampleEpisode={handleHistoryUpdate}
+              onRunStart={handleRunStart}
+              onRunProgress={handleRunProgress}
+            />
+          </section>
+        )}
+
+        {/* Checkpoints */}
+        {!double && (
+          <section>
+            <CheckpointPanel
+              config={config}
+              trained={
+                trained && {
+                  label: trained.label,
+                  snapshot: trained.snapshot,
+                  training: runs.find((r) => r.id === trained.runId)?.episodes ?? [],
+                }
+              }
+              onLoad={handleCheckpointLoad}
+              onUseConfig={handleConfigChange}
+              onEvaluated={handleRunStart}
+            />
+          </section>
+        )}
+
+        {/* Behaviour cloning (single CartPole only, like the agents) */}
+        {!double && (
+          <section>
+            <CloningPanel
+              config={config}
+              humanEpisodes={humanEpisodes}
+              revision={statsRevision}
+              onCloneChange={setClone}
+              onCompared={handleCompared}
+            />
+          </section>
+        )}
+
+        {/* Hyperparameter sweeps (single CartPole only, like the agents) */}
+        {!double && (
+          <section>
+            <SweepPanel config={config} />
+          </section>
+        )}
+
         {/* Analytics */}
         <section>
-           <AnalysisCharts history={history} />
+           <AnalysisCharts traces={traces} />
+           {!double && <StateSpacePanel traces={traces} config={config} policies={mappedPolicies} />}
+           {!double && <RobustnessPanel config={config} policies={mappedPolicies} />}
+           <LearningCurves runs={runs} onClear={() => setRuns([])} />
+           {!double && <IntegratorDiagnostics config={config} />}
+           {!double && <VectorBenchmark config={config} />}
         </section>
       </main>
     </div>
@@ -0,0 +1,464 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Activation,
+  AgentAlgorithm,
+  AgentSnapshot,
+  DqnAgentConfig,
+  EpisodeStats,
+  EpisodeTrace,
+  OptimizerKind,
+  ParameterRange,
+  Policy,
+  SimulationConfig,
+  TabularAgentConfig,
+  TrainingCommand,
+  TrainingEvent,
+  TrainingRun,
+  TrainingStatus,
+} from '../types';
+import { DEFAULT_CONFIG, DEFAULT_DQN_CONFIG, DEFAULT_TABULAR_CONFIG } from '../constants';
+import { describeReward } from '../utils/reward';
+import { NUMERIC_CONFIG_FIELDS, isWithinFieldLimits } from '../utils/configSchema';
+import { restoreAgent } from '../utils/training';
+import { randomSeed } from '../utils/random';
+import { Bot, Pause, Play, Plus, Square, X } from 'lucide-react';
+
+interface AgentPanelProps {
+  config: SimulationConfig;
+  onAgentChange: (agent: Policy | null) => void;
+  onSnapshot: (runId: string, label: string, snapshot: AgentSnapshot) => void; // raw parameters, e.g. for checkpoints
+  onSampleEpisode: (trace: Omit<EpisodeTrace, 'id'>) => void;
+  onRunStart: (run: TrainingRun) => void;
+  onRunProgress: (runId: string, episodes: EpisodeStats[]) => void;
+}
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  decimals?: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+export const SliderField: React.FC<SliderFieldProps> = ({ label, value, min, max, step, decimals = 0, disabled, onChange }) => (
+  <div className="space-y-1">
+    <label className="text-xs font-semibold text-gray-500 uppercase">{label}</label>
+    <div className="flex items-center gap-3">
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
+      />
+      <span className="w-14 text-right font-mono text-sm text-gray-700">{value.toFixed(decimals)}</span>
+    </div>
+  </div>
+);
+
+const BIN_LABELS = ['x', 'ẋ', 'θ', 'θ̇'];
+
+const ALGORITHM_LABELS: Record<AgentAlgorithm, string> = {
+  'q-learning': 'Q-Learning',
+  sarsa: 'SARSA',
+  dqn: 'DQN',
+};
+
+const parseLayers = (text: string): number[] | null => {
+  const layers = text.split(',').map((part) => parseInt(part.trim(), 10));
+  return layers.length > 0 && layers.every((n) => Number.isFinite(n) && n > 0) ? layers : null;
+};
+
+const fieldOf = (key: ParameterRange['key']) => NUMERIC_CONFIG_FIELDS.find((f) => f.key === key);
+
+// A new randomised field starts at ±30% of its current value, within the field's limits
+const defaultRange = (key: ParameterRange['key'], config: SimulationConfig): ParameterRange => {
+  const field = fieldOf(key);
+  const value = config[key];
+  const spread = Math.abs(value) * 0.3;
+  return {
+    key,
+    min: field ? Math.max(field.min, value - spread) : value - spread,
+    max: field ? Math.min(field.max, value + spread) : value + spread,
+  };
+};
+
+const AgentPanel: React.FC<AgentPanelProps> = ({
+  config,
+  onAgentChange,
+  onSnapshot,
+  onSampleEpisode,
+  onRunStart,
+  onRunProgress,
+}) => {
+  const [algorithm, setAlgorithm] = useState<AgentAlgorithm>('q-learning');
+  const [tabularConfig, setTabularConfig] = useState<TabularAgentConfig>(DEFAULT_TABULAR_CONFIG);
+  const [dqnConfig, setDqnConfig] = useState<DqnAgentConfig>(DEFAULT_DQN_CONFIG);
+  const [layersText, setLayersText] = useState(DEFAULT_DQN_CONFIG.hiddenLayers.join(', '));
+  const [episodes, setEpisodes] = useState(1000);
+  const [snapshotInterval, setSnapshotInterval] = useState(50);
+  const [randomisation, setRandomisation] = useState<ParameterRange[]>([]);
+  const [addingRange, setAddingRange] = useState('');
+  const [status, setStatus] = useState<TrainingStatus | 'idle'>('idle');
+  const [progress, setProgress] = useState<EpisodeStats[]>([]);
+  const [stepsPerSecond, setStepsPerSecond] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef('');
+  const runLabelRef = useRef('');
+  const runConfigRef = useRef(config);
+  const runCountRef = useRef(0);
+
+  // One long-lived worker per panel; training never runs on the main thread
+  useEffect(() => {
+    const worker = new Worker(new URL('../utils/training.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    return () => worker.terminate();
+  }, []);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+    worker.onmessage = (e: MessageEvent<TrainingEvent>) => {
+      const event = e.data;
+      switch (event.type) {
+        case 'status':
+          setStatus(event.status);
+          break;
+        case 'progress':
+          setProgress((prev) => [...prev, ...event.episodes]);
+          setStepsPerSecond(event.stepsPerSecond);
+          onRunProgress(runIdRef.current, event.episodes);
+          break;
+        case 'snapshot':
+          onAgentChange(restoreAgent(event.snapshot, randomSeed()));
+          onSnapshot(runIdRef.current, runLabelRef.current, event.snapshot);
+          break;
+        case 'sample':
+          onSampleEpisode({
+            label: `${runLabelRef.current} greedy @ episode ${event.episode}`,
+            environment: 'cartpole',
+            config: runConfigRef.current,
+            history: event.history,
+          });
+          break;
+        case 'error':
+          setError(event.message);
+          setStatus('stopped');
+          break;
+      }
+    };
+  }, [onAgentChange, onSnapshot, onSampleEpisode, onRunProgress]);
+
+  const send = (command: TrainingCommand) => workerRef.current?.postMessage(command);
+
+  const isTraining = status === 'running' || status === 'paused';
+  const isDqn = algorithm === 'dqn';
+
+  const updateTabular = <K extends keyof TabularAgentConfig>(key: K, value: TabularAgentConfig[K]) => {
+    setTabularConfig({ ...tabularConfig, [key]: value });
+  };
+
+  const updateDqn = <K extends keyof DqnAgentConfig>(key: K, value: DqnAgentConfig[K]) => {
+    setDqnConfig({ ...dqnConfig, [key]: value });
+  };
+
+  // Discount and exploration controls are shared, so write them to whichever config is active
+  const updateShared = (key: 'discount' | 'epsilonDecay' | 'epsilonMin', value: number) => {
+    if (isDqn) updateDqn(key, value);
+    else updateTabular(key, value);
+  };
+
+  const updateBins = (index: number, value: number) => {
+    const bins = [...tabularConfig.bins] as TabularAgentConfig['bins'];
+    bins[index] = value;
+    updateTabular('bins', bins);
+  };
+
+  const handleLayersChange = (text: string) => {
+    setLayersText(text);
+    const layers = parseLayers(text);
+    if (layers) updateDqn('hiddenLayers', layers);
+  };
+
+  const availableRanges = NUMERIC_CONFIG_FIELDS.filter((f) => !randomisation.some((r) => r.key === f.key));
+  // Both bounds within the field's limits, so no episode trains on a broken system
+  const rangeValid = (r: ParameterRange) => isWithinFieldLimits(r.key, r.min) && isWithinFieldLimits(r.key, r.max) && r.min <= r.max;
+  const rangesValid = randomisation.every(rangeValid);
+
+  const handleAddRange = () => {
+    const field = availableRanges.find((f) => f.key === addingRange) ?? availableRanges[0];
+    if (!field) return;
+    setRandomisation([...randomisation, defaultRange(field.key, config)]);
+    setAddingRange('');
+  };
+
+  const updateRange = (index: number, changes: Partial<ParameterRange>) => {
+    setRandomisation(randomisation.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  const handleTrain = () => {
+    const agentConfig = isDqn ? dqnConfig : { ...tabularConfig, algorithm };
+    runCountRef.current++;
+    runIdRef.current = `run-${runCountRef.current}`;
+    // Runs trained on a shaped reward say so, to tell them apart on the learning curves
+    const reward = describeReward(config, DEFAULT_CONFIG);
+    const randomised = randomisation.length > 0 ? ` (randomised: ${randomisation.map((r) => r.key).join(', ')})` : '';
+    runLabelRef.current = `${ALGORITHM_LABELS[algorithm]} #${runCountRef.current}${reward ? ` (reward: ${reward})` : ''}${randomised}`;
+    runConfigRef.current = config;
+    onRunStart({ id: runIdRef.current, label: runLabelRef.current, episodes: [] });
+    onAgentChange(null);
+    setProgress([]);
+    setError(null);
+    send({ type: 'start', agentConfig, simConfig: config, episodes, seed: randomSeed(), snapshotInterval, randomisation });
+  };
+
+  // Stopping early still hands over whatever the agent has learned so far (final snapshot)
+  const handleStop = () => send({ type: 'stop' });
+
+  const shared = isDqn ? dqnConfig : tabularConfig;
+  const last = progress[progress.length - 1];
+  const recent = progress.slice(-100);
+  const recentMean = recent.length > 0 ? recent.reduce((sum, s) => sum + s.steps, 0) / recent.length : 0;
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <Bot className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Agent Training</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {/* Algorithm */}
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Algorithm</label>
+          <select
+            value={algorithm}
+            disabled={isTraining}
+            onChange={(e) => setAlgorithm(e.target.value as AgentAlgorithm)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+          >
+            <option value="q-learning">Q-Learning (tabular, off-policy)</option>
+            <option value="sarsa">SARSA (tabular, on-policy)</option>
+            <option value="dqn">DQN (neural network)</option>
+          </select>
+        </div>
+
+        {isDqn ? (
+          <>
+            {/* Network Shape */}
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-gray-500 uppercase">Hidden Layers</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={layersText}
+                  disabled={isTraining}
+                  onChange={(e) => handleLayersChange(e.target.value)}
+                  className={`w-full px-2 py-1 border rounded font-mono text-sm disabled:opacity-50 ${parseLayers(layersText) ? 'border-gray-300' : 'border-red-400'}`}
+                />
+                <select
+                  value={dqnConfig.activation}
+                  disabled={isTraining}
+                  onChange={(e) => updateDqn('activation', e.target.value as Activation)}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                >
+                  <option value="relu">ReLU</option>
+                  <option value="tanh">tanh</option>
+                </select>
+              </div>
+            </div>
+
+            {/* Optimiser */}
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-gray-500 uppercase">Optimiser / Learning Rate</label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={dqnConfig.optimizer}
+                  disabled={isTraining}
+                  onChange={(e) => updateDqn('optimizer', e.target.value as OptimizerKind)}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                >
+                  <option value="adam">Adam</option>
+                  <option value="sgd">SGD</option>
+                </select>
+                <input
+                  type="number"
+                  min="0.00001"
+                  max="1"
+                  step="0.0001"
+                  value={dqnConfig.learningRate}
+                  disabled={isTraining}
+                  onChange={(e) => updateDqn('learningRate', parseFloat(e.target.value) || dqnConfig.learningRate)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-sm disabled:opacity-50"
+                />
+              </div>
+            </div>
+
+            <SliderField label="Batch Size" value={dqnConfig.batchSize} min={8} max={256} step={8}
+              disabled={isTraining} onChange={(v) => updateDqn('batchSize', v)} />
+            <SliderField label="Replay Buffer Size" value={dqnConfig.bufferSize} min={1000} max={100000} step={1000}
+              disabled={isTraining} onChange={(v) => updateDqn('bufferSize', v)} />
+            <SliderField label="Warm-up Steps" value={dqnConfig.warmupSteps} min={0} max={10000} step={100}
+              disabled={isTraining} onChange={(v) => updateDqn('warmupSteps', v)} />
+            <SliderField label="Target Sync Every K Steps" value={dqnConfig.targetSyncInterval} min={10} max={5000} step={10}
+              disabled={isTraining} onChange={(v) => updateDqn('targetSyncInterval', v)} />
+            <SliderField label="Huber Delta" value={dqnConfig.huberDelta} min={0.1} max={10} step={0.1} decimals={1}
+              disabled={isTraining} onChange={(v) => updateDqn('huberDelta', v)} />
+          </>
+        ) : (
+          <>
+            {/* State Buckets */}
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-gray-500 uppercase">Buckets per Dimension</label>
+              <div className="flex items-center gap-2">
+                {tabularConfig.bins.map((n, i) => (
+                  <label key={BIN_LABELS[i]} className="flex items-center gap-1 text-sm font-mono text-gray-700">
+                    {BIN_LABELS[i]}
+                    <input
+                      type="number"
+                      min="1"
+                      max="30"
+                      value={n}
+                      disabled={isTraining}
+                      onChange={(e) => updateBins(i, Math.max(1, parseInt(e.target.value, 10) || 1))}
+                      className="w-12 px-1 py-0.5 border border-gray-300 rounded disabled:opacity-50"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <SliderField label="Learning Rate (α)" value={tabularConfig.learningRate} min={0.01} max={1} step={0.01} decimals={2}
+              disabled={isTraining} onChange={(v) => updateTabular('learningRate', v)} />
+          </>
+        )}
+
+        <SliderField label="Training Episodes" value={episodes} min={100} max={10000} step={100}
+          disabled={isTraining} onChange={setEpisodes} />
+        <SliderField label="Snapshot Every N Episodes" value={snapshotInterval} min={10} max={1000} step={10}
+          disabled={isTraining} onChange={setSnapshotInterval} />
+        <SliderField label="Discount (γ)" value={shared.discount} min={0.8} max={0.999} step={0.001} decimals={3}
+          disabled={isTraining} onChange={(v) => updateShared('discount', v)} />
+        <SliderField label="Epsilon Decay / Episode" value={shared.epsilonDecay} min={0.9} max={0.9999} step={0.0001} decimals={4}
+          disabled={isTraining} onChange={(v) => updateShared('epsilonDecay', v)} />
+        <SliderField label="Epsilon Min" value={shared.epsilonMin} min={0} max={0.2} step={0.01} decimals={2}
+          disabled={isTraining} onChange={(v) => updateShared('epsilonMin', v)} />
+      </div>
+
+      {/* Domain randomisation */}
+      <div className="mt-6">
+        <label className="text-xs font-semibold text-gray-500 uppercase">Domain Randomisation</label>
+        <p className="text-sm text-gray-500 mt-1 mb-2">
+          {randomisation.length > 0
+            ? 'Every training episode draws these config fields uniformly from their ranges; the rest keep their current values.'
+            : 'Off: training uses the current config. Randomise some fields to train a policy that copes with a range of physics.'}
+        </p>
+        {randomisation.map((r, i) => (
+          <div key={r.key} className="flex items-center gap-2 mb-1 text-sm">
+            <span className="w-44 text-gray-700">{fieldOf(r.key)?.label ?? r.key}</span>
+            <input
+              type="number"
+              value={r.min}
+              step={fieldOf(r.key)?.step}
+              disabled={isTraining}
+              onChange={(e) => updateRange(i, { min: parseFloat(e.target.value) })}
+              className={`w-24 px-2 py-0.5 border rounded font-mono text-sm disabled:opacity-50 ${isWithinFieldLimits(r.key, r.min) ? 'border-gray-300' : 'border-red-400'}`}
+            />
+            <span className="text-gray-400">to</span>
+            <input
+              type="number"
+              value={r.max}
+              step={fieldOf(r.key)?.step}
+              disabled={isTraining}
+              onChange={(e) => updateRange(i, { max: parseFloat(e.target.value) })}
+              className={`w-24 px-2 py-0.5 border rounded font-mono text-sm disabled:opacity-50 ${rangeValid(r) ? 'border-gray-300' : 'border-red-400'}`}
+            />
+            <span className="text-xs text-gray-400">{fieldOf(r.key)?.unit}</span>
+            <button
+              onClick={() => setRandomisation(randomisation.filter((_, j) => j !== i))}
+              disabled={isTraining}
+              title="Stop randomising this field"
+              className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 mt-2">
+          <select
+            value={addingRange}
+            disabled={isTraining || availableRanges.length === 0}
+            onChange={(e) => setAddingRange(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+          >
+            {availableRanges.map((f) => (
+              <option key={f.key} value={f.key}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAddRange}
+            disabled={isTraining || availableRanges.length === 0}
+            className="flex items-center gap-2 px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50 text-sm"
+          >
+            <Plus size={14} /> Randomise Field
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-6">
+        <div className="text-sm text-gray-500 font-mono">
+          {error && <div className="text-red-600">Training failed: {error}</div>}
+          {last
+            ? `Episode ${last.episode}/${episodes} · last ${last.steps} steps · avg(100) ${recentMean.toFixed(1)} · ε ${(last.epsilon ?? 0).toFixed(3)}${isDqn ? ` · loss ${(last.meanError ?? 0).toFixed(4)}` : ''}`
+            : 'Not trained yet'}
+          {status === 'running' && <span className="ml-2 text-gray-400">({Math.round(stepsPerSecond).toLocaleString()} steps/s)</span>}
+          {status === 'paused' && <span className="ml-2 text-yellow-600">(paused)</span>}
+        </div>
+        {isTraining ? (
+          <div className="flex gap-2">
+            {status === 'paused' ? (
+              <button
+                onClick={() => send({ type: 'resume' })}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+              >
+                <Play size={16} /> Resume
+              </button>
+            ) : (
+              <button
+                onClick={() => send({ type: 'pause' })}
+                className="flex items-center gap-2 px-4 py-2 bg-yellow-500 text-white rounded hover:bg-yellow-600 transition-colors"
+              >
+                <Pause size={16} /> Pause
+              </button>
+            )}
+            <button
+              onClick={handleStop}
+              className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+            >
+              <Square size={16} /> Stop
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleTrain}
+            disabled={!rangesValid}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <Play size={16} /> Train
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AgentPanel;
@@ -1,19 +1,68 @@
-import React from 'react';
-import { StepHistory } from '../types';
+import React, { useEffect, useState } from 'react';
+import { EpisodeTrace } from '../types';
+import { ExportFormat, exportTraces } from '../utils/exportData';
+import { downloadText } from '../utils/download';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { Activity } from 'lucide-react';
+import { Activity, Download } from 'lucide-react';
 
 interface AnalysisChartsProps {
-  history: StepHistory[];
+  traces: EpisodeTrace[]; // recent episodes, oldest first
 }
 
-const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ history }) => {
-  if (!history || history.length === 0) return null;
+const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ traces }) => {
+  // Episode shown in the charts; null follows the most recent one
+  const [viewedId, setViewedId] = useState<number | null>(null);
+  // Episodes ticked for export; when none are ticked the viewed episode is exported
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [format, setFormat] = useState<ExportFormat>('csv');
 
-  // Prepare data: Convert theta to degrees for easier reading
-  const data = history.map(h => ({
+  // Episodes trimmed off the list leave the selection, so the export covers what it says
+  useEffect(() => {
+    setSelected((prev) => {
+      const kept = new Set([...prev].filter((id) => traces.some((t) => t.id === id)));
+      return kept.size === prev.size ? prev : kept;
+    });
+  }, [traces]);
+
+  const current = traces.find((t) => t.id === viewedId) ?? traces[traces.length - 1];
+  if (!current) return null;
+  const history = current.history;
+
+  const toggleSelected = (id: number) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const selectedTraces = traces.filter((t) => selected.has(t.id));
+  const exportList = selectedTraces.length > 0 ? selectedTraces : [current];
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadText(
+      `cartpole-episodes-${stamp}.${format}`,
+      exportTraces(exportList, format),
+      format === 'csv' ? 'text/csv' : 'application/x-ndjson'
+    );
+  };
+
+  // Swing-up angles cover the full circle and have no fail angle to mark
+  const swingUp = 'task' in current.config && current.config.task === 'swingup';
+  const threshold = current.config.thetaThresholdDegrees;
+  // Double-pendulum episodes plot the upper pole alongside the lower one
+  const twoPoles = current.environment === 'double-cartpole';
+  const angleDomain = swingUp ? [-180, 180] : [-1, 1].map((s) => s * Math.ceil((threshold * 1.25) / 5) * 5);
+  // The track's ends, rounded out to the next half metre
+  const positionDomain = [-1, 1].map((s) => (s * Math.ceil(current.config.xThreshold * 2)) / 2);
+
+  // Prepare data: Convert theta to degrees for easier reading. Where the
+  // wrapped angle jumps across ±180° the point is left out, breaking the line
+  // instead of drawing a spike through zero.
+  const data = history.map((h, i) => ({
     ...h,
-    thetaDeg: h.theta * (180 / Math.PI),
+    thetaDeg: i > 0 && Math.abs(h.theta - history[i - 1].theta) > Math.PI ? null : h.theta * (180 / Math.PI),
+    theta2Deg: h.theta2 === undefined ? null : h.theta2 * (180 / Math.PI),
   }));
 
   return (
@@ -21,25 +70,42 @@ const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ history }) => {
        <div className="flex items-center gap-2 mb-6 border-b pb-2">
         <Activity className="text-indigo-600" />
         <h2 className="text-lg font-bold text-gray-800">Episode Analysis</h2>
+        <select
+          value={current.id}
+          onChange={(e) => {
+            const id = parseInt(e.target.value, 10);
+            setViewedId(id === traces[traces.length - 1].id ? null : id);
+          }}
+          className="ml-auto px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          {[...traces].reverse().map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label} ({t.history.length} steps)
+            </option>
+          ))}
+        </select>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Angle Chart */}
         <div className="h-64">
-          <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">Pole Angle (Degrees)</h3>
+          <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">
+            {twoPoles ? 'Pole Angles (Degrees, lower / upper)' : 'Pole Angle (Degrees)'}
+          </h3>
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={data}>
               <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
               <XAxis dataKey="step" hide />
-              <YAxis domain={[-15, 15]} />
+              <YAxis domain={angleDomain} ticks={swingUp ? [-180, -90, 0, 90, 180] : undefined} />
               <Tooltip 
                 labelFormatter={(label) => `Step: ${label}`}
                 formatter={(value: number) => [value.toFixed(2), 'Deg']}
               />
               <ReferenceLine y={0} stroke="#666" />
-              <ReferenceLine y={12} stroke="#ffcccc" strokeDasharray="3 3" />
-              <ReferenceLine y={-12} stroke="#ffcccc" strokeDasharray="3 3" />
+              {!swingUp && <ReferenceLine y={threshold} stroke="#ffcccc" strokeDasharray="3 3" />}
+              {!swingUp && <ReferenceLine y={-threshold} stroke="#ffcccc" strokeDasharray="3 3" />}
               <Line type="monotone" dataKey="thetaDeg" stroke="#d97706" strokeWidth={2} dot={false} />
+              {twoPoles && <Line type="monotone" dataKey="theta2Deg" stroke="#ea580c" strokeWidth={2} strokeDasharray="5 3" dot={false} />}
             </LineChart>
           </ResponsiveContainer>
         </div>
@@ -51,7 +117,7 @@ const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ history }) => {
             <LineChart data={data}>
               <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
               <XAxis dataKey="step" hide />
-              <YAxis domain={[-2.5, 2.5]} />
+              <YAxis domain={positionDomain} />
               <Tooltip 
                 labelFormatter={(label) => `Step: ${label}`}
                 formatter={(value: number) => [value.toFixed(2), 'm']}
@@ -61,8 +127,67 @@ const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ history }) => {
             </LineChart>
           </ResponsiveContainer>
         </div>
+
+        {/* Reward Chart */}
+        <div className="h-64 lg:col-span-2">
+          <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">
+            Reward per Step (left) and Return (right) · final return{' '}
+            {history.length > 0 ? history[history.length - 1].return.toFixed(1) : '0'}
+          </h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+              <XAxis dataKey="step" hide />
+              <YAxis yAxisId="reward" />
+              <YAxis yAxisId="return" orientation="right" />
+              <Tooltip
+                labelFormatter={(label) => `Step: ${label}`}
+                formatter={(value: number, name: string) => [value.toFixed(3), name]}
+              />
+              <ReferenceLine yAxisId="reward" y={0} stroke="#666" />
+              <Line yAxisId="reward" type="monotone" dataKey="reward" name="Reward" stroke="#059669" strokeWidth={2} dot={false} />
+              <Line yAxisId="return" type="monotone" dataKey="return" name="Return" stroke="#7c3aed" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 text-center mt-4">
+        Charts show {viewedId === null ? 'the most recent completed episode' : 'the selected episode'}.
+      </p>
+
+      {/* Export */}
+      <div className="mt-6 pt-4 border-t border-gray-100">
+        <div className="flex flex-wrap gap-2 mb-3">
+          {traces.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => toggleSelected(t.id)}
+              className={`px-3 py-1 rounded-full border text-sm transition-colors ${selected.has(t.id) ? 'bg-indigo-600 text-white border-indigo-600' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="csv">CSV</option>
+            <option value="jsonl">JSON Lines</option>
+          </select>
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+          >
+            <Download size={16} /> Export {exportList.length === 1 ? 'Episode' : `${exportList.length} Episodes`}
+          </button>
+          <span className="text-xs text-gray-400">
+            {selected.size > 0 ? 'Exports the highlighted episodes.' : 'Highlight episodes above to export several at once.'}
+          </span>
+        </div>
       </div>
-      <p className="text-xs text-gray-400 text-center mt-4">Charts show data from the most recent completed episode.</p>
     </div>
   );
 };
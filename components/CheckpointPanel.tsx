@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AgentCheckpoint, AgentSnapshot, EpisodeStats, SimulationConfig, TrainingRun } from '../types';
+import {
+  checkpointAlgorithm,
+  checkpointFileName,
+  createCheckpoint,
+  deleteCheckpoint,
+  listCheckpoints,
+  parseCheckpoint,
+  serializeCheckpoint,
+  storeCheckpoint,
+} from '../utils/checkpoints';
+import { CONFIG_SCHEMA } from '../utils/configSchema';
+import { evaluatePolicy, restoreAgent } from '../utils/training';
+import { downloadText } from '../utils/download';
+import { Archive, Download, FlaskConical, FolderOpen, Pencil, Save, Trash2, Upload } from 'lucide-react';
+
+interface CheckpointPanelProps {
+  config: SimulationConfig; // current config; evaluations run on it
+  trained: { label: string; snapshot: AgentSnapshot; training: EpisodeStats[] } | null; // latest agent from training
+  onLoad: (checkpoint: AgentCheckpoint) => void;
+  onUseConfig: (config: SimulationConfig) => void;
+  onEvaluated: (run: TrainingRun) => void;
+}
+
+// Greedy episodes per evaluation, always from the same seeds so results compare
+const EVAL_EPISODES = 20;
+const EVAL_SEED = 1;
+
+interface Evaluation {
+  meanSteps: number;
+  successRate: number; // fraction of episodes that reached maxSteps
+}
+
+const sameConfig = (a: SimulationConfig, b: SimulationConfig) => CONFIG_SCHEMA.every((f) => a[f.key] === b[f.key]);
+
+const meanOfLast = (stats: EpisodeStats[], n: number) => {
+  const recent = stats.slice(-n);
+  return recent.length > 0 ? recent.reduce((sum, s) => sum + s.steps, 0) / recent.length : 0;
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const CheckpointPanel: React.FC<CheckpointPanelProps> = ({ config, trained, onLoad, onUseConfig, onEvaluated }) => {
+  const [checkpoints, setCheckpoints] = useState<AgentCheckpoint[]>([]);
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [evaluations, setEvaluations] = useState<Record<string, Evaluation>>({});
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const evalCountRef = useRef(0);
+
+  const refresh = async () => {
+    try {
+      setCheckpoints(await listCheckpoints());
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Every store change is followed by a reload of the list, so it always shows what is stored
+  const update = async (change: () => Promise<void>) => {
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+    await refresh();
+  };
+
+  const handleSave = () => {
+    if (!trained) return;
+    const checkpoint = createCheckpoint(name.trim() || trained.label, trained.snapshot, trained.training);
+    setName('');
+    update(() => storeCheckpoint(checkpoint));
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const checkpoint = parseCheckpoint(await file.text());
+      await update(() => storeCheckpoint(checkpoint));
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${errorMessage(err)}`);
+    }
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    const checkpoint = checkpoints.find((c) => c.id === renaming.id);
+    const newName = renaming.name.trim();
+    setRenaming(null);
+    if (checkpoint && newName !== '' && newName !== checkpoint.name) {
+      update(() => storeCheckpoint({ ...checkpoint, name: newName }));
+    }
+  };
+
+  const handleDelete = (checkpoint: AgentCheckpoint) => {
+    if (!window.confirm(`Delete checkpoint "${checkpoint.name}"?`)) return;
+    if (loadedId === checkpoint.id) setLoadedId(null);
+    update(() => deleteCheckpoint(checkpoint.id));
+  };
+
+  const handleLoad = (checkpoint: AgentCheckpoint) => {
+    setLoadedId(checkpoint.id);
+    onLoad(checkpoint);
+  };
+
+  const handleEvaluate = (checkpoint: AgentCheckpoint) => {
+    const episodes = evaluatePolicy(restoreAgent(checkpoint.snapshot, EVAL_SEED), config, EVAL_EPISODES, EVAL_SEED);
+    const meanSteps = episodes.reduce((sum, s) => sum + s.steps, 0) / episodes.length;
+    const successRate = episodes.filter((s) => s.terminatedCode === 'max_steps').length / episodes.length;
+    setEvaluations({ ...evaluations, [checkpoint.id]: { meanSteps, successRate } });
+    evalCountRef.current++;
+    onEvaluated({ id: `eval-${checkpoint.id}-${evalCountRef.current}`, label: `Eval: ${checkpoint.name}`, episodes });
+  };
+
+  const loaded = checkpoints.find((c) => c.id === loadedId);
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <Archive className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Agent Checkpoints</h2>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <input
+          type="text"
+          value={name}
+          disabled={!trained}
+          placeholder={trained ? trained.label : 'Train an agent to save it'}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 min-w-48 px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!trained}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          <Save size={16} /> Save Current Agent
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+        >
+          <Upload size={16} /> Import File
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {loaded && !sameConfig(loaded.snapshot.simConfig, config) && (
+        <div className="mb-4 px-4 py-2 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-700 flex items-center gap-3">
+          <span>"{loaded.name}" was trained on a different configuration than the current one.</span>
+          <button onClick={() => onUseConfig(loaded.snapshot.simConfig)} className="ml-auto underline hover:no-underline">
+            Use its training config
+          </button>
+        </div>
+      )}
+
+      {checkpoints.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No saved checkpoints. Saved agents stay in this browser; download one to share it as a file.
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase text-left border-b">
+              <th className="py-1">Name</th>
+              <th className="py-1">Algorithm</th>
+              <th className="py-1 text-right">Episodes</th>
+              <th className="py-1 text-right">Avg(100)</th>
+              <th className="py-1 text-right">Evaluation</th>
+              <th className="py-1 text-right">Saved</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody className="text-gray-700">
+            {checkpoints.map((checkpoint) => {
+              const evaluation = evaluations[checkpoint.id];
+              return (
+                <tr key={checkpoint.id} className={`border-b border-gray-100 ${checkpoint.id === loadedId ? 'bg-indigo-50' : ''}`}>
+                  <td className="py-1">
+                    {renaming?.id === checkpoint.id ? (
+                      <input
+                        type="text"
+                        autoFocus
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ id: checkpoint.id, name: e.target.value })}
+                        onBlur={handleRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setRenaming(null);
+                        }}
+                        className="w-full px-1 py-0.5 border border-gray-300 rounded text-sm"
+                      />
+                    ) : (
+                      checkpoint.name
+                    )}
+                  </td>
+                  <td className="py-1">{checkpointAlgorithm(checkpoint)}</td>
+                  <td className="py-1 text-right font-mono">{checkpoint.training.length}</td>
+                  <td className="py-1 text-right font-mono">{meanOfLast(checkpoint.training, 100).toFixed(1)}</td>
+                  <td className="py-1 text-right font-mono" title={`${EVAL_EPISODES} greedy episodes on the current config`}>
+                    {evaluation ? `${evaluation.meanSteps.toFixed(1)} · ${Math.round(evaluation.successRate * 100)}%` : '–'}
+                  </td>
+                  <td className="py-1 text-right text-xs text-gray-500">{new Date(checkpoint.savedAt).toLocaleString()}</td>
+                  <td className="py-1">
+                    <div className="flex justify-end gap-1 text-gray-500">
+                      <button onClick={() => handleLoad(checkpoint)} title="Load as the active agent" className="p-1 hover:text-indigo-600">
+                        <FolderOpen size={16} />
+                      </button>
+                      <button onClick={() => handleEvaluate(checkpoint)} title="Evaluate on the current config" className="p-1 hover:text-indigo-600">
+                        <FlaskConical size={16} />
+                      </button>
+                      <button
+                        onClick={() =>
+                          downloadText(checkpointFileName(checkpoint), serializeCheckpoint(checkpoint))
+                        }
+                        title="Download as a file"
+                        className="p-1 hover:text-indigo-600"
+                      >
+                        <Download size={16} />
+                      </button>
+                      <button
+                        onClick={() => setRenaming({ id: checkpoint.id, name: checkpoint.name })}
+                        title="Rename"
+                        className="p-1 hover:text-indigo-600"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button onClick={() => handleDelete(checkpoint)} title="Delete" className="p-1 hover:text-red-600">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <p className="text-xs text-gray-400 mt-4">
+        Evaluation plays {EVAL_EPISODES} greedy episodes on the current config from fixed seeds and shows the mean
+        steps and the share that reached the step limit; the episodes are also added to the learning curves.
+      </p>
+    </div>
+  );
+};
+
+export default CheckpointPanel;
@@ -0,0 +1,335 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  BehaviourCloningConfig,
+  CloningEpoch,
+  DemonstrationFilter,
+  EpisodeRecording,
+  EpisodeStats,
+  Policy,
+  SimulationConfig,
+  TrainingRun,
+} from '../types';
+import { DEFAULT_CLONING_CONFIG, DEFAULT_DEMONSTRATION_FILTER } from '../constants';
+import { buildDataset, compareWithDemonstrations, selectDemonstrations, trainClone } from '../utils/behaviourCloning';
+import { listPlayerStats } from '../utils/playerStats';
+import { parseRecording } from '../utils/episodeFile';
+import { CARTPOLE } from '../utils/environments';
+import { getActionSet } from '../utils/physics';
+import { randomSeed } from '../utils/random';
+import { SliderField } from './AgentPanel';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { GraduationCap, Play, Trash2, Upload } from 'lucide-react';
+
+interface CloningPanelProps {
+  config: SimulationConfig; // the clone plays under this config's action space
+  humanEpisodes: EpisodeRecording[]; // human episodes finished this session
+  revision: number; // bumped whenever an attempt is recorded, to pick up newly stored ones
+  onCloneChange: (clone: Policy | null) => void;
+  onCompared: (runs: TrainingRun[]) => void;
+}
+
+const CLONE_NAME = 'Clone (Human)';
+
+const ACTION_LABELS: Record<SimulationConfig['actionSpace'], string[]> = {
+  'discrete-2': ['Left', 'Right'],
+  'discrete-3': ['Left', 'Coast', 'Right'],
+  continuous: ['−F', '−F/2', '0', '+F/2', '+F'],
+};
+
+interface Comparison {
+  episodes: number;
+  humanMean: number;
+  cloneMean: number;
+  cloneWins: number; // episodes where the clone lasted longer than the human from the same seed
+  humanWins: number;
+}
+
+// Recordings reach the panel from several places; the same episode can arrive twice
+const episodeId = (recording: EpisodeRecording) => `${recording.recordedAt}|${recording.seed}|${recording.steps.length}`;
+
+const meanSteps = (episodes: EpisodeStats[]) => episodes.reduce((sum, e) => sum + e.steps, 0) / Math.max(1, episodes.length);
+
+const CloningPanel: React.FC<CloningPanelProps> = ({ config, humanEpisodes, revision, onCloneChange, onCompared }) => {
+  const [filter, setFilter] = useState<DemonstrationFilter>(DEFAULT_DEMONSTRATION_FILTER);
+  const [cloningConfig, setCloningConfig] = useState<BehaviourCloningConfig>(DEFAULT_CLONING_CONFIG);
+  const [stored, setStored] = useState<EpisodeRecording[]>([]);
+  const [imported, setImported] = useState<EpisodeRecording[]>([]);
+  const [training, setTraining] = useState(false);
+  const [result, setResult] = useState<{ epochs: CloningEpoch[]; comparison: Comparison } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const compareCountRef = useRef(0);
+
+  // Attempts kept in the stored player stats survive a reload, so they are demonstrations too
+  useEffect(() => {
+    setStored(
+      listPlayerStats()
+        .filter((s) => s.environment === 'cartpole')
+        .flatMap((s) => s.recordings as EpisodeRecording[])
+    );
+  }, [revision]);
+
+  const pool = useMemo(() => {
+    const byId = new Map<string, EpisodeRecording>();
+    for (const recording of [...stored, ...humanEpisodes, ...imported]) byId.set(episodeId(recording), recording);
+    return [...byId.values()];
+  }, [stored, humanEpisodes, imported]);
+
+  const demonstrations = useMemo(() => selectDemonstrations(pool, filter, config), [pool, filter, config]);
+  const dataset = useMemo(
+    () => buildDataset(demonstrations, filter.trimFailureSteps, config),
+    [demonstrations, filter.trimFailureSteps, config]
+  );
+  const actionLabels = ACTION_LABELS[config.actionSpace];
+
+  const updateFilter = <K extends keyof DemonstrationFilter>(key: K, value: DemonstrationFilter[K]) =>
+    setFilter({ ...filter, [key]: value });
+  const updateCloning = <K extends keyof BehaviourCloningConfig>(key: K, value: BehaviourCloningConfig[K]) =>
+    setCloningConfig({ ...cloningConfig, [key]: value });
+
+  const handleImport = async (files: FileList | null) => {
+    if (!files) return;
+    const loaded: EpisodeRecording[] = [];
+    const problems: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        loaded.push(parseRecording(await file.text(), CARTPOLE));
+      } catch (err) {
+        problems.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    setImported((prev) => [...prev, ...loaded]);
+    setError(problems.length > 0 ? `Some files were skipped. ${problems.join('; ')}` : null);
+  };
+
+  const handleTrain = () => {
+    if (dataset.labels.length === 0) return;
+    setTraining(true);
+    setError(null);
+    // Let the button repaint before the main thread is busy
+    setTimeout(() => {
+      try {
+        const { policy, epochs } = trainClone(CLONE_NAME, dataset, cloningConfig, config, randomSeed());
+        const { human, clone } = compareWithDemonstrations(policy, demonstrations);
+        setResult({
+          epochs,
+          comparison: {
+            episodes: demonstrations.length,
+            humanMean: meanSteps(human),
+            cloneMean: meanSteps(clone),
+            cloneWins: clone.filter((e, i) => e.steps > human[i].steps).length,
+            humanWins: clone.filter((e, i) => e.steps < human[i].steps).length,
+          },
+        });
+        onCloneChange(policy);
+        const n = ++compareCountRef.current;
+        onCompared([
+          { id: `bc-human-${n}`, label: `Human demonstrations #${n}`, episodes: human },
+          { id: `bc-clone-${n}`, label: `${CLONE_NAME} #${n}, same seeds`, episodes: clone },
+        ]);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+      setTraining(false);
+    }, 0);
+  };
+
+  const handleDiscard = () => {
+    setResult(null);
+    onCloneChange(null);
+  };
+
+  const last = result ? result.epochs[result.epochs.length - 1] : null;
+  const totalSamples = dataset.labels.length;
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <GraduationCap className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Behaviour Cloning</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Imitation learning from your own play: every step of the chosen episodes becomes a training sample (what you
+        saw, what you pressed), and a classifier learns to press the same. The clone then plays from the seeds of your
+        episodes so the two can be compared.
+      </p>
+
+      {/* Demonstrations */}
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-600">
+        <span>
+          <strong className="text-gray-800">{pool.length}</strong> recorded episodes available ({humanEpisodes.length}{' '}
+          this session, {stored.length} stored, {imported.length} imported).
+        </span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="ml-auto flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+        >
+          <Upload size={16} /> Import Episode Files
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            handleImport(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 self-end pb-1">
+          <input
+            type="checkbox"
+            checked={filter.sameConfigOnly}
+            disabled={training}
+            onChange={(e) => updateFilter('sameConfigOnly', e.target.checked)}
+            className="accent-indigo-600"
+          />
+          Current config only
+        </label>
+        <SliderField label="Min Steps" value={filter.minSteps} min={0} max={500} step={10}
+          disabled={training} onChange={(v) => updateFilter('minSteps', v)} />
+        <SliderField label="Best N Episodes (0 = all)" value={filter.bestCount} min={0} max={50} step={1}
+          disabled={training} onChange={(v) => updateFilter('bestCount', v)} />
+        <SliderField label="Trim Steps Before Failure" value={filter.trimFailureSteps} min={0} max={50} step={1}
+          disabled={training} onChange={(v) => updateFilter('trimFailureSteps', v)} />
+      </div>
+
+      <p className="text-sm text-gray-600 mb-6 font-mono">
+        {demonstrations.length} episodes · {totalSamples} samples
+        {totalSamples > 0 &&
+          ` · ${dataset.actionCounts
+            .map((count, i) => `${actionLabels[i]} ${Math.round((100 * count) / totalSamples)}%`)
+            .join(' / ')}`}
+      </p>
+
+      {/* Model */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Model</label>
+          <select
+            value={cloningConfig.model}
+            disabled={training}
+            onChange={(e) => updateCloning('model', e.target.value as BehaviourCloningConfig['model'])}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+          >
+            <option value="logistic">Logistic regression (linear)</option>
+            <option value="mlp">MLP (one hidden layer)</option>
+          </select>
+        </div>
+        {cloningConfig.model === 'mlp' && (
+          <SliderField label="Hidden Units" value={cloningConfig.hiddenUnits} min={4} max={64} step={4}
+            disabled={training} onChange={(v) => updateCloning('hiddenUnits', v)} />
+        )}
+        <SliderField label="Epochs" value={cloningConfig.epochs} min={1} max={100} step={1}
+          disabled={training} onChange={(v) => updateCloning('epochs', v)} />
+        <SliderField label="Learning Rate" value={cloningConfig.learningRate} min={0.001} max={0.1} step={0.001} decimals={3}
+          disabled={training} onChange={(v) => updateCloning('learningRate', v)} />
+        <SliderField label="Batch Size" value={cloningConfig.batchSize} min={8} max={256} step={8}
+          disabled={training} onChange={(v) => updateCloning('batchSize', v)} />
+        <SliderField label="Validation Split" value={cloningConfig.validationSplit} min={0} max={0.5} step={0.05} decimals={2}
+          disabled={training} onChange={(v) => updateCloning('validationSplit', v)} />
+      </div>
+
+      <div className="flex items-center justify-between mt-6">
+        <div className="text-sm text-gray-500 font-mono">
+          {error && <div className="text-red-600">{error}</div>}
+          {last
+            ? `Loss ${last.loss.toFixed(3)} · train accuracy ${(100 * last.trainAccuracy).toFixed(1)}%${
+                last.validationAccuracy !== null ? ` · validation ${(100 * last.validationAccuracy).toFixed(1)}%` : ''
+              }`
+            : totalSamples === 0
+              ? 'Play some episodes yourself (or import episode files) to collect demonstrations'
+              : 'No clone trained yet'}
+        </div>
+        <div className="flex gap-2">
+          {result && (
+            <button
+              onClick={handleDiscard}
+              disabled={training}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              <Trash2 size={16} /> Discard Clone
+            </button>
+          )}
+          <button
+            onClick={handleTrain}
+            disabled={training || totalSamples === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <Play size={16} /> {training ? 'Training…' : 'Train Clone'}
+          </button>
+        </div>
+      </div>
+
+      {result && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-6">
+          <div className="h-64">
+            <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">Agreement with Your Actions (%)</h3>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={result.epochs.map((e) => ({
+                  epoch: e.epoch,
+                  train: 100 * e.trainAccuracy,
+                  validation: e.validationAccuracy === null ? undefined : 100 * e.validationAccuracy,
+                }))}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+                <XAxis dataKey="epoch" />
+                <YAxis domain={[0, 100]} />
+                <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Legend />
+                <Line type="monotone" dataKey="train" name="Training episodes" stroke="#4f46e5" dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="validation" name="Held-out episodes" stroke="#d97706" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">Clone vs You, Same Seeds</h3>
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase text-left border-b">
+                  <th className="py-1" />
+                  <th className="py-1 text-right">Mean Steps</th>
+                  <th className="py-1 text-right">Lasted Longer</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-gray-700">
+                <tr className="border-b border-gray-100">
+                  <td className="py-1 font-sans">You</td>
+                  <td className="py-1 text-right">{result.comparison.humanMean.toFixed(1)}</td>
+                  <td className="py-1 text-right">
+                    {result.comparison.humanWins} / {result.comparison.episodes}
+                  </td>
+                </tr>
+                <tr className="border-b border-gray-100">
+                  <td className="py-1 font-sans">{CLONE_NAME}</td>
+                  <td className="py-1 text-right">{result.comparison.cloneMean.toFixed(1)}</td>
+                  <td className="py-1 text-right">
+                    {result.comparison.cloneWins} / {result.comparison.episodes}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500">
+              Pick <strong>{CLONE_NAME}</strong> as the controller in the simulation to watch it play. Both runs are
+              also on the learning curves. A clone usually does worse than its teacher: once it drifts into states you
+              never visited, it has nothing to copy.
+            </p>
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-gray-400 mt-4">
+        The clone chooses among the {getActionSet(config).length} actions of the current action space; continuous forces
+        are matched to the nearest level.
+      </p>
+    </div>
+  );
+};
+
+export default CloningPanel;
@@ -1,156 +1,169 @@
-import React from 'react';
-import { SimulationConfig } from '../types';
-import { Settings2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { EnvironmentConfig } from '../types';
+import { ConfigField, ConfigSpec, NumericField, findPresetName, validateField } from '../utils/configSchema';
+import { Settings2, Link } from 'lucide-react';
 
-interface ConfigPanelProps {
-  config: SimulationConfig;
-  onChange: (newConfig: SimulationConfig) => void;
+interface ConfigPanelProps<C extends EnvironmentConfig> {
+  spec: ConfigSpec<C>; // fields, presets and validation of the active environment
+  config: C;
+  onChange: (newConfig: C) => void;
   disabled: boolean;
 }
 
-const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disabled }) => {
-  
-  const handleChange = (key: keyof SimulationConfig, value: number) => {
-    onChange({ ...config, [key]: value });
+// Digits shown for a numeric field, derived from its step size
+const decimalsOf = <C,>(field: NumericField<C>) => Math.max(0, -Math.floor(Math.log10(field.step)));
+
+const ConfigPanel = <C extends EnvironmentConfig>({ spec, config, onChange, disabled }: ConfigPanelProps<C>) => {
+  // Text in number boxes being edited, per field; kept verbatim so partial input isn't reformatted
+  const [drafts, setDrafts] = useState<Partial<Record<keyof C, string>>>({});
+  const [copied, setCopied] = useState(false);
+
+  const issues = spec.validate(config);
+  const presetName = findPresetName(config, spec);
+
+  const handleChange = (field: ConfigField<C>, value: number | string) => {
+    onChange({ ...config, [field.key]: value });
   };
 
-  return (
-    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200">
-      <div className="flex items-center gap-2 mb-6 border-b pb-2">
-        <Settings2 className="text-indigo-600" />
-        <h2 className="text-lg font-bold text-gray-800">Environment Parameters</h2>
-      </div>
-      
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {/* Gravity */}
-        <div className="space-y-1">
-          <label className="text-xs font-semibold text-gray-500 uppercase">Gravity (m/s²)</label>
-          <div className="flex items-center gap-3">
-            <input
-              type="range"
-              min="1.0"
-              max="20.0"
-              step="0.1"
-              value={config.gravity}
-              disabled={disabled}
-              onChange={(e) => handleChange('gravity', parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
-            />
-            <span className="w-12 text-right font-mono text-sm text-gray-700">{config.gravity.toFixed(1)}</span>
-          </div>
-        </div>
+  // Typed values are only applied once they pass validation; until then the box shows the error
+  const handleTyped = (field: NumericField<C>, text: string) => {
+    setDrafts({ ...drafts, [field.key]: text });
+    const value = Number(text);
+    if (text.trim() !== '' && validateField(field, value) === null) handleChange(field, value);
+  };
 
-        {/* Force Magnitude */}
-        <div className="space-y-1">
-          <label className="text-xs font-semibold text-gray-500 uppercase">Force Magnitude (N)</label>
-          <div className="flex items-center gap-3">
-            <input
-              type="range"
-              min="1.0"
-              max="50.0"
-              step="1.0"
-              value={config.forceMag}
-              disabled={disabled}
-              onChange={(e) => handleChange('forceMag', parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
-            />
-            <span className="w-12 text-right font-mono text-sm text-gray-700">{config.forceMag}</span>
-          </div>
-        </div>
+  const handleTypedDone = (field: NumericField<C>) => {
+    const next = { ...drafts };
+    delete next[field.key];
+    setDrafts(next);
+  };
 
-        {/* Pole Mass */}
-        <div className="space-y-1">
-          <label className="text-xs font-semibold text-gray-500 uppercase">Pole Mass (kg)</label>
-          <div className="flex items-center gap-3">
-            <input
-              type="range"
-              min="0.05"
-              max="2.0"
-              step="0.05"
-              value={config.poleMass}
-              disabled={disabled}
-              onChange={(e) => handleChange('poleMass', parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
-            />
-            <span className="w-12 text-right font-mono text-sm text-gray-700">{config.poleMass.toFixed(2)}</span>
-          </div>
-        </div>
+  const handlePreset = (name: string) => {
+    const preset = spec.presets.find((p) => p.name === name);
+    if (preset) {
+      setDrafts({});
+      onChange(preset.config);
+    }
+  };
 
-        {/* Pole Length */}
-        <div className="space-y-1">
-          <label className="text-xs font-semibold text-gray-500 uppercase">Pole Half-Length (m)</label>
-          <div className="flex items-center gap-3">
-            <input
-              type="range"
-              min="0.1"
-              max="2.0"
-              step="0.1"
-              value={config.poleLength}
-              disabled={disabled}
-              onChange={(e) => handleChange('poleLength', parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
-            />
-            <span className="w-12 text-right font-mono text-sm text-gray-700">{config.poleLength.toFixed(1)}</span>
-          </div>
-        </div>
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setCopied(false);
+    }
+  };
 
-        {/* Max Steps */}
-        <div className="space-y-1">
-          <label className="text-xs font-semibold text-gray-500 uppercase">Max Steps</label>
-          <div className="flex items-center gap-3">
-            <input
-              type="range"
-              min="100"
-              max="2000"
-              step="100"
-              value={config.maxSteps}
-              disabled={disabled}
-              onChange={(e) => handleChange('maxSteps', parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
-            />
-            <span className="w-12 text-right font-mono text-sm text-gray-700">{config.maxSteps}</span>
-          </div>
+  const renderNumber = (field: NumericField<C>) => {
+    const value = Number(config[field.key]);
+    const draft = drafts[field.key];
+    const draftError = draft !== undefined ? validateField(field, draft.trim() === '' ? NaN : Number(draft)) : null;
+    return (
+      <>
+        <div className="flex items-center gap-3">
+          <input
+            type="range"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={value}
+            disabled={disabled}
+            onChange={(e) => handleChange(field, parseFloat(e.target.value))}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
+          />
+          <input
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={draft ?? value.toFixed(decimalsOf(field))}
+            disabled={disabled}
+            onChange={(e) => handleTyped(field, e.target.value)}
+            onBlur={() => handleTypedDone(field)}
+            className={`w-20 px-1 py-0.5 border rounded text-right font-mono text-sm text-gray-700 disabled:opacity-50 ${draftError ? 'border-red-400' : 'border-gray-300'}`}
+          />
         </div>
+        {draftError && <p className="text-xs text-red-600">{draftError}</p>}
+      </>
+    );
+  };
 
-         {/* Update Frequency (Speed) */}
-         <div className="space-y-1">
-          <label className="text-xs font-semibold text-gray-500 uppercase">Physics Timestep (s)</label>
-          <div className="flex items-center gap-3">
-            <input
-              type="range"
-              min="0.005"
-              max="0.05"
-              step="0.001"
-              value={config.tau}
-              disabled={disabled}
-              onChange={(e) => handleChange('tau', parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
-            />
-            <span className="w-12 text-right font-mono text-sm text-gray-700">{config.tau.toFixed(3)}</span>
-          </div>
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <Settings2 className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Environment Parameters</h2>
+        <div className="ml-auto flex items-center gap-2">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Preset</label>
+          <select
+            value={presetName ?? ''}
+            disabled={disabled}
+            onChange={(e) => handlePreset(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+          >
+            {presetName === null && <option value="">Custom</option>}
+            {spec.presets.map((p) => (
+              <option key={p.name} value={p.name} title={p.description}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCopyLink}
+            title="Copy a link to this configuration"
+            className="flex items-center gap-1 px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors text-sm"
+          >
+            <Link size={14} /> {copied ? 'Copied' : 'Copy Link'}
+          </button>
         </div>
+      </div>
 
-        {/* Failure Angle */}
-        <div className="space-y-1">
-          <label className="text-xs font-semibold text-gray-500 uppercase">Fail Angle (Deg)</label>
-          <div className="flex items-center gap-3">
-            <input
-              type="range"
-              min="10"
-              max="45"
-              step="1"
-              value={config.thetaThresholdDegrees}
-              disabled={disabled}
-              onChange={(e) => handleChange('thetaThresholdDegrees', parseFloat(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
-            />
-            <span className="w-12 text-right font-mono text-sm text-gray-700">{config.thetaThresholdDegrees}</span>
+      {spec.sections.map((section) => (
+        <div key={section} className="mb-6 last:mb-0">
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">{section}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {spec.schema.filter((field) => field.section === section).map((field) => (
+              <div key={String(field.key)} className="space-y-1" title={field.description}>
+                <label className="text-xs font-semibold text-gray-500 uppercase">
+                  {field.label}
+                  {field.kind === 'number' && ` (${field.unit})`}
+                </label>
+                {field.kind === 'number' ? (
+                  renderNumber(field)
+                ) : (
+                  <select
+                    value={String(config[field.key])}
+                    disabled={disabled}
+                    onChange={(e) => handleChange(field, e.target.value)}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                  >
+                    {field.options.map((o) => (
+                      <option key={o.value} value={o.value}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <p className="text-xs text-gray-400">{field.description}</p>
+              </div>
+            ))}
           </div>
         </div>
+      ))}
 
-      </div>
+      {issues.length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm">
+          {issues.map((issue) => (
+            <li key={`${String(issue.key)}-${issue.message}`} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
 
-export default ConfigPanel;
\ No newline at end of file
+export default ConfigPanel;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { EnvironmentKind, LqrWeights, PidGains } from '../types';
+import { LqrController } from '../utils/controllers';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface ControllerPanelProps {
+  environment: EnvironmentKind;
+  pidGains: PidGains;
+  lqrWeights: LqrWeights;
+  lqr: LqrController | null;
+  lqrError: string | null;
+  onPidChange: (gains: PidGains) => void;
+  onLqrChange: (weights: LqrWeights) => void;
+}
+
+const PID_FIELDS: { key: keyof PidGains; label: string; max: number; step: number }[] = [
+  { key: 'kp', label: 'Kp (angle)', max: 200, step: 1 },
+  { key: 'ki', label: 'Ki (angle integral)', max: 50, step: 0.5 },
+  { key: 'kd', label: 'Kd (angular velocity)', max: 50, step: 0.5 },
+  { key: 'kpX', label: 'Kp (cart position)', max: 20, step: 0.1 },
+  { key: 'kdX', label: 'Kd (cart velocity)', max: 20, step: 0.1 },
+];
+
+const STATE_LABELS = ['x', 'ẋ', 'θ', 'θ̇'];
+
+// The double pendulum's gain has one entry per state, both poles included
+const DOUBLE_STATE_LABELS = ['x', 'ẋ', 'θ₁', 'θ̇₁', 'θ₂', 'θ̇₂'];
+
+const ControllerPanel: React.FC<ControllerPanelProps> = ({
+  environment,
+  pidGains,
+  lqrWeights,
+  lqr,
+  lqrError,
+  onPidChange,
+  onLqrChange,
+}) => {
+  const double = environment === 'double-cartpole';
+  const gainLabels = double ? DOUBLE_STATE_LABELS : STATE_LABELS;
+
+  const handleQChange = (index: number, value: number) => {
+    const q = [...lqrWeights.q] as LqrWeights['q'];
+    q[index] = value;
+    onLqrChange({ ...lqrWeights, q });
+  };
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <SlidersHorizontal className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Classical Controllers</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* PID */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-gray-700">PID Gains</h3>
+          {double ? (
+            <p className="text-sm text-gray-500">
+              A single PID loop can't hold two poles upright, so it is only offered for the single CartPole. Use LQR
+              for the double pendulum.
+            </p>
+          ) : (
+            <>
+              {PID_FIELDS.map(({ key, label, max, step }) => (
+                <div key={key} className="space-y-1">
+                  <label className="text-xs font-semibold text-gray-500 uppercase">{label}</label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="range"
+                      min="0"
+                      max={max}
+                      step={step}
+                      value={pidGains[key]}
+                      onChange={(e) => onPidChange({ ...pidGains, [key]: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                    <span className="w-12 text-right font-mono text-sm text-gray-700">{pidGains[key].toFixed(1)}</span>
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-gray-400">The PID output is applied as a force, rounded to the nearest level the action space allows.</p>
+            </>
+          )}
+        </div>
+
+        {/* LQR */}
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-gray-700">LQR Cost Weights</h3>
+          <div className="grid grid-cols-5 gap-2">
+            {STATE_LABELS.map((label, i) => (
+              <label key={label} className="flex flex-col text-xs font-semibold text-gray-500 uppercase">
+                Q {label}
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={lqrWeights.q[i]}
+                  onChange={(e) => handleQChange(i, Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="mt-1 px-1 py-0.5 border border-gray-300 rounded font-mono text-sm text-gray-700"
+                />
+              </label>
+            ))}
+            <label className="flex flex-col text-xs font-semibold text-gray-500 uppercase">
+              R
+              <input
+                type="number"
+                min="0.001"
+                step="0.01"
+                value={lqrWeights.r}
+                onChange={(e) => onLqrChange({ ...lqrWeights, r: Math.max(0.001, parseFloat(e.target.value) || 0.001) })}
+                className="mt-1 px-1 py-0.5 border border-gray-300 rounded font-mono text-sm text-gray-700"
+              />
+            </label>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-3 font-mono text-sm text-gray-700">
+            {lqr ? (
+              <>
+                <div className="text-xs text-gray-500 uppercase mb-1">Gain K (u = −K·s), from current parameters</div>
+                <div className="flex flex-wrap gap-x-4">
+                  {lqr.gain.map((k, i) => (
+                    <span key={gainLabels[i]}>
+                      {gainLabels[i]}: {k.toFixed(2)}
+                    </span>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <span className="text-red-600">LQR unavailable: {lqrError}</span>
+            )}
+          </div>
+          <p className="text-xs text-gray-400">
+            Linearised about the upright pole using the simulation's own equations and re-solved whenever the
+            environment parameters change. In the continuous action space u is applied directly; otherwise the nearest
+            available force (the sign of u for bang-bang) is used.
+            {double && ' For the double pendulum the θ weights apply to both poles.'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControllerPanel;
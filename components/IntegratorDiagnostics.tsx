@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { Integrator, SimulationConfig } from '../types';
+import {
+  DiagnosticForcing,
+  INTEGRATOR_LABELS,
+  IntegratorComparison,
+  compareIntegrators,
+} from '../utils/integratorDiagnostics';
+import { downsample } from '../utils/stats';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { FlaskConical, Play } from 'lucide-react';
+
+interface IntegratorDiagnosticsProps {
+  config: SimulationConfig;
+}
+
+const INTEGRATOR_COLORS: Record<Integrator, string> = {
+  euler: '#dc2626',
+  'semi-implicit-euler': '#d97706',
+  rk4: '#4f46e5',
+};
+
+const REFERENCE_COLOR = '#9ca3af';
+
+const MAX_CHART_POINTS = 600;
+
+type Row = Record<string, number>;
+
+const IntegratorDiagnostics: React.FC<IntegratorDiagnosticsProps> = ({ config }) => {
+  const [steps, setSteps] = useState(2000);
+  const [forcing, setForcing] = useState<DiagnosticForcing>('none');
+  const [seed, setSeed] = useState(1);
+  const [result, setResult] = useState<IntegratorComparison | null>(null);
+
+  const handleRun = () => {
+    setResult(compareIntegrators(config, seed, steps, forcing));
+  };
+
+  const rows = useMemo(() => {
+    if (!result) return [];
+    const all: Row[] = result.reference.theta.map((theta, i) => {
+      const row: Row = {
+        step: i,
+        'reference:theta': (theta * 180) / Math.PI,
+        'reference:energy': result.reference.energyDrift[i],
+      };
+      for (const trace of result.traces) {
+        row[`${trace.integrator}:theta`] = (trace.theta[i] * 180) / Math.PI;
+        row[`${trace.integrator}:energy`] = trace.energyDrift[i];
+        row[`${trace.integrator}:divergence`] = trace.divergence[i];
+      }
+      return row;
+    });
+    return downsample(all, MAX_CHART_POINTS);
+  }, [result]);
+
+  const renderChart = (metric: 'theta' | 'energy' | 'divergence', title: string, withReference: boolean) => (
+    <div className="h-64">
+      <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">{title}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+          <XAxis dataKey="step" type="number" domain={['dataMin', 'dataMax']} />
+          <YAxis tickFormatter={(v: number) => v.toPrecision(2)} />
+          <Tooltip labelFormatter={(label) => `Step: ${label}`} formatter={(value: number) => value.toPrecision(4)} />
+          <Legend />
+          {withReference && (
+            <Line
+              dataKey={`reference:${metric}`}
+              name="Reference"
+              stroke={REFERENCE_COLOR}
+              strokeDasharray="4 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+          )}
+          {result?.traces.map((trace) => (
+            <Line
+              key={trace.integrator}
+              dataKey={`${trace.integrator}:${metric}`}
+              name={INTEGRATOR_LABELS[trace.integrator]}
+              stroke={INTEGRATOR_COLORS[trace.integrator]}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200 mt-6">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <FlaskConical className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Integrator Diagnostics</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Runs one seed and action sequence through every integrator at τ = {config.tau.toFixed(3)} s and compares
+        them with an RK4 reference taken at a tenth of the timestep. Termination is ignored. Without forcing or
+        friction the total energy should stay constant, so any change is integration error.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 items-end mb-6">
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Steps</label>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min="100"
+              max="10000"
+              step="100"
+              value={steps}
+              onChange={(e) => setSteps(parseInt(e.target.value, 10))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <span className="w-14 text-right font-mono text-sm text-gray-700">{steps}</span>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Forcing</label>
+          <select
+            value={forcing}
+            onChange={(e) => setForcing(e.target.value as DiagnosticForcing)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="none">None (free swing)</option>
+            <option value="random">Random actions</option>
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Seed</label>
+          <input
+            type="number"
+            min="0"
+            value={seed}
+            onChange={(e) => setSeed(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-sm"
+          />
+        </div>
+
+        <button
+          onClick={handleRun}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+        >
+          <Play size={16} /> Run
+        </button>
+      </div>
+
+      {result && (
+        <>
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase text-left border-b">
+                <th className="py-1">Integrator</th>
+                <th className="py-1 text-right">Final energy change (J)</th>
+                <th className="py-1 text-right">Max divergence</th>
+                <th className="py-1 text-right">µs / step</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-gray-700">
+              {result.traces.map((trace) => (
+                <tr key={trace.integrator} className="border-b border-gray-100">
+                  <td className="py-1 font-sans" style={{ color: INTEGRATOR_COLORS[trace.integrator] }}>
+                    {INTEGRATOR_LABELS[trace.integrator]}
+                  </td>
+                  <td className="py-1 text-right">{trace.energyDrift[trace.energyDrift.length - 1].toExponential(2)}</td>
+                  <td className="py-1 text-right">{Math.max(...trace.divergence).toExponential(2)}</td>
+                  <td className="py-1 text-right">{trace.microsPerStep.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {renderChart('theta', 'Pole Angle (Degrees)', true)}
+            {renderChart('energy', 'Energy Change E − E₀ (J)', true)}
+            {renderChart('divergence', 'Divergence from Reference (state distance)', false)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default IntegratorDiagnostics;
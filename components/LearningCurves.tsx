@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from 'react';
+import { TrainingRun } from '../types';
+import { countTerminations, downsample, rollingStats } from '../utils/stats';
+import {
+  Area,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { TrendingUp, Trash2 } from 'lucide-react';
+
+interface LearningCurvesProps {
+  runs: TrainingRun[];
+  onClear: () => void;
+}
+
+const RUN_COLORS = ['#4f46e5', '#d97706', '#059669', '#dc2626', '#7c3aed', '#0891b2', '#db2777'];
+
+const TERMINATION_COLORS = {
+  pole_fell: '#ef4444',
+  out_of_bounds: '#f59e0b',
+  max_steps: '#10b981',
+};
+
+// Chart rows beyond this are thinned out; a 10k-episode run would otherwise stall Recharts
+const MAX_CHART_POINTS = 600;
+
+type Row = Record<string, number | [number, number]>;
+
+const LearningCurves: React.FC<LearningCurvesProps> = ({ runs, onClear }) => {
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [windowSize, setWindowSize] = useState(20);
+
+  const colorOf = (id: string) => RUN_COLORS[runs.findIndex((r) => r.id === id) % RUN_COLORS.length];
+  const visibleRuns = useMemo(
+    () => runs.filter((r) => !hidden.has(r.id) && r.episodes.length > 0),
+    [runs, hidden]
+  );
+
+  // One row per episode index, with a column group per run so runs overlay on shared axes
+  const rows = useMemo(() => {
+    const byEpisode = new Map<number, Row>();
+    const rowAt = (i: number) => {
+      let row = byEpisode.get(i);
+      if (!row) {
+        row = { episode: i + 1 };
+        byEpisode.set(i, row);
+      }
+      return row;
+    };
+
+    for (const run of visibleRuns) {
+      const steps = rollingStats(run.episodes.map((e) => e.steps), windowSize);
+      const returns = rollingStats(run.episodes.map((e) => e.return), windowSize);
+      run.episodes.forEach((e, i) => {
+        const row = rowAt(i);
+        row[`${run.id}:steps`] = steps[i].mean;
+        row[`${run.id}:stepsBand`] = [steps[i].min, steps[i].max];
+        row[`${run.id}:return`] = returns[i].mean;
+        row[`${run.id}:returnBand`] = [returns[i].min, returns[i].max];
+        if (e.epsilon !== undefined) row[`${run.id}:epsilon`] = e.epsilon;
+        if (e.meanError !== undefined) row[`${run.id}:loss`] = e.meanError;
+      });
+    }
+    const sorted = [...byEpisode.entries()].sort((a, b) => a[0] - b[0]).map(([, row]) => row);
+    return downsample(sorted, MAX_CHART_POINTS);
+  }, [visibleRuns, windowSize]);
+
+  const terminationData = visibleRuns.map((run) => {
+    const counts = countTerminations(run.episodes);
+    const total = run.episodes.length;
+    return {
+      label: run.label,
+      pole_fell: (100 * counts.pole_fell) / total,
+      out_of_bounds: (100 * counts.out_of_bounds) / total,
+      max_steps: (100 * counts.max_steps) / total,
+    };
+  });
+
+  const agentRuns = visibleRuns.filter((r) => r.episodes.some((e) => e.epsilon !== undefined));
+
+  const toggleRun = (id: string) => {
+    const next = new Set(hidden);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setHidden(next);
+  };
+
+  if (runs.length === 0) return null;
+
+  const renderCurve = (metric: 'steps' | 'return', title: string) => (
+    <div className="h-64">
+      <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">{title}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+          <XAxis dataKey="episode" type="number" domain={['dataMin', 'dataMax']} />
+          <YAxis />
+          <Tooltip
+            labelFormatter={(label) => `Episode: ${label}`}
+            formatter={(value: number | number[]) =>
+              Array.isArray(value) ? `${value[0].toFixed(0)} – ${value[1].toFixed(0)}` : value.toFixed(1)
+            }
+          />
+          {visibleRuns.map((run) => (
+            <Area
+              key={`${run.id}-band`}
+              dataKey={`${run.id}:${metric}Band`}
+              name={`${run.label} min/max`}
+              stroke="none"
+              fill={colorOf(run.id)}
+              fillOpacity={0.12}
+              isAnimationActive={false}
+            />
+          ))}
+          {visibleRuns.map((run) => (
+            <Line
+              key={run.id}
+              dataKey={`${run.id}:${metric}`}
+              name={`${run.label} (avg ${windowSize})`}
+              stroke={colorOf(run.id)}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  const renderAgentMetric = (metric: 'epsilon' | 'loss', title: string) => (
+    <div className="h-64">
+      <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">{title}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+          <XAxis dataKey="episode" type="number" domain={['dataMin', 'dataMax']} />
+          <YAxis />
+          <Tooltip labelFormatter={(label) => `Episode: ${label}`} formatter={(value: number) => value.toFixed(4)} />
+          {agentRuns.map((run) => (
+            <Line
+              key={run.id}
+              dataKey={`${run.id}:${metric}`}
+              name={run.label}
+              stroke={colorOf(run.id)}
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200 mt-6">
+      <div className="flex items-center justify-between mb-6 border-b pb-2">
+        <div className="flex items-center gap-2">
+          <TrendingUp className="text-indigo-600" />
+          <h2 className="text-lg font-bold text-gray-800">Learning Curves</h2>
+        </div>
+        <button
+          onClick={onClear}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+        >
+          <Trash2 size={14} /> Clear Runs
+        </button>
+      </div>
+
+      {/* Run selection */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {runs.map((run) => (
+          <button
+            key={run.id}
+            onClick={() => toggleRun(run.id)}
+            className={`flex items-center gap-2 px-3 py-1 rounded-full border text-sm transition-opacity ${hidden.has(run.id) ? 'opacity-40' : ''}`}
+          >
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: colorOf(run.id) }} />
+            {run.label}
+            <span className="text-gray-400 font-mono">{run.episodes.length}</span>
+          </button>
+        ))}
+        <label className="flex items-center gap-2 ml-auto text-xs font-semibold text-gray-500 uppercase">
+          Moving Avg
+          <input
+            type="range"
+            min="1"
+            max="200"
+            value={windowSize}
+            onChange={(e) => setWindowSize(parseInt(e.target.value, 10))}
+            className="w-32 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+          <span className="w-8 text-right font-mono text-sm text-gray-700">{windowSize}</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {renderCurve('steps', 'Episode Length (Steps)')}
+        {renderCurve('return', 'Episode Return')}
+
+        {/* Termination Reasons */}
+        <div className="h-64">
+          <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">Termination Reason (% of Episodes)</h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={terminationData} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+              <XAxis type="number" domain={[0, 100]} />
+              <YAxis type="category" dataKey="label" width={110} />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+              <Legend />
+              <Bar dataKey="pole_fell" name="Pole fell" stackId="t" fill={TERMINATION_COLORS.pole_fell} isAnimationActive={false} />
+              <Bar dataKey="out_of_bounds" name="Out of bounds" stackId="t" fill={TERMINATION_COLORS.out_of_bounds} isAnimationActive={false} />
+              <Bar dataKey="max_steps" name="Max steps" stackId="t" fill={TERMINATION_COLORS.max_steps} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        {agentRuns.length > 0 && renderAgentMetric('epsilon', 'Exploration (ε)')}
+        {agentRuns.length > 0 && renderAgentMetric('loss', 'Mean Loss / |TD Error|')}
+      </div>
+      <p className="text-xs text-gray-400 text-center mt-4">
+        Lines show a moving average; shaded bands span the min and max over the same window.
+      </p>
+    </div>
+  );
+};
+
+export default LearningCurves;
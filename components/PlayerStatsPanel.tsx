@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  EnvironmentConfig,
+  EnvironmentKind,
+  EnvironmentState,
+  EpisodeRecording,
+  PlayerStats,
+  SimulationState,
+} from '../types';
+import { averageSurvival, clearPlayerStats, listPlayerStats, playerStatsKey, SESSION_STARTED_AT } from '../utils/playerStats';
+import { ConfigSpec, findPresetName } from '../utils/configSchema';
+import { CARTPOLE, DOUBLE_CARTPOLE, ENVIRONMENT_OPTIONS } from '../utils/environments';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Film, Play, Trash2, Trophy } from 'lucide-react';
+
+interface PlayerStatsPanelProps {
+  environment: EnvironmentKind;
+  config: EnvironmentConfig; // current config; its entry is shown first
+  revision: number; // bumped whenever an attempt is recorded, to reload the stored stats
+  onReplay: (recording: EpisodeRecording<EnvironmentConfig, EnvironmentState>) => void;
+  onUseConfig: (environment: EnvironmentKind, config: EnvironmentConfig) => void;
+}
+
+const OUTCOMES: { code: SimulationState['terminatedCode']; label: string; color: string }[] = [
+  { code: 'pole_fell', label: 'Pole fell', color: '#ef4444' },
+  { code: 'out_of_bounds', label: 'Out of bounds', color: '#f59e0b' },
+  { code: 'max_steps', label: 'Max steps', color: '#10b981' },
+];
+
+const outcomeLabel = (code: SimulationState['terminatedCode']) => OUTCOMES.find((o) => o.code === code)?.label ?? code;
+
+// Preset name, or the fields that differ from the defaults
+const describeWith = <C extends EnvironmentConfig>(spec: ConfigSpec<C>, config: C): string => {
+  const preset = findPresetName(config, spec);
+  if (preset) return preset;
+  const changed = spec.schema.filter((f) => config[f.key] !== spec.defaults[f.key]);
+  if (changed.length === 0) return 'Defaults';
+  const shown = changed.slice(0, 3).map((f) => {
+    const value = config[f.key];
+    if (f.kind === 'choice') return `${f.label} ${f.options.find((o) => o.value === value)?.label ?? String(value)}`;
+    return `${f.label} ${value}${f.unit ? ` ${f.unit}` : ''}`;
+  });
+  return changed.length > 3 ? `${shown.join(', ')} (+${changed.length - 3} more)` : shown.join(', ');
+};
+
+const describeConfig = (stats: PlayerStats): string => {
+  const environmentLabel = ENVIRONMENT_OPTIONS.find((o) => o.kind === stats.environment)?.label ?? stats.environment;
+  // Fields added since the entry was stored take their defaults, as when loading a file
+  const description =
+    stats.environment === 'double-cartpole'
+      ? describeWith(DOUBLE_CARTPOLE.config, { ...DOUBLE_CARTPOLE.config.defaults, ...stats.config })
+      : describeWith(CARTPOLE.config, { ...CARTPOLE.config.defaults, ...stats.config });
+  return `${environmentLabel} · ${description}`;
+};
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+const PlayerStatsPanel: React.FC<PlayerStatsPanelProps> = ({ environment, config, revision, onReplay, onUseConfig }) => {
+  const [stored, setStored] = useState<PlayerStats[]>(() => listPlayerStats());
+  const currentKey = playerStatsKey(environment, config);
+  const [selectedKey, setSelectedKey] = useState(currentKey);
+
+  useEffect(() => {
+    setStored(listPlayerStats());
+  }, [revision]);
+
+  // Follow the simulation to whatever config it is on now
+  useEffect(() => {
+    setSelectedKey(currentKey);
+  }, [currentKey]);
+
+  const selected: PlayerStats | null = stored.find((s) => s.key === selectedKey) ?? null;
+
+  const progress = useMemo(() => {
+    if (!selected) return [];
+    let best = 0;
+    return selected.history.map((attempt, i) => {
+      best = Math.max(best, attempt.steps);
+      return { attempt: selected.attempts - selected.history.length + i + 1, steps: attempt.steps, best };
+    });
+  }, [selected]);
+
+  const sessionStart = progress.find((_, i) => selected !== null && selected.history[i].at >= SESSION_STARTED_AT);
+
+  // Entries played this session, with how the session compares to the attempts before it
+  const session = useMemo(
+    () =>
+      stored
+        .map((stats) => {
+          const now = stats.history.filter((a) => a.at >= SESSION_STARTED_AT).map((a) => a.steps);
+          const before = stats.history.filter((a) => a.at < SESSION_STARTED_AT).map((a) => a.steps);
+          return {
+            stats,
+            attempts: now.length,
+            best: Math.max(0, ...now),
+            mean: mean(now),
+            meanBefore: before.length > 0 ? mean(before) : null,
+          };
+        })
+        .filter((row) => row.attempts > 0),
+    [stored]
+  );
+
+  const handleClear = () => {
+    if (!selected || !window.confirm(`Clear all stats for "${describeConfig(selected)}"?`)) return;
+    clearPlayerStats(selected.key);
+    setStored(listPlayerStats());
+  };
+
+  const terminationData = selected
+    ? OUTCOMES.map((o) => ({ label: o.label, color: o.color, count: selected.terminations[o.code] ?? 0 }))
+    : [];
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <Trophy className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Your Stats</h2>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div className="flex-1 min-w-64 space-y-1">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Configuration</label>
+          <select
+            value={selectedKey}
+            onChange={(e) => setSelectedKey(e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            {!stored.some((s) => s.key === currentKey) && <option value={currentKey}>Current configuration (no attempts yet)</option>}
+            {stored.map((s) => (
+              <option key={s.key} value={s.key}>
+                {s.key === currentKey ? 'Current: ' : ''}
+                {describeConfig(s)} — {s.attempts} attempt{s.attempts === 1 ? '' : 's'}
+              </option>
+            ))}
+          </select>
+        </div>
+        {selected && selected.key !== currentKey && (
+          <button
+            onClick={() => onUseConfig(selected.environment, selected.config)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+          >
+            <Play size={16} /> Play This Config
+          </button>
+        )}
+        {selected && (
+          <button
+            onClick={handleClear}
+            title="Forget every attempt at this configuration"
+            className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-red-100 hover:text-red-700 transition-colors"
+          >
+            <Trash2 size={16} /> Clear
+          </button>
+        )}
+      </div>
+
+      {!selected ? (
+        <p className="text-sm text-gray-500 mb-6">
+          Play an episode yourself to start recording stats. Each configuration keeps its own best score, so changing
+          the physics starts a fresh record; the stats stay in this browser.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'Best', value: selected.bestScore.toString() },
+              { label: 'Attempts', value: selected.attempts.toString() },
+              { label: 'Avg Survival', value: `${averageSurvival(selected).toFixed(1)} steps` },
+              {
+                label: 'Avg Time',
+                value: `${(averageSurvival(selected) * selected.config.tau).toFixed(2)} s`,
+              },
+            ].map((tile) => (
+              <div key={tile.label} className="p-3 rounded-lg bg-gray-50 border border-gray-100">
+                <div className="text-xs font-semibold text-gray-500 uppercase">{tile.label}</div>
+                <div className="font-mono font-bold text-lg text-gray-800">{tile.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-6">
+            <div className="h-64">
+              <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">Progress (Steps per Attempt)</h3>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={progress}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+                  <XAxis dataKey="attempt" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  {sessionStart && (
+                    <ReferenceLine x={sessionStart.attempt} stroke="#9ca3af" strokeDasharray="4 4" label="This session" />
+                  )}
+                  <Line type="monotone" dataKey="steps" name="Steps" stroke="#4f46e5" dot={false} isAnimationActive={false} />
+                  <Line type="stepAfter" dataKey="best" name="Best so far" stroke="#d97706" dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="h-64">
+              <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">Termination Reason (Attempts)</h3>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={terminationData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="label" width={110} />
+                  <Tooltip />
+                  <Bar dataKey="count" name="Attempts" isAnimationActive={false}>
+                    {terminationData.map((d) => (
+                      <Cell key={d.label} fill={d.color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">Recent Attempts</h3>
+          {selected.recordings.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-6">No recordings kept for this configuration.</p>
+          ) : (
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase text-left border-b">
+                  <th className="py-1">Played</th>
+                  <th className="py-1 text-right">Steps</th>
+                  <th className="py-1">Outcome</th>
+                  <th className="py-1 text-right">Seed</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody className="text-gray-700">
+                {[...selected.recordings].reverse().map((recording) => {
+                  const last = recording.steps[recording.steps.length - 1]?.state ?? recording.initialState;
+                  const otherEnvironment = selected.environment !== environment;
+                  return (
+                    <tr key={recording.recordedAt} className="border-b border-gray-100">
+                      <td className="py-1 text-xs text-gray-500">{new Date(recording.recordedAt).toLocaleString()}</td>
+                      <td className="py-1 text-right font-mono">{last.steps}</td>
+                      <td className="py-1 pl-4">{outcomeLabel(last.terminatedCode)}</td>
+                      <td className="py-1 text-right font-mono">{recording.seed}</td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => onReplay(recording)}
+                          disabled={otherEnvironment}
+                          title={otherEnvironment ? 'Switch to its environment to replay it' : 'Replay in the simulation'}
+                          className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+                        >
+                          <Film size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">This Session</h3>
+      {session.length === 0 ? (
+        <p className="text-sm text-gray-500">No attempts since the page was loaded.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase text-left border-b">
+              <th className="py-1">Configuration</th>
+              <th className="py-1 text-right">Attempts</th>
+              <th className="py-1 text-right">Best</th>
+              <th className="py-1 text-right">Mean</th>
+              <th className="py-1 text-right">Mean Before</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-gray-700">
+            {session.map((row) => (
+              <tr
+                key={row.stats.key}
+                onClick={() => setSelectedKey(row.stats.key)}
+                className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${row.stats.key === selectedKey ? 'bg-indigo-50' : ''}`}
+              >
+                <td className="py-1 font-sans">{describeConfig(row.stats)}</td>
+                <td className="py-1 text-right">{row.attempts}</td>
+                <td className="py-1 text-right">{row.best}</td>
+                <td
+                  className={`py-1 text-right ${
+                    row.meanBefore === null ? '' : row.mean >= row.meanBefore ? 'text-green-700' : 'text-red-600'
+                  }`}
+                >
+                  {row.mean.toFixed(1)}
+                </td>
+                <td className="py-1 text-right text-gray-500">{row.meanBefore === null ? '–' : row.meanBefore.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="text-xs text-gray-400 mt-4">
+        Only your own episodes count; agent and controller runs are left out. Each configuration keeps its most
+        recent attempts for replay. Mean is green when it beats the mean of the attempts before this session.
+      </p>
+    </div>
+  );
+};
+
+export default PlayerStatsPanel;
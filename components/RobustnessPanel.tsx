@@ -0,0 +1,325 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Policy, RobustnessAxis, RobustnessSettings, SimulationConfig } from '../types';
+import { DEFAULT_ROBUSTNESS_SETTINGS } from '../constants';
+import { SliderField } from './AgentPanel';
+import { NUMERIC_CONFIG_FIELDS, isWithinFieldLimits } from '../utils/configSchema';
+import { RobustnessCell, cellCentres, cellOf, evaluatePoint, poolCell, robustnessPoints } from '../utils/robustness';
+import { randomSeed } from '../utils/random';
+import { Grid3x3, Play, Square } from 'lucide-react';
+
+interface RobustnessPanelProps {
+  config: SimulationConfig; // nominal config; everything but the two axes is held at it
+  policies: Policy[]; // controllers that can be evaluated; stateful ones are reset every episode
+}
+
+// Milliseconds of evaluation per slice before the page gets to repaint
+const SLICE_MS = 50;
+
+// Failure red through amber to success green
+const LOW_RGB = [239, 68, 68];
+const MID_RGB = [245, 158, 11];
+const HIGH_RGB = [16, 185, 129];
+
+const mix = (from: number[], to: number[], t: number) =>
+  `rgb(${from.map((c, i) => Math.round(c + (to[i] - c) * t)).join(',')})`;
+
+const scoreColor = (t: number) => (t < 0.5 ? mix(LOW_RGB, MID_RGB, t * 2) : mix(MID_RGB, HIGH_RGB, (t - 0.5) * 2));
+
+const fieldOf = (key: RobustnessAxis['key']) => NUMERIC_CONFIG_FIELDS.find((f) => f.key === key);
+
+const formatAxisValue = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : value.toPrecision(2));
+
+// Results of the last evaluation, with the settings that produced them
+interface Evaluation {
+  policyName: string;
+  settings: RobustnessSettings;
+  maxSteps: number;
+  cells: (RobustnessCell | undefined)[]; // row-major, row 0 at the low end of the y axis
+  done: number;
+  total: number;
+}
+
+const RobustnessPanel: React.FC<RobustnessPanelProps> = ({ config, policies }) => {
+  const [settings, setSettings] = useState<RobustnessSettings>(DEFAULT_ROBUSTNESS_SETTINGS);
+  const [policyName, setPolicyName] = useState<string | null>(null);
+  const [metric, setMetric] = useState<'success' | 'steps'>('success');
+  const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
+  const [running, setRunning] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  const policy = policies.find((p) => p.name === policyName) ?? policies[0];
+
+  const updateSetting = <K extends keyof RobustnessSettings>(key: K, value: RobustnessSettings[K]) => {
+    setSettings({ ...settings, [key]: value });
+  };
+
+  // A new axis field starts on the range the config panel allows; picking the other axis's field swaps them
+  const handleAxisField = (axis: 'x' | 'y', key: RobustnessAxis['key']) => {
+    const field = fieldOf(key);
+    const next: RobustnessAxis = { key, min: field?.min ?? 0, max: field?.max ?? 1 };
+    const other = axis === 'x' ? settings.y : settings.x;
+    if (other.key === key) setSettings({ ...settings, x: settings.y, y: settings.x });
+    else setSettings({ ...settings, [axis]: next });
+  };
+
+  const updateAxis = (axis: 'x' | 'y', changes: Partial<RobustnessAxis>) => {
+    setSettings({ ...settings, [axis]: { ...settings[axis], ...changes } });
+  };
+
+  const handleRun = () => {
+    if (!policy) return;
+    const run = settings;
+    const seed = randomSeed();
+    const points = robustnessPoints(run, seed);
+    const cells: (RobustnessCell | undefined)[] = new Array(run.resolution * run.resolution).fill(undefined);
+    let done = 0;
+    setRunning(true);
+
+    // Evaluated a slice at a time on the main thread, since controllers cannot be sent to a worker
+    const slice = () => {
+      const start = performance.now();
+      while (done < points.length && performance.now() - start < SLICE_MS) {
+        const point = points[done];
+        const index = point.row * run.resolution + point.column;
+        cells[index] = poolCell(cells[index], evaluatePoint(policy, config, run, point, seed + 1));
+        done++;
+      }
+      setEvaluation({ policyName: policy.name, settings: run, maxSteps: config.maxSteps, cells: [...cells], done, total: points.length });
+      if (done < points.length) timerRef.current = setTimeout(slice, 0);
+      else setRunning(false);
+    };
+    timerRef.current = setTimeout(slice, 0);
+  };
+
+  const handleStop = () => {
+    clearTimeout(timerRef.current);
+    setRunning(false);
+  };
+
+  // Both bounds within the field's limits: outside them the physics breaks down and every cell looks perfect
+  const axisValid = (a: RobustnessAxis) => isWithinFieldLimits(a.key, a.min) && isWithinFieldLimits(a.key, a.max) && a.min < a.max;
+  const valid = axisValid(settings.x) && axisValid(settings.y);
+
+  const renderAxisControls = (axis: 'x' | 'y') => {
+    const current = settings[axis];
+    return (
+      <div className="space-y-1">
+        <label className="text-xs font-semibold text-gray-500 uppercase">{axis === 'x' ? 'Horizontal' : 'Vertical'}</label>
+        <select
+          value={current.key}
+          disabled={running}
+          onChange={(e) => handleAxisField(axis, e.target.value as RobustnessAxis['key'])}
+          className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+        >
+          {NUMERIC_CONFIG_FIELDS.map((f) => (
+            <option key={f.key} value={f.key}>
+              {f.label} ({f.unit})
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="number"
+            value={current.min}
+            step={fieldOf(current.key)?.step}
+            disabled={running}
+            onChange={(e) => updateAxis(axis, { min: parseFloat(e.target.value) })}
+            className={`w-full px-2 py-0.5 border rounded font-mono text-sm disabled:opacity-50 ${isWithinFieldLimits(current.key, current.min) ? 'border-gray-300' : 'border-red-400'}`}
+          />
+          <span className="text-gray-400">to</span>
+          <input
+            type="number"
+            value={current.max}
+            step={fieldOf(current.key)?.step}
+            disabled={running}
+            onChange={(e) => updateAxis(axis, { max: parseFloat(e.target.value) })}
+            className={`w-full px-2 py-0.5 border rounded font-mono text-sm disabled:opacity-50 ${axisValid(current) ? 'border-gray-300' : 'border-red-400'}`}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderHeatmap = (result: Evaluation) => {
+    const { settings: shown, cells } = result;
+    const xs = cellCentres(shown.x, shown.resolution);
+    const ys = cellCentres(shown.y, shown.resolution);
+    const xField = fieldOf(shown.x.key);
+    const yField = fieldOf(shown.y.key);
+    // The cell holding the nominal config, if it lies inside the map
+    const nominalCell = (axis: RobustnessAxis) => {
+      const value = config[axis.key];
+      return value < axis.min || value > axis.max ? -1 : cellOf(value, axis, shown.resolution);
+    };
+    const nominalColumn = nominalCell(shown.x);
+    const nominalRow = nominalCell(shown.y);
+    const score = (cell: RobustnessCell) =>
+      metric === 'success' ? cell.successes / cell.episodes : cell.totalSteps / cell.episodes / result.maxSteps;
+
+    return (
+      <div className="flex flex-col items-center">
+        <div className="flex items-stretch gap-2">
+          <div className="flex items-center">
+            <span className="text-xs text-gray-500" style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}>
+              {yField?.label} ({yField?.unit})
+            </span>
+          </div>
+          <div>
+            {/* Rows from the top of the y range down */}
+            {[...ys.keys()].reverse().map((row) => (
+              <div key={row} className="flex items-center">
+                <span className="w-12 pr-2 text-right text-xs font-mono text-gray-500">{formatAxisValue(ys[row])}</span>
+                {xs.map((x, column) => {
+                  const cell = cells[row * shown.resolution + column];
+                  const nominal = row === nominalRow && column === nominalColumn;
+                  return (
+                    <div
+                      key={column}
+                      title={
+                        cell
+                          ? `${xField?.label} ${formatAxisValue(x)}, ${yField?.label} ${formatAxisValue(ys[row])}: ${cell.successes}/${cell.episodes} lasted ${result.maxSteps} steps, mean ${(cell.totalSteps / cell.episodes).toFixed(0)} steps`
+                          : 'Not evaluated'
+                      }
+                      className={`w-10 h-10 flex items-center justify-center text-[10px] font-mono text-white ${nominal ? 'ring-2 ring-inset ring-indigo-900' : ''}`}
+                      style={{ background: cell ? scoreColor(score(cell)) : '#f3f4f6' }}
+                    >
+                      {cell && (metric === 'success' ? `${Math.round(100 * score(cell))}` : (cell.totalSteps / cell.episodes).toFixed(0))}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+            <div className="flex">
+              <span className="w-12" />
+              {xs.map((x, column) => (
+                <span key={column} className="w-10 text-center text-xs font-mono text-gray-500">
+                  {formatAxisValue(x)}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 text-center mt-1">
+              {xField?.label} ({xField?.unit})
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-gray-500 mt-3">
+          <span>{metric === 'success' ? '0%' : '0 steps'}</span>
+          <div
+            className="h-2 w-32 rounded"
+            style={{ background: `linear-gradient(to right, ${scoreColor(0)}, ${scoreColor(0.5)}, ${scoreColor(1)})` }}
+          />
+          <span>{metric === 'success' ? '100%' : `${result.maxSteps} steps`}</span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200 mt-6">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <Grid3x3 className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Robustness Map</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Plays a controller, unchanged, across a range of two config fields while every other field stays at the current
+        config, to show how far from its nominal physics it keeps working. A controller or agent tuned at one pole length
+        may fail at another; an agent trained with domain randomisation should hold up over the range it saw.
+      </p>
+
+      {policy ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-gray-500 uppercase">Controller</label>
+              <select
+                value={policy.name}
+                disabled={running}
+                onChange={(e) => setPolicyName(e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+              >
+                {policies.map((p) => (
+                  <option key={p.name} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {renderAxisControls('x')}
+            {renderAxisControls('y')}
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-gray-500 uppercase">Sampling</label>
+              <select
+                value={settings.mode}
+                disabled={running}
+                onChange={(e) => updateSetting('mode', e.target.value as RobustnessSettings['mode'])}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+              >
+                <option value="grid">Grid (every cell centre)</option>
+                <option value="random">Random points, pooled per cell</option>
+              </select>
+            </div>
+            <SliderField label="Cells per Axis" value={settings.resolution} min={2} max={15} step={1}
+              disabled={running} onChange={(v) => updateSetting('resolution', v)} />
+            {settings.mode === 'random' && (
+              <SliderField label="Random Points" value={settings.samples} min={20} max={1000} step={20}
+                disabled={running} onChange={(v) => updateSetting('samples', v)} />
+            )}
+            <SliderField label="Episodes per Point" value={settings.episodes} min={1} max={20} step={1}
+              disabled={running} onChange={(v) => updateSetting('episodes', v)} />
+          </div>
+
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3 text-sm text-gray-500">
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as 'success' | 'steps')}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value="success">Success rate (%)</option>
+                <option value="steps">Mean steps</option>
+              </select>
+              <span className="font-mono">
+                {evaluation
+                  ? `${evaluation.policyName} · ${evaluation.done}/${evaluation.total} points`
+                  : `Success means lasting all ${config.maxSteps} steps.`}
+              </span>
+            </div>
+            {running ? (
+              <button
+                onClick={handleStop}
+                className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+              >
+                <Square size={16} /> Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={!valid}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                <Play size={16} /> Evaluate
+              </button>
+            )}
+          </div>
+
+          {evaluation && (
+            <>
+              {renderHeatmap(evaluation)}
+              <p className="text-xs text-gray-400 text-center mt-4">
+                Each cell is coloured by how the controller did at that combination, over the same seeds everywhere. The
+                outlined cell holds the current config. Hover a cell for its numbers.
+              </p>
+            </>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">No controller is available to evaluate.</p>
+      )}
+    </div>
+  );
+};
+
+export default RobustnessPanel;
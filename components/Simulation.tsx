@@ -1,68 +1,263 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Action, SimulationConfig, SimulationState, StepHistory } from '../types';
-import { updatePhysics, getInitialState } from '../utils/physics';
-import { SCALE_METERS_TO_PIXELS, CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
-import { Play, RotateCcw, Pause, Trophy, MoveHorizontal } from 'lucide-react';
-
-interface SimulationProps {
-  config: SimulationConfig;
-  onHistoryUpdate: (history: StepHistory[]) => void;
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import {
+  Action,
+  EnvAction,
+  EnvironmentConfig,
+  EnvironmentState,
+  EpisodeRecording,
+  EpisodeStats,
+  EpisodeTrace,
+  PlayerStats,
+  Policy,
+  SimulationConfig,
+  SimulationState,
+  StepHistory,
+  StepInfo,
+} from '../types';
+import { CARTPOLE, EnvironmentSpec } from '../utils/environments';
+import { getPlayerStats, recordAttempt } from '../utils/playerStats';
+import { randomSeed } from '../utils/random';
+import {
+  createRecording,
+  parseRecording,
+  recordingFileName,
+  recordingForce,
+  recordingFrame,
+  recordingOverlay,
+  recordingToHistory,
+  serializeRecording,
+} from '../utils/episodeFile';
+import { downloadText } from '../utils/download';
+import { BRIDGE_DEFAULT_URL, RenderFrame } from '../utils/bridge';
+import { BridgeStatus, connectBridgeViewer } from '../utils/bridgeClient';
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  DEFAULT_PLAYBACK_SPEED,
+  PLAYBACK_SPEEDS,
+} from '../constants';
+import {
+  Play,
+  RotateCcw,
+  Pause,
+  Trophy,
+  MoveHorizontal,
+  Dices,
+  Bot,
+  Gamepad2,
+  StepForward,
+  StepBack,
+  Film,
+  Save,
+  FolderOpen,
+  AlertTriangle,
+  X,
+  Plug,
+} from 'lucide-react';
+
+// Time for a held arrow key to ramp the continuous force from zero to forceMag
+const CONTINUOUS_RAMP_MS = 400;
+// Longest frame gap fed to the accumulator (e.g. after a background tab); avoids a burst of catch-up steps
+const MAX_FRAME_SECONDS = 0.25;
+// Upper bound on physics steps per animation frame at high playback speeds
+const MAX_STEPS_PER_FRAME = 500;
+
+const describeForce = (force: number, config: EnvironmentConfig): string => {
+  if (config.actionSpace === 'continuous') return `FORCE ${force >= 0 ? '+' : ''}${force.toFixed(1)} N`;
+  if (force === 0) return config.actionSpace === 'discrete-3' ? 'COAST' : '—';
+  return force < 0 ? 'PUSH LEFT' : 'PUSH RIGHT';
+};
+
+interface SimulationProps<C extends EnvironmentConfig, S extends EnvironmentState> {
+  environment: EnvironmentSpec<C, S>; // which system to simulate; fixed for the component's lifetime
+  config: C;
+  controllers: Policy[]; // automatic controllers that can take over from the human (agent, PID, LQR...)
+  onHistoryUpdate: (trace: Omit<EpisodeTrace, 'id'>) => void;
+  // controller is 'Human' or the agent's name; the parent numbers episodes per controller
+  onEpisodeComplete: (controller: string, stats: Omit<EpisodeStats, 'episode'>) => void;
+  // A human episode finished and was added to the stored stats
+  onAttemptRecorded?: (stats: PlayerStats, recording: EpisodeRecording<C, S>) => void;
+  // A recording to show in replay mode; a new id replays it even if it is the same recording as before
+  replayRequest?: { id: number; recording: EpisodeRecording<C, S> } | null;
 }
 
-const Simulation: React.FC<SimulationProps> = ({ config, onHistoryUpdate }) => {
+const Simulation = <C extends EnvironmentConfig, S extends EnvironmentState>({
+  environment,
+  config,
+  controllers,
+  onHistoryUpdate,
+  onEpisodeComplete,
+  onAttemptRecorded,
+  replayRequest,
+}: SimulationProps<C, S>) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
   
-  // Physics state held in ref for performance (avoiding React render cycle for 60fps logic)
-  const physicsStateRef = useRef<SimulationState>(getInitialState());
+  // Seed every episode starts from; same seed + config => same initial state
+  const [seed, setSeed] = useState(() => randomSeed());
+
+  // Environment instance is stable across renders; its state lives outside React
+  // (avoiding React render cycle for 60fps logic)
+  const [env] = useState(() => environment.create(config, seed));
   const historyRef = useRef<StepHistory[]>([]);
+  const returnRef = useRef(0);
   
-  // Current Action (Persistent because the cart *always* moves)
+  // Current Action (Persistent in the bang-bang space because the cart *always* moves)
   // Defaulting to RIGHT (1) initially
-  const currentActionRef = useRef<Action>(Action.RIGHT);
+  const currentActionRef = useRef<EnvAction>(Action.RIGHT);
+  // When each arrow key went down (null = released); drives the coast / proportional modes
+  const heldSinceRef = useRef<{ left: number | null; right: number | null }>({ left: null, right: null });
+  // Force applied on the latest step, for the HUD and the force arrow
+  const appliedForceRef = useRef(0);
+
+  // Fixed-timestep loop: real time since the last frame (scaled by playback speed)
+  // accumulates and is consumed in whole `tau` steps. The leftover fraction of a
+  // step interpolates the drawing between the previous and the current state.
+  const [speed, setSpeed] = useState(DEFAULT_PLAYBACK_SPEED);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+  const lastFrameRef = useRef<number | null>(null);
+  const accumulatorRef = useRef(0);
+  const previousStateRef = useRef<S>(env.getState());
+
+  // Full record of the episode in progress, and the last one that finished or was reset away
+  const recordingRef = useRef<EpisodeRecording<C, S>>(
+    createRecording(environment.kind, 'Human', config, seed, env.getState())
+  );
+  const [lastRecording, setLastRecording] = useState<EpisodeRecording<C, S> | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  // Replay mode: a recording is shown frame by frame instead of the live environment
+  const [replay, setReplay] = useState<EpisodeRecording<C, S> | null>(null);
+  const [replayFrame, setReplayFrame] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  // Read by draw(), which may run from callbacks created before replay started
+  const replayViewRef = useRef({ recording: replay, frame: replayFrame });
+  replayViewRef.current = { recording: replay, frame: replayFrame };
+
+  // External mode: an agent outside the browser drives the bridge server's CartPole and this only draws it
+  const [external, setExternal] = useState(false);
+  const [bridgeUrl, setBridgeUrl] = useState(BRIDGE_DEFAULT_URL);
+  // Bumped to connect again after the connection closed
+  const [bridgeAttempt, setBridgeAttempt] = useState(0);
+  const [bridgeStatus, setBridgeStatus] = useState<{ status: BridgeStatus; error?: string }>({ status: 'closed' });
+  // Latest frame; the ref is for draw(), the state (updated at most once per animation frame) for the HUD
+  const externalFrameRef = useRef<RenderFrame | null>(null);
+  const [externalFrame, setExternalFrame] = useState<RenderFrame | null>(null);
   
   // UI State
+  // Name of the controller driving the cart; null means the human is playing
+  const [controllerName, setControllerName] = useState<string | null>(null);
+  const controller = controllers.find((c) => c.name === controllerName) ?? null;
+  const controllerRef = useRef<Policy | null>(controller);
+  controllerRef.current = controller;
   const [isRunning, setIsRunning] = useState(false);
   const [score, setScore] = useState(0);
-  const [highScore, setHighScore] = useState(0);
+  // The human's best under the current config, from the stored stats
+  const [highScore, setHighScore] = useState(() => getPlayerStats(environment.kind, config)?.bestScore ?? 0);
   const [terminationMsg, setTerminationMsg] = useState<string | null>(null);
 
+  // Puts the environment back at the seed's initial state and starts a new recording.
+  // An episode abandoned part-way is kept as the last recording so it can still be saved.
+  const beginEpisode = () => {
+    const abandoned = recordingRef.current;
+    if (abandoned.steps.length > 0 && !abandoned.steps[abandoned.steps.length - 1].state.done) {
+      setLastRecording(abandoned);
+    }
+    const initialState = env.reset(seed).info.state;
+    previousStateRef.current = initialState;
+    recordingRef.current = createRecording(
+      environment.kind,
+      controllerRef.current?.name ?? 'Human',
+      env.getConfig(),
+      seed,
+      initialState
+    );
+    controllerRef.current?.reset?.();
+    historyRef.current = [];
+    returnRef.current = 0;
+    appliedForceRef.current = 0;
+    setScore(0);
+    setTerminationMsg(null);
+  };
+
   // Start Game
   const handleStart = useCallback(() => {
-    if (physicsStateRef.current.done) {
-      physicsStateRef.current = getInitialState();
-      historyRef.current = [];
-      setScore(0);
-      setTerminationMsg(null);
-    }
+    if (env.getState().done) beginEpisode();
     setIsRunning(true);
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [env, seed]);
 
   // Reset Game
   const handleReset = useCallback(() => {
-    physicsStateRef.current = getInitialState();
-    historyRef.current = [];
-    setScore(0);
-    setTerminationMsg(null);
+    beginEpisode();
     setIsRunning(false);
     
     // Initial Draw
     setTimeout(draw, 0);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [config]); // Re-draw if config changes
+  }, [config, seed]); // Re-draw if config changes
 
   const handlePause = () => {
     setIsRunning(false);
   };
 
+  // Changing the seed starts over from that seed's initial state
+  useEffect(() => {
+    handleReset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seed]);
+
+  const handleSeedInput = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      setSeed(parsed);
+    }
+  };
+
+  // Fall back to human control if the selected controller goes away (e.g. agent retraining)
+  useEffect(() => {
+    if (controllerName !== null && !controller) {
+      setControllerName(null);
+      handleReset();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [controller]);
+
+  const handleModeChange = (name: string | null) => {
+    setControllerName(name);
+    controllerRef.current = controllers.find((c) => c.name === name) ?? null;
+    handleReset();
+  };
+
   // Keyboard Controls
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave arrow keys alone while the user is typing in a form field
+      if (e.target instanceof HTMLInputElement) return;
+      // The external agent is in charge
+      if (external) return;
+      // In replay the arrow keys step through frames
+      if (replay) {
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+          const delta = e.key === 'ArrowLeft' ? -1 : 1;
+          setReplayPlaying(false);
+          setReplayFrame((f) => Math.max(0, Math.min(replay.steps.length, f + delta)));
+        }
+        return;
+      }
+      // A controller is in charge; keys would only fight it
+      if (controllerName !== null) return;
+
       if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        const held = heldSinceRef.current;
         if (e.key === 'ArrowLeft') {
           currentActionRef.current = Action.LEFT;
+          held.left = held.left ?? performance.now();
         } else if (e.key === 'ArrowRight') {
           currentActionRef.current = Action.RIGHT;
+          held.right = held.right ?? performance.now();
         }
 
         // Auto-start or Resume on key press
@@ -72,57 +267,131 @@ const Simulation: React.FC<SimulationProps> = ({ config, onHistoryUpdate }) => {
       }
     };
 
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') heldSinceRef.current.left = null;
+      if (e.key === 'ArrowRight') heldSinceRef.current.right = null;
+    };
+
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isRunning, handleStart]);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [isRunning, handleStart, controllerName, replay, external]);
+
+  // Maps the keyboard onto the configured action space:
+  // discrete-2 keeps the last key pressed, discrete-3 coasts when no key is held,
+  // continuous ramps force up the longer a key is held.
+  const humanAction = (cfg: EnvironmentConfig): EnvAction => {
+    const { left, right } = heldSinceRef.current;
+    if (cfg.actionSpace === 'discrete-2') return currentActionRef.current;
+
+    // When both keys are down the most recent press wins
+    const pressedAt = left !== null && (right === null || left > right) ? left : right;
+    if (pressedAt === null) return cfg.actionSpace === 'continuous' ? 0 : Action.NONE;
+    const direction = pressedAt === left ? -1 : 1;
+
+    if (cfg.actionSpace === 'discrete-3') return direction < 0 ? Action.LEFT : Action.RIGHT;
+    const ramp = Math.min(1, (performance.now() - pressedAt) / CONTINUOUS_RAMP_MS);
+    return direction * ramp * cfg.forceMag;
+  };
 
-  // Game Loop
-  const tick = useCallback(() => {
-    if (!isRunning) return;
+  // Advances the environment by exactly one `tau`; returns true when the episode ended
+  const advance = useCallback((): boolean => {
+    const previous = env.getState();
+    previousStateRef.current = previous;
 
-    const currentState = physicsStateRef.current;
-    const action = currentActionRef.current;
+    // Under automatic control the policy picks the action from the current state
+    const action = controller ? controller.act(environment.toObservation(env.getState())) : humanAction(env.getConfig());
 
     // Update Physics
-    const nextState = updatePhysics(currentState, action, config);
-    physicsStateRef.current = nextState;
+    const { info, reward } = env.step(action);
+    const nextState = info.state;
+    appliedForceRef.current = info.force;
+    returnRef.current += reward;
 
     // Record History (limit size to prevent memory leaks in long runs, though maxSteps handles this)
-    historyRef.current.push({
-      step: nextState.steps,
-      x: nextState.x,
-      theta: nextState.theta,
-      action: action === Action.LEFT ? -1 : 1,
+    historyRef.current.push(environment.toStepHistory(previous, info, reward, returnRef.current, env.getConfig()));
+    recordingRef.current.steps.push({ action, force: info.force, disturbance: info.disturbance, state: nextState });
+
+    if (!nextState.done) return false;
+
+    setIsRunning(false);
+    setLastRecording(recordingRef.current);
+    // Only human play counts towards the player's stats
+    if (!controller) {
+      const stats = recordAttempt(environment.kind, recordingRef.current);
+      setHighScore(stats.bestScore);
+      onAttemptRecorded?.(stats, recordingRef.current);
+    }
+    onHistoryUpdate({
+      label: `${controller ? controller.name : 'Human'} · seed ${env.getSeed()}`,
+      environment: environment.kind,
+      config: recordingRef.current.config,
+      history: historyRef.current,
+    });
+    onEpisodeComplete(controller ? controller.name : 'Human', {
+      steps: nextState.steps,
+      return: returnRef.current,
+      terminatedCode: nextState.terminatedCode,
     });
 
-    // Update UI Score (throttled effectively by React batching, but good to be safe)
-    setScore(nextState.steps);
+    // Set message
+    switch (nextState.terminatedCode) {
+      case 'pole_fell': setTerminationMsg("Failed: Pole tilted too far!"); break;
+      case 'out_of_bounds': setTerminationMsg("Failed: Cart went off track!"); break;
+      case 'max_steps': setTerminationMsg("Success: Maximum steps reached!"); break;
+      default: setTerminationMsg("Game Over");
+    }
+    return true;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [env, onHistoryUpdate, onEpisodeComplete, onAttemptRecorded, controller]);
+
+  // Game Loop
+  const tick = useCallback((now: number) => {
+    if (!isRunning) return;
+
+    const tau = env.getConfig().tau;
+    const elapsed = lastFrameRef.current === null ? 0 : (now - lastFrameRef.current) / 1000;
+    lastFrameRef.current = now;
+    accumulatorRef.current += Math.min(elapsed, MAX_FRAME_SECONDS) * speedRef.current;
+
+    let done = false;
+    let stepsThisFrame = 0;
+    while (accumulatorRef.current >= tau && !done) {
+      accumulatorRef.current -= tau;
+      done = advance();
+      // Too far behind to catch up: drop the backlog rather than stall the page
+      if (++stepsThisFrame >= MAX_STEPS_PER_FRAME) accumulatorRef.current = 0;
+    }
+
+    // Update UI Score once per frame, however many steps ran
+    setScore(env.getState().steps);
 
     // Draw Frame
-    draw();
+    draw(done ? 1 : accumulatorRef.current / tau);
 
-    if (nextState.done) {
-      setIsRunning(false);
-      if (nextState.steps > highScore) {
-        setHighScore(nextState.steps);
-      }
-      onHistoryUpdate(historyRef.current);
-      
-      // Set message
-      switch (nextState.terminatedCode) {
-        case 'pole_fell': setTerminationMsg("Failed: Pole tilted too far!"); break;
-        case 'out_of_bounds': setTerminationMsg("Failed: Cart went off track!"); break;
-        case 'max_steps': setTerminationMsg("Success: Maximum steps reached!"); break;
-        default: setTerminationMsg("Game Over");
-      }
-    } else {
+    if (!done) {
       requestRef.current = requestAnimationFrame(tick);
     }
-  }, [isRunning, config, highScore, onHistoryUpdate]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRunning, env, advance]);
+
+  // Single step while paused
+  const handleStep = () => {
+    if (isRunning || env.getState().done) return;
+    advance();
+    setScore(env.getState().steps);
+    draw();
+  };
 
   // Trigger loop when running state changes
   useEffect(() => {
     if (isRunning) {
+      // Start the accumulator fresh so time spent paused is not replayed
+      lastFrameRef.current = null;
+      accumulatorRef.current = 0;
       requestRef.current = requestAnimationFrame(tick);
     } else {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
@@ -132,145 +401,248 @@ const Simulation: React.FC<SimulationProps> = ({ config, onHistoryUpdate }) => {
     };
   }, [isRunning, tick]);
 
-  // Initial draw on mount and config change
+  // Push config changes into the environment, then redraw
   useEffect(() => {
+    env.setConfig(config);
+    // An episode file holds one config, so any change starts a new episode: the one
+    // under way (and a human attempt's stats) keeps the config it was played with,
+    // and replaying or re-simulating it uses the same physics
+    beginEpisode();
+    setHighScore(getPlayerStats(environment.kind, config)?.bestScore ?? 0);
     draw();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [config]);
 
-  // Canvas Drawing Logic
-  const draw = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
+  // Force shown in the HUD and arrow. Before the first bang-bang step this is
+  // the pending push direction, since the cart always moves in that space.
+  const displayedForce = (): number => {
+    if (config.actionSpace === 'discrete-2' && appliedForceRef.current === 0) {
+      return currentActionRef.current === Action.LEFT ? -config.forceMag : config.forceMag;
+    }
+    return appliedForceRef.current;
+  };
+
+  // Canvas Drawing Logic. `alpha` in [0, 1] blends from the previous to the
+  // current physics state so motion stays smooth between fixed steps.
+  const draw = (alpha = 1) => {
+    const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
+    const { recording, frame } = replayViewRef.current;
+    if (recording) {
+      environment.draw(
+        ctx,
+        recordingFrame(recording, frame),
+        recording.config,
+        recordingForce(recording, frame),
+        recordingOverlay(recording, frame)
+      );
+      return;
+    }
+    // The bridge only runs the single CartPole, so its frames are drawn as one whatever this view simulates
+    const agentFrame = externalFrameRef.current;
+    if (agentFrame) {
+      const { wind, actuatorNoise } = agentFrame.disturbance;
+      CARTPOLE.draw(ctx, agentFrame.state, agentFrame.config, agentFrame.force, {
+        wind,
+        noise: actuatorNoise,
+        kick: 0,
+        kickAge: 1,
+      });
+      return;
+    }
+    const live = recordingRef.current;
+    environment.draw(
+      ctx,
+      environment.interpolate(previousStateRef.current, env.getState(), alpha),
+      config,
+      displayedForce(),
+      recordingOverlay(live, live.steps.length)
+    );
+  };
 
-    const state = physicsStateRef.current;
-    
-    // Clear
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-    ctx.fillStyle = '#f3f4f6'; // bg-gray-100
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  // --- External agent ---
 
-    const centerX = CANVAS_WIDTH / 2;
-    const centerY = CANVAS_HEIGHT * 0.7; // Ground level
-    
-    // Track Limits
-    const limitPixels = config.xThreshold * SCALE_METERS_TO_PIXELS;
-    
-    // Draw Track
-    ctx.beginPath();
-    ctx.moveTo(centerX - limitPixels, centerY + 20);
-    ctx.lineTo(centerX + limitPixels, centerY + 20);
-    ctx.strokeStyle = '#9ca3af'; // gray-400
-    ctx.lineWidth = 4;
-    ctx.stroke();
-
-    // Limit Markers
-    ctx.fillStyle = '#ef4444'; // red-500
-    ctx.fillRect(centerX - limitPixels - 5, centerY + 10, 10, 20);
-    ctx.fillRect(centerX + limitPixels - 5, centerY + 10, 10, 20);
-
-    // Calculate Cart Position
-    const cartX = centerX + state.x * SCALE_METERS_TO_PIXELS;
-    const cartY = centerY;
-    const cartWidth = 60;
-    const cartHeight = 35;
-
-    // Draw Cart
-    ctx.fillStyle = '#1e293b'; // slate-800
-    ctx.strokeStyle = '#334155';
-    ctx.lineWidth = 2;
-    ctx.fillRect(cartX - cartWidth / 2, cartY - cartHeight / 2, cartWidth, cartHeight);
-    ctx.strokeRect(cartX - cartWidth / 2, cartY - cartHeight / 2, cartWidth, cartHeight);
-
-    // Draw Wheel 1
-    ctx.beginPath();
-    ctx.arc(cartX - 20, cartY + cartHeight/2, 6, 0, Math.PI * 2);
-    ctx.fillStyle = '#475569';
-    ctx.fill();
-
-    // Draw Wheel 2
-    ctx.beginPath();
-    ctx.arc(cartX + 20, cartY + cartHeight/2, 6, 0, Math.PI * 2);
-    ctx.fillStyle = '#475569';
-    ctx.fill();
-
-    // Draw Force Indicator (Arrow)
-    const arrowDir = currentActionRef.current === Action.LEFT ? -1 : 1;
-    const arrowColor = '#f59e0b'; // amber-500
-    
-    ctx.beginPath();
-    // Start of arrow shaft
-    ctx.moveTo(cartX + (arrowDir * 35), cartY);
-    // End of arrow shaft
-    ctx.lineTo(cartX + (arrowDir * 60), cartY);
-    // Top wing
-    ctx.lineTo(cartX + (arrowDir * 50), cartY - 8);
-    // Back to tip
-    ctx.moveTo(cartX + (arrowDir * 60), cartY);
-    // Bottom wing
-    ctx.lineTo(cartX + (arrowDir * 50), cartY + 8);
-    
-    ctx.strokeStyle = arrowColor;
-    ctx.lineWidth = 4;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.stroke();
-
-    // Pole Geometry
-    // Visual length: Scale * (poleLength * 2)
-    const visualPoleLen = config.poleLength * 2 * SCALE_METERS_TO_PIXELS;
-    
-    // Tip coordinates
-    const poleTipX = cartX + visualPoleLen * Math.sin(state.theta);
-    const poleTipY = cartY - visualPoleLen * Math.cos(state.theta);
+  // Follows one agent session (the one that reset last) and reports its finished
+  // episodes like live ones, so they reach the analysis panels and learning curves
+  useEffect(() => {
+    if (!external) return;
+    let pending = 0;
+    let followed: number | null = null;
+    let episode: { previous: SimulationState; config: SimulationConfig; history: StepHistory[] } | null = null;
+
+    const collect = (frame: RenderFrame) => {
+      const { state, config: frameConfig, force, disturbance, reward, return: episodeReturn } = frame;
+      if (state.steps === 0) {
+        episode = { previous: state, config: frameConfig, history: [] };
+        return;
+      }
+      if (!episode) return;
+      const info: StepInfo = { steps: state.steps, force, disturbance, terminatedCode: state.terminatedCode, state };
+      episode.history.push(CARTPOLE.toStepHistory(episode.previous, info, reward, episodeReturn, frameConfig));
+      episode.previous = state;
+      if (!state.done) return;
+      onHistoryUpdate({
+        label: `External agent · session ${frame.session} · episode ${frame.episode}`,
+        environment: CARTPOLE.kind,
+        config: episode.config,
+        history: episode.history,
+      });
+      onEpisodeComplete('External', { steps: state.steps, return: episodeReturn, terminatedCode: state.terminatedCode });
+      episode = null;
+    };
 
-    // Draw Failure Angle Threshold Guides
-    const threshRad = config.thetaThresholdDegrees * Math.PI / 180;
-    const guideLen = visualPoleLen * 1.2;
-    
-    ctx.beginPath();
-    ctx.moveTo(cartX, cartY);
-    ctx.lineTo(cartX + guideLen * Math.sin(threshRad), cartY - guideLen * Math.cos(threshRad));
-    ctx.moveTo(cartX, cartY);
-    ctx.lineTo(cartX + guideLen * Math.sin(-threshRad), cartY - guideLen * Math.cos(-threshRad));
-    ctx.strokeStyle = 'rgba(239, 68, 68, 0.2)'; // Faint red
-    ctx.lineWidth = 2;
-    ctx.setLineDash([5, 5]);
-    ctx.stroke();
-    ctx.setLineDash([]); // Reset dash
-
-    // Draw Pole
-    ctx.beginPath();
-    ctx.moveTo(cartX, cartY);
-    ctx.lineTo(poleTipX, poleTipY);
-    ctx.strokeStyle = '#d97706'; // amber-600
-    ctx.lineWidth = 8;
-    ctx.lineCap = 'round';
-    ctx.stroke();
-
-    // Highlight Pole if near failure
-    if (Math.abs(state.theta) > threshRad * 0.8) {
-       ctx.beginPath();
-       ctx.moveTo(cartX, cartY);
-       ctx.lineTo(poleTipX, poleTipY);
-       ctx.strokeStyle = 'rgba(239, 68, 68, 0.5)'; // red glow overlay
-       ctx.lineWidth = 8;
-       ctx.lineCap = 'round';
-       ctx.stroke();
-    }
+    const close = connectBridgeViewer(bridgeUrl, {
+      onStatus: (status, error) => setBridgeStatus({ status, error }),
+      onFrame: (frame) => {
+        if (frame.state.steps === 0 && frame.session !== followed) {
+          followed = frame.session;
+          episode = null;
+        }
+        if (followed === null) followed = frame.session;
+        if (frame.session !== followed) return;
+        collect(frame);
+        externalFrameRef.current = frame;
+        // Agents can step far faster than the screen refreshes; draw only the latest frame
+        if (!pending) {
+          pending = requestAnimationFrame(() => {
+            pending = 0;
+            draw();
+            setExternalFrame(externalFrameRef.current);
+          });
+        }
+      },
+    });
+    return () => {
+      close();
+      cancelAnimationFrame(pending);
+      externalFrameRef.current = null;
+      setExternalFrame(null);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [external, bridgeAttempt]);
+
+  const enterExternal = () => {
+    setIsRunning(false);
+    setTerminationMsg(null);
+    setExternal(true);
+  };
+
+  const exitExternal = () => {
+    setExternal(false);
+    handleReset();
+  };
+
+  // --- Replay ---
+
+  const enterReplay = (recording: EpisodeRecording<C, S>) => {
+    setIsRunning(false);
+    setReplay(recording);
+    setReplayFrame(0);
+    setReplayPlaying(false);
+    onHistoryUpdate({
+      label: `Replay: ${recording.controller} · seed ${recording.seed}`,
+      environment: environment.kind,
+      config: recording.config,
+      history: recordingToHistory(recording, environment),
+    });
+  };
+
+  useEffect(() => {
+    if (replayRequest) enterReplay(replayRequest.recording);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replayRequest]);
+
+  const exitReplay = () => {
+    setReplay(null);
+    setReplayPlaying(false);
+    handleReset();
+  };
+
+  const replayFailed =
+    replay !== null &&
+    replay.steps.length > 0 &&
+    ['pole_fell', 'out_of_bounds'].includes(replay.steps[replay.steps.length - 1].state.terminatedCode);
 
-    // Draw Pivot
-    ctx.beginPath();
-    ctx.arc(cartX, cartY, 6, 0, 2 * Math.PI);
-    ctx.fillStyle = '#ef4444';
-    ctx.fill();
-    ctx.strokeStyle = '#fff';
-    ctx.lineWidth = 2;
-    ctx.stroke();
+  const handleReplayPlay = () => {
+    if (!replay) return;
+    if (replayFrame >= replay.steps.length) setReplayFrame(0);
+    setReplayPlaying(true);
   };
 
+  // Replay playback follows the recording's own tau and the playback speed
+  useEffect(() => {
+    if (!replay || !replayPlaying) return;
+    let frame = replayViewRef.current.frame;
+    let last: number | null = null;
+    let accumulator = 0;
+    let id = 0;
+
+    const loop = (now: number) => {
+      const elapsed = last === null ? 0 : (now - last) / 1000;
+      last = now;
+      accumulator += Math.min(elapsed, MAX_FRAME_SECONDS) * speedRef.current;
+      const frames = Math.floor(accumulator / replay.config.tau);
+      accumulator -= frames * replay.config.tau;
+      frame = Math.min(replay.steps.length, frame + frames);
+      setReplayFrame(frame);
+      if (frame >= replay.steps.length) setReplayPlaying(false);
+      else id = requestAnimationFrame(loop);
+    };
+    id = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(id);
+  }, [replay, replayPlaying]);
+
+  useEffect(() => {
+    draw();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replay, replayFrame]);
+
+  const handleSave = () => {
+    const recording = replay ?? lastRecording;
+    if (recording) downloadText(recordingFileName(recording), serializeRecording(recording));
+  };
+
+  const handleLoad = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      enterReplay(parseRecording(await file.text(), environment));
+      setFileError(null);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : String(err));
+    }
+    // Allow the same file to be picked again
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const replayState: S | null = replay ? recordingFrame(replay, replayFrame) : null;
+  // Reward and return of the step shown, live or in replay (zero before the first step)
+  const replayHistory: StepHistory[] | null = useMemo(
+    () => (replay ? recordingToHistory(replay, environment) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [replay]
+  );
+  const shownStep: StepHistory | undefined = replayHistory
+    ? replayHistory[replayFrame - 1]
+    : historyRef.current[historyRef.current.length - 1];
+  const formatReward = (reward: number, episodeReturn: number) =>
+    `Reward: ${reward.toFixed(2)} · Return: ${episodeReturn.toFixed(1)}`;
+  const rewardLine = externalFrame
+    ? formatReward(externalFrame.reward, externalFrame.return)
+    : formatReward(shownStep?.reward ?? 0, shownStep?.return ?? 0);
+
+  const speedSelect = (
+    <select
+      value={speed}
+      onChange={(e) => setSpeed(parseFloat(e.target.value))}
+      title="Playback speed"
+      className="px-2 py-1 border border-gray-300 rounded font-mono text-sm"
+    >
+      {PLAYBACK_SPEEDS.map((s) => (
+        <option key={s} value={s}>{s}x</option>
+      ))}
+    </select>
+  );
+
   return (
     <div className="flex flex-col items-center justify-center w-full p-4 bg-white rounded-xl shadow-lg border border-gray-200">
       <div className="relative mb-4 border-4 border-gray-300 rounded-lg overflow-hidden bg-gray-100 select-none">
@@ -282,32 +654,75 @@ const Simulation: React.FC<SimulationProps> = ({ config, onHistoryUpdate }) => {
         />
         
         {/* Overlay for Game Over */}
-        {terminationMsg && (
+        {terminationMsg && !replay && !external && (
           <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center flex-col text-white animate-in fade-in duration-200">
             <h3 className="text-2xl font-bold mb-2 text-center">{terminationMsg}</h3>
             <div className="text-5xl font-mono font-bold my-2 text-amber-400">{score}</div>
             <p className="text-gray-300 text-sm uppercase tracking-widest mb-6">Steps Survived</p>
             
-            <div className="flex items-center gap-2 px-4 py-2 bg-white/20 rounded-full animate-pulse">
-                <MoveHorizontal size={20} />
-                <span className="font-semibold">Press Arrow Keys to Try Again</span>
-            </div>
+            {controller ? (
+              <button
+                onClick={handleStart}
+                className="flex items-center gap-2 px-4 py-2 bg-white/20 rounded-full hover:bg-white/30 transition-colors"
+              >
+                <Bot size={20} />
+                <span className="font-semibold">Watch {controller.name} Again</span>
+              </button>
+            ) : (
+              <div className="flex items-center gap-2 px-4 py-2 bg-white/20 rounded-full animate-pulse">
+                  <MoveHorizontal size={20} />
+                  <span className="font-semibold">Press Arrow Keys to Try Again</span>
+              </div>
+            )}
           </div>
         )}
 
         {/* HUD */}
         <div className="absolute top-4 left-4 bg-white/80 backdrop-blur px-4 py-2 rounded-lg shadow-sm text-gray-800 pointer-events-none">
-           <div className="font-mono font-bold text-xl">Steps: {score}</div>
-           <div className="text-xs text-gray-500 uppercase tracking-wide">Target: {config.maxSteps}</div>
+           {external && !replay ? (
+             <>
+               <div className="text-xs font-bold text-indigo-600 uppercase tracking-wide">
+                 External{externalFrame ? ` · session ${externalFrame.session}` : ''}
+               </div>
+               {externalFrame ? (
+                 <>
+                   <div className="font-mono font-bold text-xl">Steps: {externalFrame.state.steps}</div>
+                   <div className="font-mono text-sm">{rewardLine}</div>
+                   <div className="text-xs text-gray-500 uppercase tracking-wide">Target: {externalFrame.config.maxSteps}</div>
+                   <div className="text-xs text-gray-500 uppercase tracking-wide">Episode: {externalFrame.episode}</div>
+                 </>
+               ) : (
+                 <div className="text-sm text-gray-500">Waiting for an agent…</div>
+               )}
+             </>
+           ) : replay && replayState ? (
+             <>
+               <div className="text-xs font-bold text-indigo-600 uppercase tracking-wide">Replay · {replay.controller}</div>
+               <div className="font-mono font-bold text-xl">Steps: {replayState.steps}</div>
+               <div className="font-mono text-sm">{rewardLine}</div>
+               <div className="text-xs text-gray-500 uppercase tracking-wide">Target: {replay.config.maxSteps}</div>
+               <div className="text-xs text-gray-500 uppercase tracking-wide">Time: {(replayState.steps * replay.config.tau).toFixed(2)} s</div>
+               <div className="text-xs text-gray-500 uppercase tracking-wide">Seed: {replay.seed}</div>
+             </>
+           ) : (
+             <>
+               <div className="font-mono font-bold text-xl">Steps: {score}</div>
+               <div className="font-mono text-sm">{rewardLine}</div>
+               <div className="text-xs text-gray-500 uppercase tracking-wide">Target: {config.maxSteps}</div>
+               <div className="text-xs text-gray-500 uppercase tracking-wide">Time: {(score * config.tau).toFixed(2)} s</div>
+               <div className="text-xs text-gray-500 uppercase tracking-wide">Seed: {env.getSeed()}</div>
+             </>
+           )}
         </div>
 
         <div className="absolute top-4 right-4 bg-white/80 backdrop-blur px-4 py-2 rounded-lg shadow-sm flex items-center gap-2 text-amber-600 pointer-events-none">
            <Trophy size={20} />
            <span className="font-mono font-bold text-xl">{highScore}</span>
+           <span className="text-xs leading-tight text-gray-500 uppercase tracking-wide">Your best<br />this config</span>
         </div>
         
         {/* Instructions overlay (only if not running and no result yet) */}
-        {!isRunning && !terminationMsg && score === 0 && (
+        {!replay && !external && !controller && !isRunning && !terminationMsg && score === 0 && (
            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
              <div className="bg-white/90 backdrop-blur px-8 py-6 rounded-xl shadow-xl text-center pointer-events-auto border border-gray-200">
                <h2 className="text-2xl font-bold text-gray-800 mb-2">Ready?</h2>
@@ -322,6 +737,13 @@ const Simulation: React.FC<SimulationProps> = ({ config, onHistoryUpdate }) => {
                     <span className="text-xs text-gray-500 mt-2 font-medium">Right</span>
                   </div>
                </div>
+               {config.actionSpace !== 'discrete-2' && (
+                 <p className="text-sm text-gray-500 mb-2">
+                   {config.actionSpace === 'discrete-3'
+                     ? 'Hold a key to push; release it to coast.'
+                     : 'Hold a key to push harder the longer it is held; release it to coast.'}
+                 </p>
+               )}
                <p className="text-indigo-600 font-semibold animate-pulse">Press any arrow key to start</p>
              </div>
            </div>
@@ -329,11 +751,178 @@ const Simulation: React.FC<SimulationProps> = ({ config, onHistoryUpdate }) => {
       </div>
 
       {/* Controls */}
+      {replay ? (
+      <div className="flex flex-col gap-2 w-full px-2">
+        <input
+          type="range"
+          min="0"
+          max={replay.steps.length}
+          step="1"
+          value={replayFrame}
+          onChange={(e) => {
+            setReplayPlaying(false);
+            setReplayFrame(parseInt(e.target.value, 10));
+          }}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+        <div className="flex gap-4 justify-between items-center">
+          <div className="text-sm text-gray-500 font-mono">
+            Frame {replayFrame} / {replay.steps.length} · {describeForce(recordingForce(replay, replayFrame), replay.config)}
+          </div>
+          <div className="flex gap-2">
+            {speedSelect}
+            <button
+              onClick={() => { setReplayPlaying(false); setReplayFrame((f) => Math.max(0, f - 1)); }}
+              disabled={replayFrame === 0}
+              title="Previous frame"
+              className="flex items-center gap-2 px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              <StepBack size={16} />
+            </button>
+            {replayPlaying ? (
+              <button
+                onClick={() => setReplayPlaying(false)}
+                className="flex items-center gap-2 px-4 py-2 bg-yellow-500 text-white rounded hover:bg-yellow-600 transition-colors"
+              >
+                <Pause size={16} /> Pause
+              </button>
+            ) : (
+              <button
+                onClick={handleReplayPlay}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+              >
+                <Play size={16} /> Play
+              </button>
+            )}
+            <button
+              onClick={() => { setReplayPlaying(false); setReplayFrame((f) => Math.min(replay.steps.length, f + 1)); }}
+              disabled={replayFrame >= replay.steps.length}
+              title="Next frame"
+              className="flex items-center gap-2 px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              <StepForward size={16} />
+            </button>
+            <button
+              onClick={() => { setReplayPlaying(false); setReplayFrame(replay.steps.length); }}
+              disabled={!replayFailed}
+              title="Jump to the step where the episode failed"
+              className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors disabled:opacity-50"
+            >
+              <AlertTriangle size={16} /> Failure
+            </button>
+            <button
+              onClick={exitReplay}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              <X size={16} /> Exit Replay
+            </button>
+          </div>
+        </div>
+      </div>
+      ) : external ? (
+      <div className="flex gap-4 w-full justify-between items-center px-2">
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="bridge-url" className="text-xs font-semibold text-gray-500 uppercase">Bridge</label>
+          <input
+            id="bridge-url"
+            type="text"
+            value={bridgeUrl}
+            disabled={bridgeStatus.status !== 'closed'}
+            onChange={(e) => setBridgeUrl(e.target.value)}
+            className="w-56 px-2 py-1 border border-gray-300 rounded font-mono text-sm disabled:opacity-50"
+          />
+          <span className={`font-mono ${bridgeStatus.status === 'connected' ? 'text-green-700' : bridgeStatus.error ? 'text-red-600' : 'text-gray-500'}`}>
+            {bridgeStatus.status === 'connected'
+              ? externalFrame
+                ? `Action: ${describeForce(externalFrame.force, externalFrame.config)}`
+                : 'Connected'
+              : bridgeStatus.error ?? (bridgeStatus.status === 'connecting' ? 'Connecting…' : 'Disconnected')}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {bridgeStatus.status === 'closed' && (
+            <button
+              onClick={() => setBridgeAttempt((a) => a + 1)}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+            >
+              <Plug size={16} /> Connect
+            </button>
+          )}
+          <button
+            onClick={exitExternal}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+          >
+            <X size={16} /> Leave External Mode
+          </button>
+        </div>
+      </div>
+      ) : (
       <div className="flex gap-4 w-full justify-between items-center px-2">
-        <div className="text-sm text-gray-500 font-mono">
-          Action: {currentActionRef.current === Action.LEFT ? 'PUSH LEFT' : 'PUSH RIGHT'}
+        <div className="flex items-center gap-4">
+          <div className="flex rounded overflow-hidden border border-gray-300 text-sm">
+            <button
+              onClick={() => handleModeChange(null)}
+              disabled={isRunning}
+              className={`flex items-center gap-1 px-3 py-1 transition-colors disabled:opacity-50 ${!controller ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+            >
+              <Gamepad2 size={14} /> Human
+            </button>
+            {controllers.map((c) => (
+              <button
+                key={c.name}
+                onClick={() => handleModeChange(c.name)}
+                disabled={isRunning}
+                title={`Let ${c.name} play`}
+                className={`flex items-center gap-1 px-3 py-1 border-l border-gray-300 transition-colors disabled:opacity-50 ${controller === c ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                <Bot size={14} /> {c.name}
+              </button>
+            ))}
+            {environment.kind === 'cartpole' && (
+              <button
+                onClick={enterExternal}
+                disabled={isRunning}
+                title="Watch an agent outside the browser play through the local WebSocket bridge"
+                className="flex items-center gap-1 px-3 py-1 border-l border-gray-300 transition-colors disabled:opacity-50 bg-white text-gray-700 hover:bg-gray-100"
+              >
+                <Plug size={14} /> External
+              </button>
+            )}
+          </div>
+          <div className="text-sm text-gray-500 font-mono">
+            Action: {describeForce(displayedForce(), config)}
+          </div>
+          <div className="flex items-center gap-1">
+            <label htmlFor="sim-seed" className="text-xs font-semibold text-gray-500 uppercase">Seed</label>
+            <input
+              id="sim-seed"
+              type="number"
+              min="0"
+              value={seed}
+              disabled={isRunning}
+              onChange={(e) => handleSeedInput(e.target.value)}
+              className="w-24 px-2 py-1 border border-gray-300 rounded font-mono text-sm disabled:opacity-50"
+            />
+            <button
+              onClick={() => setSeed(randomSeed())}
+              disabled={isRunning}
+              title="Random seed"
+              className="p-1.5 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              <Dices size={16} />
+            </button>
+          </div>
         </div>
         <div className="flex gap-2">
+          {speedSelect}
+          <button
+            onClick={handleStep}
+            disabled={isRunning || !!terminationMsg}
+            title="Advance one physics step"
+            className="flex items-center gap-2 px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            <StepForward size={16} />
+          </button>
           {isRunning ? (
              <button
                onClick={handlePause}
@@ -342,12 +931,12 @@ const Simulation: React.FC<SimulationProps> = ({ config, onHistoryUpdate }) => {
                <Pause size={16} /> Pause
              </button>
           ) : (
-            score > 0 && !terminationMsg && (
+            (score > 0 || controller) && !terminationMsg && (
               <button
                 onClick={handleStart}
                 className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
               >
-                <Play size={16} /> Resume
+                <Play size={16} /> {score > 0 ? 'Resume' : `Start ${controller?.name}`}
               </button>
             )
           )}
@@ -359,6 +948,44 @@ const Simulation: React.FC<SimulationProps> = ({ config, onHistoryUpdate }) => {
           </button>
         </div>
       </div>
+      )}
+
+      {/* Episode files */}
+      <div className="flex gap-2 w-full items-center px-2 mt-3 pt-3 border-t border-gray-100 text-sm">
+        <span className="text-xs font-semibold text-gray-500 uppercase mr-2">Episode</span>
+        <button
+          onClick={() => lastRecording && enterReplay(lastRecording)}
+          disabled={isRunning || external || !lastRecording || replay !== null}
+          title="Replay the last finished (or reset) episode"
+          className="flex items-center gap-1 px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          <Film size={14} /> Replay Last
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isRunning || (!lastRecording && !replay)}
+          title="Download the episode as a file"
+          className="flex items-center gap-1 px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          <Save size={14} /> Save
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRunning || external}
+          title="Open a saved episode file in replay"
+          className="flex items-center gap-1 px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          <FolderOpen size={14} /> Load
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => handleLoad(e.target.files?.[0])}
+        />
+        {fileError && <span className="text-xs text-red-600">{fileError}</span>}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EpisodeTrace, Policy, SimulationConfig, StepHistory } from '../types';
+import { PolicyMap, STATE_DIMENSIONS, computePolicyMap } from '../utils/stateSpace';
+import { getObservationBounds } from '../utils/tabularAgent';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Orbit } from 'lucide-react';
+
+interface StateSpacePanelProps {
+  traces: EpisodeTrace[]; // recent episodes; only single-CartPole ones are shown
+  config: SimulationConfig;
+  policies: Policy[]; // controllers that can be mapped; stateful ones are reset while sampling
+}
+
+// Cells along each side of the policy map
+const MAP_RESOLUTION = 48;
+const MAP_SIZE = 288;
+
+// Force colours: blue pushes left, red pushes right, white is no force
+const LEFT_RGB = [37, 99, 235];
+const RIGHT_RGB = [220, 38, 38];
+// Value colours run from pale (lowest) to deep indigo (highest)
+const LOW_RGB = [238, 242, 255];
+const HIGH_RGB = [49, 46, 129];
+
+const mix = (from: number[], to: number[], t: number) =>
+  `rgb(${from.map((c, i) => Math.round(c + (to[i] - c) * t)).join(',')})`;
+
+const forceColor = (force: number, forceMag: number) => {
+  const t = Math.max(-1, Math.min(1, force / forceMag));
+  return t < 0 ? mix([255, 255, 255], LEFT_RGB, -t) : mix([255, 255, 255], RIGHT_RGB, t);
+};
+
+const drawMap = (canvas: HTMLCanvasElement, map: PolicyMap, color: (i: number) => string) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const cell = canvas.width / map.resolution;
+  for (let row = 0; row < map.resolution; row++) {
+    for (let col = 0; col < map.resolution; col++) {
+      ctx.fillStyle = color(row * map.resolution + col);
+      // Overlap by a pixel so no seams show between cells
+      ctx.fillRect(col * cell, row * cell, cell + 1, cell + 1);
+    }
+  }
+  // Axes through the origin
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+  ctx.beginPath();
+  ctx.moveTo(canvas.width / 2, 0);
+  ctx.lineTo(canvas.width / 2, canvas.height);
+  ctx.moveTo(0, canvas.height / 2);
+  ctx.lineTo(canvas.width, canvas.height / 2);
+  ctx.stroke();
+};
+
+const formatDisplay = (value: number, index: number) => (value * STATE_DIMENSIONS[index].displayScale).toFixed(1);
+
+const axisTitle = (index: number) => `${STATE_DIMENSIONS[index].symbol} (${STATE_DIMENSIONS[index].unit})`;
+
+const StateSpacePanel: React.FC<StateSpacePanelProps> = ({ traces, config, policies }) => {
+  const episodes = traces.filter((t) => t.environment === 'cartpole');
+  // Episode shown in the portraits; null follows the most recent one
+  const [viewedId, setViewedId] = useState<number | null>(null);
+  const [policyName, setPolicyName] = useState<string | null>(null);
+  const [xIndex, setXIndex] = useState(2);
+  const [yIndex, setYIndex] = useState(3);
+  // Values of the two dimensions not on the map's axes, in observation units
+  const [fixed, setFixed] = useState<number[]>([0, 0, 0, 0]);
+  const actionCanvasRef = useRef<HTMLCanvasElement>(null);
+  const valueCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const current = episodes.find((t) => t.id === viewedId) ?? episodes[episodes.length - 1];
+  const policy = policies.find((p) => p.name === policyName) ?? policies[0];
+  const bounds = getObservationBounds(config);
+  const hidden = [0, 1, 2, 3].filter((i) => i !== xIndex && i !== yIndex);
+
+  const map = useMemo(
+    () => (policy ? computePolicyMap(policy, config, xIndex, yIndex, fixed, MAP_RESOLUTION) : null),
+    [policy, config, xIndex, yIndex, fixed]
+  );
+
+  const valueRange = useMemo(() => {
+    if (!map?.values) return null;
+    let min = Infinity;
+    let max = -Infinity;
+    for (const v of map.values) {
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+    return { min, max };
+  }, [map]);
+
+  useEffect(() => {
+    if (!map) return;
+    if (actionCanvasRef.current) {
+      drawMap(actionCanvasRef.current, map, (i) => forceColor(map.forces[i], config.forceMag));
+    }
+    if (valueCanvasRef.current && map.values && valueRange) {
+      const { values } = map;
+      const span = valueRange.max - valueRange.min || 1;
+      drawMap(valueCanvasRef.current, map, (i) => mix(LOW_RGB, HIGH_RGB, (values[i] - valueRange.min) / span));
+    }
+  }, [map, valueRange, config.forceMag]);
+
+  // Picking the other axis's dimension swaps the two, so the axes always differ
+  const handleAxis = (axis: 'x' | 'y', index: number) => {
+    if (axis === 'x') {
+      if (index === yIndex) setYIndex(xIndex);
+      setXIndex(index);
+    } else {
+      if (index === xIndex) setXIndex(yIndex);
+      setYIndex(index);
+    }
+  };
+
+  const handleFixed = (index: number, displayValue: number) => {
+    const next = [...fixed];
+    next[index] = displayValue / STATE_DIMENSIONS[index].displayScale;
+    setFixed(next);
+  };
+
+  // Where a swing-up angle wraps across ±180° the point is left out, breaking the line
+  const portrait = (history: StepHistory[]) =>
+    history.map((h, i) => ({
+      x: h.x,
+      xDot: h.xDot,
+      theta: h.theta * STATE_DIMENSIONS[2].displayScale,
+      thetaDot:
+        i > 0 && Math.abs(h.theta - history[i - 1].theta) > Math.PI ? null : h.thetaDot * STATE_DIMENSIONS[3].displayScale,
+    }));
+
+  const renderPortrait = (data: ReturnType<typeof portrait>, xKey: 'x' | 'theta', yKey: 'xDot' | 'thetaDot', title: string) => (
+    <div className="h-64">
+      <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">{title}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+          <XAxis dataKey={xKey} type="number" domain={['auto', 'auto']} tickFormatter={(v: number) => v.toFixed(1)} />
+          <YAxis type="number" domain={['auto', 'auto']} tickFormatter={(v: number) => v.toFixed(0)} />
+          <Tooltip
+            labelFormatter={(label: number) => `${xKey === 'x' ? 'x' : 'θ'}: ${Number(label).toFixed(2)}`}
+            formatter={(value: number) => [value.toFixed(2), yKey === 'xDot' ? 'ẋ' : 'θ̇']}
+          />
+          <Line type="linear" dataKey={yKey} stroke={xKey === 'x' ? '#4f46e5' : '#d97706'} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          {data.length > 0 && data[0][yKey] !== null && (
+            <ReferenceDot x={data[0][xKey]} y={data[0][yKey]} r={4} fill="#16a34a" stroke="none" />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  const data = current ? portrait(current.history) : [];
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200 mt-6">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <Orbit className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">State Space</h2>
+      </div>
+
+      {/* Phase portraits */}
+      <div className="flex items-center gap-3 mb-4">
+        <h3 className="text-sm font-semibold text-gray-700">Phase Portraits</h3>
+        {current && (
+          <select
+            value={current.id}
+            onChange={(e) => {
+              const id = parseInt(e.target.value, 10);
+              setViewedId(id === episodes[episodes.length - 1].id ? null : id);
+            }}
+            className="ml-auto px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            {[...episodes].reverse().map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label} ({t.history.length} steps)
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {current ? (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-4">
+            {renderPortrait(data, 'theta', 'thetaDot', 'Pole: θ (°) vs θ̇ (°/s)')}
+            {renderPortrait(data, 'x', 'xDot', 'Cart: x (m) vs ẋ (m/s)')}
+          </div>
+          <p className="text-xs text-gray-400 text-center mb-8">
+            Each curve traces the episode through the plane; the green dot is where it started. A balanced pole spirals
+            into or circles the origin.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500 mb-8">Play or sample a CartPole episode to see its phase portraits.</p>
+      )}
+
+      {/* Policy map */}
+      <div className="border-t border-gray-100 pt-4">
+        <h3 className="text-sm font-semibold text-gray-700 mb-4">Policy Map</h3>
+        {policy && map ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 items-end mb-6">
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-gray-500 uppercase">Policy</label>
+                <select
+                  value={policy.name}
+                  onChange={(e) => setPolicyName(e.target.value)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  {policies.map((p) => (
+                    <option key={p.name} value={p.name}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {(['x', 'y'] as const).map((axis) => (
+                <div key={axis} className="space-y-1">
+                  <label className="text-xs font-semibold text-gray-500 uppercase">{axis === 'x' ? 'Horizontal' : 'Vertical'}</label>
+                  <select
+                    value={axis === 'x' ? xIndex : yIndex}
+                    onChange={(e) => handleAxis(axis, parseInt(e.target.value, 10))}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    {STATE_DIMENSIONS.map((d, i) => (
+                      <option key={d.symbol} value={i}>
+                        {d.label} ({d.symbol})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {hidden.map((i) => (
+                <div key={i} className="space-y-1">
+                  <label className="text-xs font-semibold text-gray-500 uppercase">
+                    {STATE_DIMENSIONS[i].symbol} fixed at ({STATE_DIMENSIONS[i].unit})
+                  </label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="range"
+                      min={-bounds[i] * STATE_DIMENSIONS[i].displayScale}
+                      max={bounds[i] * STATE_DIMENSIONS[i].displayScale}
+                      step={(bounds[i] * STATE_DIMENSIONS[i].displayScale) / 50}
+                      value={fixed[i] * STATE_DIMENSIONS[i].displayScale}
+                      onChange={(e) => handleFixed(i, parseFloat(e.target.value))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                    <span className="w-12 text-right font-mono text-sm text-gray-700">{formatDisplay(fixed[i], i)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="flex flex-col items-center">
+                <h4 className="text-sm font-semibold text-gray-500 mb-2">Chosen Force</h4>
+                <canvas ref={actionCanvasRef} width={MAP_SIZE} height={MAP_SIZE} className="border border-gray-200 rounded" />
+                <div className="flex items-center gap-2 text-xs text-gray-500 mt-2">
+                  <span>−{config.forceMag} N</span>
+                  <div
+                    className="h-2 w-32 rounded"
+                    style={{ background: `linear-gradient(to right, ${mix([255, 255, 255], LEFT_RGB, 1)}, white, ${mix([255, 255, 255], RIGHT_RGB, 1)})` }}
+                  />
+                  <span>+{config.forceMag} N</span>
+                </div>
+              </div>
+
+              <div className="flex flex-col items-center">
+                <h4 className="text-sm font-semibold text-gray-500 mb-2">Value Estimate</h4>
+                {map.values && valueRange ? (
+                  <>
+                    <canvas ref={valueCanvasRef} width={MAP_SIZE} height={MAP_SIZE} className="border border-gray-200 rounded" />
+                    <div className="flex items-center gap-2 text-xs text-gray-500 mt-2">
+                      <span>{valueRange.min.toFixed(1)}</span>
+                      <div
+                        className="h-2 w-32 rounded"
+                        style={{ background: `linear-gradient(to right, ${mix(LOW_RGB, HIGH_RGB, 0)}, ${mix(LOW_RGB, HIGH_RGB, 1)})` }}
+                      />
+                      <span>{valueRange.max.toFixed(1)}</span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500 text-center mt-8 max-w-xs">
+                    {policy.name} has no value estimate. Trained agents report the Q-value of their chosen action.
+                  </p>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-gray-400 text-center mt-4">
+              Horizontal: {axisTitle(xIndex)} from {formatDisplay(map.xRange[0], xIndex)} to{' '}
+              {formatDisplay(map.xRange[1], xIndex)}. Vertical: {axisTitle(yIndex)} from{' '}
+              {formatDisplay(map.yRange[0], yIndex)} (bottom) to {formatDisplay(map.yRange[1], yIndex)} (top). Each cell
+              is one state on the slice, coloured by what the policy does there; the lines cross at zero.
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">No controller is available to map.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StateSpacePanel;
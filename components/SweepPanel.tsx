@@ -0,0 +1,537 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AgentAlgorithm,
+  AgentConfig,
+  SimulationConfig,
+  SweepDimension,
+  SweepEvent,
+  SweepSettings,
+  SweepSpec,
+  SweepTrial,
+  SweepValues,
+} from '../types';
+import { DEFAULT_DQN_CONFIG, DEFAULT_SWEEP_SETTINGS, DEFAULT_TABULAR_CONFIG } from '../constants';
+import { SliderField } from './AgentPanel';
+import {
+  MAX_SWEEP_CONFIGS,
+  SweepParameter,
+  SweepSummary,
+  countConfigs,
+  dimensionId,
+  meanLearningCurve,
+  summariseSweep,
+  sweepParameters,
+  sweepToCsv,
+  sweepToJson,
+} from '../utils/sweep';
+import { downsample, rollingStats } from '../utils/stats';
+import { downloadText } from '../utils/download';
+import { randomSeed } from '../utils/random';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ArrowDown, ArrowUp, Download, Play, Plus, SlidersHorizontal, Square, X } from 'lucide-react';
+
+interface SweepPanelProps {
+  config: SimulationConfig;
+}
+
+// A dimension being edited, with the grid values as typed
+interface DimensionDraft extends SweepDimension {
+  label: string;
+  text: string;
+}
+
+type SortKey = 'config' | 'finalReturn' | 'episodesToSolve' | string; // or a dimension id
+
+const CURVE_COLORS = ['#4f46e5', '#d97706', '#059669', '#dc2626', '#7c3aed'];
+// Configurations whose learning curves are drawn
+const BEST_CURVES = 5;
+// Chart rows beyond this are thinned out
+const MAX_CHART_POINTS = 400;
+
+const baseAgentConfig = (algorithm: AgentAlgorithm): AgentConfig =>
+  algorithm === 'dqn' ? DEFAULT_DQN_CONFIG : { ...DEFAULT_TABULAR_CONFIG, algorithm };
+
+const parseValues = (text: string): number[] | null => {
+  const values = text.split(',').filter((part) => part.trim() !== '').map((part) => parseFloat(part));
+  return values.length > 0 && values.every(Number.isFinite) ? values : null;
+};
+
+const formatValue = (value: number | undefined) =>
+  value === undefined ? '–' : Number.isInteger(value) ? String(value) : value.toPrecision(3);
+
+const formatInterval = (mean: number, halfWidth: number, n: number, decimals: number) =>
+  Number.isNaN(mean) ? '–' : n > 1 ? `${mean.toFixed(decimals)} ± ${halfWidth.toFixed(decimals)}` : mean.toFixed(decimals);
+
+// Starts a new dimension around the value currently in use
+const draftFor = (parameter: SweepParameter, current: number): DimensionDraft => {
+  const clamp = (v: number) => Math.min(parameter.max, Math.max(parameter.min, v));
+  const around = parameter.logScale && current > 0 ? [current / 10, current, current * 10] : [current];
+  const values = [...new Set(around.map(clamp).map((v) => (parameter.integer ? Math.round(v) : v)))];
+  return {
+    target: parameter.target,
+    key: parameter.key,
+    label: parameter.label,
+    values,
+    min: parameter.logScale && current > 0 ? clamp(current / 10) : parameter.min,
+    max: parameter.logScale && current > 0 ? clamp(current * 10) : parameter.max,
+    logScale: parameter.logScale,
+    integer: parameter.integer,
+    text: values.map(formatValue).join(', '),
+  };
+};
+
+const SweepPanel: React.FC<SweepPanelProps> = ({ config }) => {
+  const [algorithm, setAlgorithm] = useState<AgentAlgorithm>('q-learning');
+  const [settings, setSettings] = useState<SweepSettings>(DEFAULT_SWEEP_SETTINGS);
+  const [dimensions, setDimensions] = useState<DimensionDraft[]>([]);
+  const [adding, setAdding] = useState('');
+  const [running, setRunning] = useState(false);
+  const [spec, setSpec] = useState<SweepSpec | null>(null);
+  const [configs, setConfigs] = useState<SweepValues[]>([]);
+  const [seeds, setSeeds] = useState<number[]>([]);
+  const [trials, setTrials] = useState<SweepTrial[]>([]);
+  const [progress, setProgress] = useState<{ trial: number; episode: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('finalReturn');
+  const [sortDescending, setSortDescending] = useState(true);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Sweeps get their own worker, so a sweep and a training run can go on side by side
+  useEffect(() => {
+    const worker = new Worker(new URL('../utils/sweep.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<SweepEvent>) => {
+      const event = e.data;
+      switch (event.type) {
+        case 'status':
+          setRunning(event.status === 'running');
+          if (event.status !== 'running') setProgress(null);
+          break;
+        case 'plan':
+          setConfigs(event.configs);
+          setSeeds(event.seeds);
+          break;
+        case 'progress':
+          setProgress({ trial: event.trial, episode: event.episode });
+          break;
+        case 'trial':
+          setTrials((prev) => [...prev, event.trial]);
+          break;
+        case 'error':
+          setError(event.message);
+          setRunning(false);
+          setProgress(null);
+          break;
+      }
+    };
+    workerRef.current = worker;
+    return () => worker.terminate();
+  }, []);
+
+  const parameters = useMemo(() => sweepParameters(algorithm), [algorithm]);
+  const available = parameters.filter((p) => !dimensions.some((d) => dimensionId(d) === dimensionId(p)));
+  const agentConfig = baseAgentConfig(algorithm);
+
+  const handleAlgorithmChange = (next: AgentAlgorithm) => {
+    setAlgorithm(next);
+    // Hyperparameters the new algorithm lacks are dropped
+    const allowed = sweepParameters(next);
+    setDimensions(dimensions.filter((d) => allowed.some((p) => dimensionId(p) === dimensionId(d))));
+  };
+
+  const handleAdd = () => {
+    const parameter = available.find((p) => dimensionId(p) === adding) ?? available[0];
+    if (!parameter) return;
+    const source: Record<string, unknown> = parameter.target === 'agent' ? { ...agentConfig } : { ...config };
+    setDimensions([...dimensions, draftFor(parameter, source[parameter.key] as number)]);
+    setAdding('');
+  };
+
+  const updateDimension = (index: number, changes: Partial<DimensionDraft>) => {
+    setDimensions(dimensions.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  const handleValuesText = (index: number, text: string) => {
+    const values = parseValues(text);
+    updateDimension(index, values ? { text, values } : { text });
+  };
+
+  const updateSetting = <K extends keyof SweepSettings>(key: K, value: SweepSettings[K]) => {
+    setSettings({ ...settings, [key]: value });
+  };
+
+  const random = settings.mode === 'random';
+  const configCount = countConfigs({ mode: settings.mode, samples: settings.samples, dimensions });
+  const invalid = dimensions.some((d) => (random ? !(d.min <= d.max) : parseValues(d.text) === null));
+  const tooLarge = configCount > MAX_SWEEP_CONFIGS;
+
+  const handleRun = () => {
+    const next: SweepSpec = {
+      ...settings,
+      agentConfig,
+      simConfig: config,
+      dimensions: dimensions.map(({ target, key, values, min, max, logScale, integer }) => ({
+        target,
+        key,
+        values,
+        min,
+        max,
+        logScale,
+        integer,
+      })),
+      seed: randomSeed(),
+    };
+    setSpec(next);
+    setConfigs([]);
+    setSeeds([]);
+    setTrials([]);
+    setError(null);
+    workerRef.current?.postMessage({ type: 'start', spec: next });
+  };
+
+  const handleStop = () => workerRef.current?.postMessage({ type: 'stop' });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) setSortDescending(!sortDescending);
+    else {
+      setSortKey(key);
+      // Higher returns are better, fewer episodes to solve are better
+      setSortDescending(key === 'finalReturn');
+    }
+  };
+
+  const summaries = useMemo(() => summariseSweep(configs, trials), [configs, trials]);
+
+  const sorted = useMemo(() => {
+    const valueOf = (s: SweepSummary): number => {
+      if (sortKey === 'config') return s.configIndex;
+      if (sortKey === 'finalReturn') return s.finalReturn.mean;
+      if (sortKey === 'episodesToSolve') return s.episodesToSolve.mean;
+      return s.values[sortKey];
+    };
+    // Configurations without a value (never solved) go last either way
+    return [...summaries].sort((a, b) => {
+      const va = valueOf(a);
+      const vb = valueOf(b);
+      if (Number.isNaN(va) || va === undefined) return 1;
+      if (Number.isNaN(vb) || vb === undefined) return -1;
+      return sortDescending ? vb - va : va - vb;
+    });
+  }, [summaries, sortKey, sortDescending]);
+
+  // Learning curves of the configurations with the highest final return, averaged over seeds
+  const best = useMemo(
+    () => [...summaries].sort((a, b) => b.finalReturn.mean - a.finalReturn.mean).slice(0, BEST_CURVES),
+    [summaries]
+  );
+  const curveRows = useMemo(() => {
+    const curves = best.map((s) =>
+      rollingStats(meanLearningCurve(trials.filter((t) => t.configIndex === s.configIndex)), 20).map((p) => p.mean)
+    );
+    const length = Math.max(0, ...curves.map((c) => c.length));
+    const rows = Array.from({ length }, (_, i) => {
+      const row: Record<string, number> = { episode: i + 1 };
+      best.forEach((s, k) => {
+        if (i < curves[k].length) row[`config${s.configIndex}`] = curves[k][i];
+      });
+      return row;
+    });
+    return downsample(rows, MAX_CHART_POINTS);
+  }, [best, trials]);
+
+  const swept = spec?.dimensions ?? [];
+  const describe = (values: SweepValues) =>
+    swept.map((d) => `${d.key}=${formatValue(values[dimensionId(d)])}`).join(', ') || 'base config';
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!spec) return;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'csv') downloadText(`cartpole-sweep-${stamp}.csv`, sweepToCsv(spec.dimensions, summaries), 'text/csv');
+    else downloadText(`cartpole-sweep-${stamp}.json`, sweepToJson(spec, configs, trials));
+  };
+
+  const totalTrials = configs.length * seeds.length;
+  const sortArrow = (key: SortKey) =>
+    sortKey === key ? sortDescending ? <ArrowDown size={12} className="inline" /> : <ArrowUp size={12} className="inline" /> : null;
+
+  return (
+    <div className="w-full bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center gap-2 mb-6 border-b pb-2">
+        <SlidersHorizontal className="text-indigo-600" />
+        <h2 className="text-lg font-bold text-gray-800">Hyperparameter Sweep</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Trains every combination of the swept values from several seeds, in the background and without rendering,
+        then plays each trained agent greedily. Every combination uses the same seeds. Hyperparameters that are not
+        swept keep their defaults and config fields keep their current values.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Algorithm</label>
+          <select
+            value={algorithm}
+            disabled={running}
+            onChange={(e) => handleAlgorithmChange(e.target.value as AgentAlgorithm)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+          >
+            <option value="q-learning">Q-Learning</option>
+            <option value="sarsa">SARSA</option>
+            <option value="dqn">DQN</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-gray-500 uppercase">Search</label>
+          <select
+            value={settings.mode}
+            disabled={running}
+            onChange={(e) => updateSetting('mode', e.target.value as SweepSettings['mode'])}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+          >
+            <option value="grid">Grid (every combination)</option>
+            <option value="random">Random (sampled from ranges)</option>
+          </select>
+        </div>
+        {random && (
+          <SliderField label="Random Samples" value={settings.samples} min={1} max={100} step={1}
+            disabled={running} onChange={(v) => updateSetting('samples', v)} />
+        )}
+        <SliderField label="Seeds per Config" value={settings.seeds} min={1} max={10} step={1}
+          disabled={running} onChange={(v) => updateSetting('seeds', v)} />
+        <SliderField label="Training Episodes" value={settings.episodes} min={50} max={5000} step={50}
+          disabled={running} onChange={(v) => updateSetting('episodes', v)} />
+        <SliderField label="Evaluation Episodes" value={settings.evalEpisodes} min={1} max={50} step={1}
+          disabled={running} onChange={(v) => updateSetting('evalEpisodes', v)} />
+        <SliderField label="Solved at Mean Return" value={settings.solveThreshold} min={10} max={1000} step={5}
+          disabled={running} onChange={(v) => updateSetting('solveThreshold', v)} />
+        <SliderField label="Over N Episodes" value={settings.solveWindow} min={1} max={200} step={1}
+          disabled={running} onChange={(v) => updateSetting('solveWindow', v)} />
+      </div>
+
+      {/* Swept dimensions */}
+      <table className="w-full text-sm mb-3">
+        <thead>
+          <tr className="text-xs text-gray-500 uppercase text-left border-b">
+            <th className="py-1">Parameter</th>
+            {random ? (
+              <>
+                <th className="py-1">Min</th>
+                <th className="py-1">Max</th>
+                <th className="py-1">Log Scale</th>
+              </>
+            ) : (
+              <th className="py-1">Values (comma separated)</th>
+            )}
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {dimensions.map((d, i) => (
+            <tr key={dimensionId(d)} className="border-b border-gray-100">
+              <td className="py-1">
+                {d.label} <span className="text-xs text-gray-400">{d.target === 'agent' ? 'agent' : 'config'}</span>
+              </td>
+              {random ? (
+                <>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      value={d.min}
+                      disabled={running}
+                      onChange={(e) => updateDimension(i, { min: parseFloat(e.target.value) })}
+                      className="w-28 px-2 py-0.5 border border-gray-300 rounded font-mono text-sm disabled:opacity-50"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      value={d.max}
+                      disabled={running}
+                      onChange={(e) => updateDimension(i, { max: parseFloat(e.target.value) })}
+                      className={`w-28 px-2 py-0.5 border rounded font-mono text-sm disabled:opacity-50 ${d.min <= d.max ? 'border-gray-300' : 'border-red-400'}`}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <input
+                      type="checkbox"
+                      checked={d.logScale}
+                      disabled={running || d.min <= 0}
+                      onChange={(e) => updateDimension(i, { logScale: e.target.checked })}
+                      className="accent-indigo-600"
+                    />
+                  </td>
+                </>
+              ) : (
+                <td className="py-1 pr-2">
+                  <input
+                    type="text"
+                    value={d.text}
+                    disabled={running}
+                    onChange={(e) => handleValuesText(i, e.target.value)}
+                    className={`w-full px-2 py-0.5 border rounded font-mono text-sm disabled:opacity-50 ${parseValues(d.text) ? 'border-gray-300' : 'border-red-400'}`}
+                  />
+                </td>
+              )}
+              <td className="py-1 text-right">
+                <button
+                  onClick={() => setDimensions(dimensions.filter((_, j) => j !== i))}
+                  disabled={running}
+                  title="Stop sweeping this parameter"
+                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                >
+                  <X size={14} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center gap-2 mb-6">
+        <select
+          value={adding}
+          disabled={running || available.length === 0}
+          onChange={(e) => setAdding(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+        >
+          {available.map((p) => (
+            <option key={dimensionId(p)} value={dimensionId(p)}>
+              {p.label} ({p.target === 'agent' ? 'agent' : 'config'})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={running || available.length === 0}
+          className="flex items-center gap-2 px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50 text-sm"
+        >
+          <Plus size={14} /> Sweep Parameter
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-500 font-mono">
+          {error && <div className="text-red-600">Sweep failed: {error}</div>}
+          {running && progress
+            ? `Run ${progress.trial + 1}/${totalTrials} · episode ${progress.episode}/${spec?.episodes ?? 0}`
+            : `${configCount} configurations × ${settings.seeds} seeds = ${configCount * settings.seeds} training runs`}
+          {tooLarge && <div className="text-red-600">At most {MAX_SWEEP_CONFIGS} configurations per sweep.</div>}
+        </div>
+        {running ? (
+          <button
+            onClick={handleStop}
+            className="flex items-center gap-2 px-4 py-2 bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors"
+          >
+            <Square size={16} /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={invalid || tooLarge || configCount === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <Play size={16} /> Run Sweep
+          </button>
+        )}
+      </div>
+
+      {summaries.length > 0 && (
+        <>
+          <table className="w-full text-sm mt-6 mb-2">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase text-left border-b">
+                <th className="py-1 cursor-pointer" onClick={() => handleSort('config')}>
+                  # {sortArrow('config')}
+                </th>
+                {swept.map((d) => (
+                  <th key={dimensionId(d)} className="py-1 text-right cursor-pointer" onClick={() => handleSort(dimensionId(d))}>
+                    {d.key} {sortArrow(dimensionId(d))}
+                  </th>
+                ))}
+                <th className="py-1 text-right">Runs</th>
+                <th className="py-1 text-right cursor-pointer" onClick={() => handleSort('finalReturn')}>
+                  Final Return {sortArrow('finalReturn')}
+                </th>
+                <th className="py-1 text-right cursor-pointer" onClick={() => handleSort('episodesToSolve')}>
+                  Episodes to Solve {sortArrow('episodesToSolve')}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-gray-700">
+              {sorted.map((s) => (
+                <tr key={s.configIndex} className="border-b border-gray-100">
+                  <td className="py-1">{s.configIndex + 1}</td>
+                  {swept.map((d) => (
+                    <td key={dimensionId(d)} className="py-1 text-right">
+                      {formatValue(s.values[dimensionId(d)])}
+                    </td>
+                  ))}
+                  <td className="py-1 text-right">{s.runs}</td>
+                  <td className="py-1 text-right">
+                    {formatInterval(s.finalReturn.mean, s.finalReturn.halfWidth, s.finalReturn.n, 1)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {formatInterval(s.episodesToSolve.mean, s.episodesToSolve.halfWidth, s.episodesToSolve.n, 0)}
+                    <span className="text-xs text-gray-400"> ({s.solved}/{s.runs} solved)</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mb-6">
+            Mean ± 95% confidence interval over seeds. Final return is the mean over {spec?.evalEpisodes} greedy
+            episodes after training; episodes to solve counts only the runs that reached a mean training return of{' '}
+            {spec?.solveThreshold} over {spec?.solveWindow} episodes. Click a column to sort.
+          </p>
+
+          <div className="h-72 mb-10">
+            <h3 className="text-sm font-semibold text-center text-gray-500 mb-2">
+              Training Return of the Best {best.length} Configurations (mean over seeds, 20-episode average)
+            </h3>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={curveRows}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#eee" />
+                <XAxis dataKey="episode" type="number" domain={['dataMin', 'dataMax']} />
+                <YAxis />
+                <Tooltip labelFormatter={(label) => `Episode: ${label}`} formatter={(value: number) => value.toFixed(1)} />
+                <Legend />
+                {spec && <ReferenceLine y={spec.solveThreshold} stroke="#10b981" strokeDasharray="4 4" />}
+                {best.map((s, k) => (
+                  <Line
+                    key={s.configIndex}
+                    type="monotone"
+                    dataKey={`config${s.configIndex}`}
+                    name={`#${s.configIndex + 1} ${describe(s.values)}`}
+                    stroke={CURVE_COLORS[k % CURVE_COLORS.length]}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleExport('csv')}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+            >
+              <Download size={16} /> Export Table (CSV)
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              <Download size={16} /> Export Everything (JSON)
+            </button>
+            <span className="text-xs text-gray-400">
+              {trials.length}/{totalTrials} runs finished
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SweepPanel;
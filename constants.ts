@@ -1,4 +1,16 @@
-import { SimulationConfig } from './types';
+import {
+  BehaviourCloningConfig,
+  ConfigPreset,
+  DemonstrationFilter,
+  DoubleCartPoleConfig,
+  DqnAgentConfig,
+  LqrWeights,
+  PidGains,
+  RobustnessSettings,
+  SimulationConfig,
+  SweepSettings,
+  TabularAgentConfig,
+} from './types';
 
 export const DEFAULT_CONFIG: SimulationConfig = {
   gravity: 9.8,
@@ -6,12 +18,203 @@ export const DEFAULT_CONFIG: SimulationConfig = {
   poleMass: 0.1,
   poleLength: 1.5, // Increased length significantly for slower dynamics
   forceMag: 10.0,
-  tau: 0.008, // Significantly reduced time step for slow-motion effect
+  tau: 0.008, // Small time step for accurate integration; playback speed is set separately
   maxSteps: 1000, 
   xThreshold: 2.4,
   thetaThresholdDegrees: 24, 
+  task: 'balance',
+  actionSpace: 'discrete-2',
+  integrator: 'euler',
+  cartFriction: 0,
+  poleFriction: 0,
+  windMode: 'none',
+  windForce: 0.2,
+  windPeriod: 4.0,
+  kickRate: 0,
+  kickImpulse: 0.02,
+  actuatorNoiseStd: 0,
+  rewardSurvival: 1,
+  rewardAnglePenalty: 0,
+  rewardCentrePenalty: 0,
+  rewardEffortPenalty: 0,
+  rewardFallPenalty: 0,
+  rewardOutOfBoundsPenalty: 0,
+  rewardSuccessBonus: 0,
 };
 
+export const CONFIG_PRESETS: ConfigPreset[] = [
+  {
+    name: 'Gym classic',
+    description: 'CartPole-v1 as published: 0.5 m half-length, 20 ms steps, 12° failure angle.',
+    config: {
+      ...DEFAULT_CONFIG,
+      poleLength: 0.5,
+      tau: 0.02,
+      maxSteps: 500,
+      thetaThresholdDegrees: 12,
+    },
+  },
+  {
+    name: 'Barto 1983',
+    description: 'Gym classic with the cart and pivot friction used by Barto, Sutton & Anderson.',
+    config: {
+      ...DEFAULT_CONFIG,
+      poleLength: 0.5,
+      tau: 0.02,
+      maxSteps: 500,
+      thetaThresholdDegrees: 12,
+      cartFriction: 0.0005,
+      poleFriction: 0.000002,
+    },
+  },
+  {
+    name: 'Slow-mo demo',
+    description: 'Long pole and generous failure angle; forgiving enough to play by hand.',
+    config: DEFAULT_CONFIG,
+  },
+  {
+    name: 'Hard',
+    description: 'Short, fast pole, tight angle and a narrow track.',
+    config: {
+      ...DEFAULT_CONFIG,
+      poleLength: 0.3,
+      tau: 0.01,
+      xThreshold: 1.6,
+      thetaThresholdDegrees: 10,
+    },
+  },
+  {
+    name: 'Swing-up',
+    description: 'Gym-sized pole that starts hanging down; swing it up and hold it. RK4 keeps fast rotations accurate.',
+    config: {
+      ...DEFAULT_CONFIG,
+      poleLength: 0.5,
+      tau: 0.01,
+      maxSteps: 1000,
+      integrator: 'rk4',
+      task: 'swingup',
+    },
+  },
+];
+
+export const DEFAULT_DOUBLE_CONFIG: DoubleCartPoleConfig = {
+  gravity: 9.8,
+  cartMass: 1.0,
+  pole1Mass: 0.1,
+  pole1Length: 0.5,
+  pole2Mass: 0.1,
+  pole2Length: 0.5,
+  forceMag: 10.0,
+  tau: 0.005, // The upper pole moves fast; RK4 at 5 ms keeps it accurate
+  maxSteps: 2000,
+  xThreshold: 2.4,
+  thetaThresholdDegrees: 24,
+  actionSpace: 'discrete-2',
+  integrator: 'rk4',
+};
+
+export const DOUBLE_CONFIG_PRESETS: ConfigPreset<DoubleCartPoleConfig>[] = [
+  {
+    name: 'Standard',
+    description: 'Two equal 1 m poles on a 1 kg cart.',
+    config: DEFAULT_DOUBLE_CONFIG,
+  },
+  {
+    name: 'Long lower pole',
+    description: 'A 2 m lower pole with a short upper one; slower, and easier to watch.',
+    config: {
+      ...DEFAULT_DOUBLE_CONFIG,
+      pole1Length: 1.0,
+      pole2Length: 0.25,
+      pole2Mass: 0.05,
+    },
+  },
+];
+
+export const DEFAULT_TABULAR_CONFIG: TabularAgentConfig = {
+  algorithm: 'q-learning',
+  bins: [3, 3, 8, 6],
+  learningRate: 0.1,
+  discount: 0.99,
+  epsilonStart: 1.0,
+  epsilonMin: 0.01,
+  epsilonDecay: 0.995,
+};
+
+export const DEFAULT_DQN_CONFIG: DqnAgentConfig = {
+  algorithm: 'dqn',
+  hiddenLayers: [64, 64],
+  activation: 'relu',
+  optimizer: 'adam',
+  learningRate: 0.001,
+  discount: 0.99,
+  batchSize: 32,
+  bufferSize: 50000,
+  warmupSteps: 1000,
+  targetSyncInterval: 500,
+  huberDelta: 1.0,
+  epsilonStart: 1.0,
+  epsilonMin: 0.05,
+  epsilonDecay: 0.98,
+};
+
+export const DEFAULT_DEMONSTRATION_FILTER: DemonstrationFilter = {
+  sameConfigOnly: true,
+  minSteps: 50,
+  bestCount: 0,
+  trimFailureSteps: 10,
+};
+
+export const DEFAULT_CLONING_CONFIG: BehaviourCloningConfig = {
+  model: 'mlp',
+  hiddenUnits: 16,
+  epochs: 30,
+  learningRate: 0.01,
+  batchSize: 32,
+  validationSplit: 0.2,
+};
+
+export const DEFAULT_SWEEP_SETTINGS: SweepSettings = {
+  mode: 'grid',
+  samples: 10,
+  seeds: 3,
+  episodes: 500,
+  evalEpisodes: 10,
+  solveThreshold: 195,
+  solveWindow: 50,
+};
+
+export const DEFAULT_ROBUSTNESS_SETTINGS: RobustnessSettings = {
+  mode: 'grid',
+  x: { key: 'poleLength', min: 0.25, max: 2 },
+  y: { key: 'poleMass', min: 0.05, max: 1 },
+  resolution: 8,
+  samples: 200,
+  episodes: 5,
+};
+
+export const DEFAULT_PID_GAINS: PidGains = {
+  kp: 50,
+  ki: 0,
+  kd: 10,
+  kpX: 1,
+  kdX: 2,
+};
+
+export const DEFAULT_LQR_WEIGHTS: LqrWeights = {
+  q: [1, 1, 10, 1],
+  r: 0.1,
+};
+
+// Playback speed multipliers offered by the simulation (simulated seconds per real second)
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+// Half speed keeps the slow-motion feel the demo had when it stepped once per 60 Hz frame
+export const DEFAULT_PLAYBACK_SPEED = 0.5;
+
+// Observation ranges used when discretising; values beyond fall into the edge buckets
+export const MAX_CART_SPEED = 3.0; // m/s
+export const MAX_POLE_SPEED = 3.5; // rad/s
+
 // Visualization Scale
 export const SCALE_METERS_TO_PIXELS = 100;
 export const CANVAS_WIDTH = 800;
@@ -0,0 +1,109 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  BRIDGE_DEFAULT_PORT,
+  BRIDGE_PROTOCOL_VERSION,
+  BridgeMessage,
+  BridgeRequestError,
+  BridgeSession,
+  RenderFrame,
+  parseBridgeRequest,
+} from '../utils/bridge';
+
+/**
+ * Headless CartPole for external agents: `npm run bridge [-- --port 8765]`.
+ * Each agent connection gets its own environment running the same physics
+ * as the app; connected viewers (the app in external mode) are sent a frame
+ * after every reset and step. The server only listens on the loopback
+ * interface and refuses browser pages that are not served from localhost.
+ */
+
+// A viewer further behind than this skips frames rather than queueing them (episode ends are always sent)
+const MAX_VIEWER_BUFFER_BYTES = 1 << 20;
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const parsePort = (): number => {
+  const flag = process.argv.indexOf('--port');
+  const raw = flag >= 0 ? process.argv[flag + 1] : process.env.BRIDGE_PORT;
+  const port = raw === undefined ? BRIDGE_DEFAULT_PORT : parseInt(raw, 10);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    console.error(`Invalid port ${JSON.stringify(raw)}`);
+    process.exit(1);
+  }
+  return port;
+};
+
+// Python clients send no Origin; browsers always do, and only local pages may connect
+const isLocalOrigin = (origin: string | undefined): boolean => {
+  if (!origin) return true;
+  try {
+    return LOCAL_HOSTS.includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+const port = parsePort();
+const viewers = new Set<WebSocket>();
+let sessionCount = 0;
+
+const send = (socket: WebSocket, message: BridgeMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (frame: RenderFrame) => {
+  for (const viewer of viewers) {
+    if (viewer.bufferedAmount > MAX_VIEWER_BUFFER_BYTES && !frame.state.done) continue;
+    send(viewer, frame);
+  }
+};
+
+const server = new WebSocketServer({
+  host: '127.0.0.1',
+  port,
+  verifyClient: ({ origin }: { origin: string | undefined }) => isLocalOrigin(origin),
+});
+
+server.on('connection', (socket) => {
+  // Every connection starts as an agent; a viewer's hello drops its session
+  let session: BridgeSession | null = new BridgeSession(++sessionCount);
+  console.log(`session ${session.id} connected`);
+
+  socket.on('message', (data) => {
+    let id: string | number | undefined;
+    try {
+      const request = parseBridgeRequest(data.toString());
+      id = request.id;
+      if (request.type === 'hello') {
+        if (request.role === 'viewer' && session) {
+          console.log(`session ${session.id} is a viewer`);
+          session = null;
+          viewers.add(socket);
+        }
+        send(socket, { type: 'hello', id, role: request.role, version: BRIDGE_PROTOCOL_VERSION, session: session?.id ?? null });
+        return;
+      }
+      if (!session) throw new Error('Viewers cannot control the environment');
+      send(socket, session.handle(request));
+      if (request.type === 'reset' || request.type === 'step') broadcast(session.frame());
+    } catch (err) {
+      // A request that failed its checks still has its id echoed, when it had a valid one
+      if (err instanceof BridgeRequestError) id = err.id;
+      send(socket, { type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  socket.on('close', () => {
+    viewers.delete(socket);
+    if (session) console.log(`session ${session.id} closed`);
+  });
+});
+
+server.on('listening', () => {
+  console.log(`CartPole bridge (protocol v${BRIDGE_PROTOCOL_VERSION}) listening on ws://localhost:${port}`);
+});
+
+server.on('error', (err) => {
+  console.error(err.message);
+  process.exit(1);
+});
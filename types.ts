@@ -7,9 +7,61 @@ export interface SimulationConfig {
   tau: number; // seconds between state updates
   maxSteps: number;
   xThreshold: number; // limit of track from center
-  thetaThresholdDegrees: number; // fail angle
+  thetaThresholdDegrees: number; // fail angle (balance task only)
+  task: Task;
+  actionSpace: ActionSpace;
+  integrator: Integrator;
+  // Friction (Barto, Sutton & Anderson 1983); 0 gives the frictionless Gym dynamics
+  cartFriction: number; // Coulomb friction between cart and track, μc (N)
+  poleFriction: number; // viscous friction at the pivot, μp (N·m·s)
+  // Disturbances
+  windMode: WindMode;
+  windForce: number; // gust strength, or standard deviation of random wind (N)
+  windPeriod: number; // gust cycle, or correlation time of random wind (s)
+  kickRate: number; // expected impulse kicks on the pole per second
+  kickImpulse: number; // impulse of each kick (N·s)
+  actuatorNoiseStd: number; // Gaussian noise added to the applied force (N)
+  // Reward weights (see utils/reward.ts); the defaults give +1 per step
+  rewardSurvival: number; // weight of the task reward earned every step
+  rewardAnglePenalty: number; // per rad² of pole angle
+  rewardCentrePenalty: number; // per m² of distance from the track centre
+  rewardEffortPenalty: number; // per (force / forceMag)²
+  rewardFallPenalty: number; // subtracted on the step the pole falls
+  rewardOutOfBoundsPenalty: number; // subtracted on the step the cart leaves the track
+  rewardSuccessBonus: number; // added on the step the episode reaches maxSteps
 }
 
+// The SimulationConfig fields holding numbers, the ones that can be swept, randomised or mapped
+export type NumericConfigKey = {
+  [K in keyof SimulationConfig]: SimulationConfig[K] extends number ? K : never;
+}[keyof SimulationConfig];
+
+// balance: start upright and keep it there; swingup: start hanging down, swing up and hold
+export type Task = 'balance' | 'swingup';
+
+// none: still air; scheduled: wind alternates direction every half period; random: correlated random wind
+export type WindMode = 'none' | 'scheduled' | 'random';
+
+// External effects acting during one step, drawn by the environment from its random stream
+export interface Disturbance {
+  actuatorNoise: number; // added to the commanded cart force (N)
+  wind: number; // horizontal force at the pole's centre of mass (N)
+  kick: number; // horizontal impulse on the pole's centre of mass this step (N·s); 0 when none
+}
+
+// Numerical scheme used to advance the equations of motion by one tau
+export type Integrator = 'euler' | 'semi-implicit-euler' | 'rk4';
+
+// A named, ready-made config offered in the config panel
+export interface ConfigPreset<C = SimulationConfig> {
+  name: string;
+  description: string;
+  config: C;
+}
+
+// discrete-2: push left/right (bang-bang); discrete-3: adds zero force; continuous: any force in [-forceMag, forceMag]
+export type ActionSpace = 'discrete-2' | 'discrete-3' | 'continuous';
+
 export interface SimulationState {
   x: number; // cart position (meters)
   xDot: number; // cart velocity
@@ -20,14 +72,403 @@ export interface SimulationState {
   terminatedCode: 'running' | 'pole_fell' | 'out_of_bounds' | 'max_steps' | 'manual_stop';
 }
 
+// The continuous part of the state that the equations of motion act on
+export type PhysicalState = Pick<SimulationState, 'x' | 'xDot' | 'theta' | 'thetaDot'>;
+
+// --- Double inverted pendulum ---
+
+// Which simulated system is on screen
+export type EnvironmentKind = 'cartpole' | 'double-cartpole';
+
+// A cart carrying two uniform poles linked end to end; pole 1 is hinged on the cart, pole 2 on top of pole 1
+export interface DoubleCartPoleConfig {
+  gravity: number;
+  cartMass: number;
+  pole1Mass: number;
+  pole1Length: number; // half-length, as in SimulationConfig
+  pole2Mass: number;
+  pole2Length: number; // half-length
+  forceMag: number;
+  tau: number;
+  maxSteps: number;
+  xThreshold: number;
+  thetaThresholdDegrees: number; // fail angle, for either pole measured from vertical
+  actionSpace: ActionSpace;
+  integrator: Integrator;
+}
+
+export interface DoubleCartPoleState {
+  x: number;
+  xDot: number;
+  theta1: number; // lower pole angle from vertical (radians)
+  theta1Dot: number;
+  theta2: number; // upper pole angle from vertical (absolute, not relative to pole 1)
+  theta2Dot: number;
+  done: boolean;
+  steps: number;
+  terminatedCode: SimulationState['terminatedCode'];
+}
+
+export type DoublePhysicalState = Omit<DoubleCartPoleState, 'done' | 'steps' | 'terminatedCode'>;
+
+// Any environment's config / state; the fields every environment shares are usable without narrowing
+export type EnvironmentConfig = SimulationConfig | DoubleCartPoleConfig;
+export type EnvironmentState = SimulationState | DoubleCartPoleState;
+
 export interface StepHistory {
   step: number;
   x: number;
+  xDot: number;
   theta: number;
-  action: number; // -1 (left) or 1 (right)
+  thetaDot: number;
+  action: number; // force actually applied to the cart (N)
+  reward: number;
+  return: number; // reward summed over the episode up to and including this step
+  xAcc: number; // accelerations at the start of the step, under the applied force
+  thetaAcc: number;
+  terminatedCode: SimulationState['terminatedCode']; // 'running' until the final step
+  // Upper pole of the double pendulum; theta / thetaDot / thetaAcc then describe the lower pole
+  theta2?: number;
+  theta2Dot?: number;
+  theta2Acc?: number;
+}
+
+// One episode's step history plus where it came from, for analysis and export
+export interface EpisodeTrace {
+  id: number;
+  label: string;
+  environment: EnvironmentKind;
+  config: EnvironmentConfig;
+  history: StepHistory[];
 }
 
 export enum Action {
   LEFT = 0,
   RIGHT = 1,
-}
\ No newline at end of file
+  NONE = 2, // coast; only valid in the discrete-3 space
+}
+
+// What env.step() accepts: an Action in the discrete spaces, a force in newtons in the continuous one
+export type EnvAction = Action | number;
+
+// Observation vector handed to agents: [x, xDot, theta, thetaDot]
+// (double pendulum: [x, xDot, theta1, theta1Dot, theta2, theta2Dot])
+export type Observation = number[];
+
+export interface StepInfo<S = SimulationState> {
+  steps: number;
+  force: number; // commanded force (N); the cart feels it plus disturbance.actuatorNoise; 0 after reset
+  disturbance: Disturbance; // disturbances acting during the step
+  terminatedCode: SimulationState['terminatedCode'];
+  state: S;
+}
+
+export interface StepResult<S = SimulationState> {
+  observation: Observation;
+  reward: number;
+  terminated: boolean; // episode ended by failure (pole fell / cart off track)
+  truncated: boolean; // episode cut off by the step limit
+  info: StepInfo<S>;
+}
+
+export interface ResetResult<S = SimulationState> {
+  observation: Observation;
+  info: StepInfo<S>;
+}
+
+// The Gym-style interface every environment implements
+export interface Environment<C, S> {
+  getConfig(): C;
+  setConfig(config: C): void;
+  getState(): S;
+  getSeed(): number;
+  reset(seed?: number): ResetResult<S>;
+  step(action: EnvAction): StepResult<S>;
+}
+
+// --- Episode recordings ---
+
+export interface RecordedStep<S = SimulationState> {
+  action: EnvAction; // action passed to env.step()
+  force: number; // force it resolved to (N)
+  disturbance?: Disturbance; // absent in files recorded before disturbances existed
+  state: S; // state after the step
+}
+
+// A complete episode as saved to / loaded from an episode file
+export interface EpisodeRecording<C = SimulationConfig, S = SimulationState> {
+  version: number;
+  recordedAt: string; // ISO timestamp
+  environment?: EnvironmentKind; // absent in files from before there was a choice (single CartPole)
+  controller: string; // 'Human' or the policy's name
+  config: C; // config at the start of the episode
+  seed: number;
+  initialState: S;
+  steps: RecordedStep<S>[];
+}
+
+// A controller that maps observations to actions (human play excluded)
+export interface Policy {
+  name: string;
+  act(observation: Observation): EnvAction;
+  value?(observation: Observation): number; // estimated return from this state, where the policy learns one
+  reset?(): void; // clears per-episode internal state (e.g. an integral term)
+  actionSpace?: ActionSpace; // space its actions were learned in; absent when it adapts to the config
+}
+
+// PID on pole angle plus PD on cart position; u = kp·θ + ki·∫θ + kd·θ̇ + kpX·x + kdX·ẋ
+export interface PidGains {
+  kp: number;
+  ki: number;
+  kd: number;
+  kpX: number;
+  kdX: number;
+}
+
+// Diagonal LQR cost: Σ sᵀ diag(q) s + r·u²
+export interface LqrWeights {
+  q: [number, number, number, number]; // x, xDot, theta, thetaDot
+  r: number;
+}
+
+export interface Transition {
+  observation: Observation;
+  action: EnvAction;
+  reward: number;
+  nextObservation: Observation;
+  terminated: boolean; // true failure: do not bootstrap from nextObservation
+  nextAction: EnvAction | null; // on-policy action chosen in nextObservation (SARSA)
+}
+
+// A policy that can also learn from its own experience
+export interface Agent extends Policy {
+  readonly epsilon: number;
+  selectAction(observation: Observation, explore: boolean): EnvAction;
+  update(transition: Transition): number; // returns |TD error| or loss
+  endEpisode(): void;
+  snapshot(): AgentSnapshot; // learned parameters, plain data (structured-clone / JSON safe)
+}
+
+export type TabularAlgorithm = 'q-learning' | 'sarsa';
+
+export interface TabularAgentConfig {
+  algorithm: TabularAlgorithm;
+  bins: [number, number, number, number]; // buckets for x, xDot, theta, thetaDot
+  learningRate: number;
+  discount: number;
+  epsilonStart: number;
+  epsilonMin: number;
+  epsilonDecay: number; // multiplied into epsilon after every episode
+}
+
+export type Activation = 'relu' | 'tanh';
+export type OptimizerKind = 'sgd' | 'adam';
+
+export interface DqnAgentConfig {
+  algorithm: 'dqn';
+  hiddenLayers: number[]; // neurons per hidden layer
+  activation: Activation;
+  optimizer: OptimizerKind;
+  learningRate: number;
+  discount: number;
+  batchSize: number;
+  bufferSize: number; // replay buffer capacity (transitions)
+  warmupSteps: number; // transitions collected before learning starts
+  targetSyncInterval: number; // steps between target network syncs (K)
+  huberDelta: number;
+  epsilonStart: number;
+  epsilonMin: number;
+  epsilonDecay: number; // multiplied into epsilon after every episode
+}
+
+export type AgentConfig = TabularAgentConfig | DqnAgentConfig;
+export type AgentAlgorithm = AgentConfig['algorithm'];
+
+export interface EpisodeStats {
+  episode: number;
+  steps: number;
+  return: number;
+  terminatedCode: SimulationState['terminatedCode'];
+  epsilon?: number; // agent runs only
+  meanError?: number; // mean |TD error| or loss over the episode (agent runs only)
+}
+
+// A sequence of episodes shown together on the learning-curve dashboard
+export interface TrainingRun {
+  id: string;
+  label: string;
+  episodes: EpisodeStats[];
+}
+
+// Learned parameters of an agent, enough to rebuild its greedy policy
+export interface TabularAgentSnapshot {
+  config: TabularAgentConfig;
+  simConfig: SimulationConfig;
+  epsilon: number;
+  qTable: number[];
+}
+
+export interface DqnAgentSnapshot {
+  config: DqnAgentConfig;
+  simConfig: SimulationConfig;
+  epsilon: number;
+  weights: number[][]; // per layer, row-major [output][input]
+  biases: number[][];
+}
+
+export type AgentSnapshot = TabularAgentSnapshot | DqnAgentSnapshot;
+
+// A trained agent saved for later: its snapshot (parameters, hyperparameters and training config) plus how training went
+export interface AgentCheckpoint {
+  version: number;
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  snapshot: AgentSnapshot;
+  training: EpisodeStats[]; // every training episode, oldest first
+}
+
+// Which recorded human episodes become demonstrations for behaviour cloning
+export interface DemonstrationFilter {
+  sameConfigOnly: boolean; // only episodes played under the current config
+  minSteps: number; // drop episodes shorter than this
+  bestCount: number; // keep only the longest N episodes; 0 keeps every one that passes
+  trimFailureSteps: number; // steps dropped before a failure, where the human was already losing
+}
+
+export interface BehaviourCloningConfig {
+  model: 'logistic' | 'mlp'; // softmax regression, or one tanh hidden layer
+  hiddenUnits: number; // MLP only
+  epochs: number;
+  learningRate: number;
+  batchSize: number;
+  validationSplit: number; // fraction of episodes held out to measure generalisation
+}
+
+// Progress of one behaviour-cloning epoch
+export interface CloningEpoch {
+  epoch: number;
+  loss: number; // mean cross-entropy on the training samples
+  trainAccuracy: number; // share of training samples where the clone picks the human's action
+  validationAccuracy: number | null; // same on held-out episodes; null without a validation split
+}
+
+// One finished human attempt, for the progress chart
+export interface AttemptSummary {
+  at: string; // ISO timestamp
+  steps: number;
+  terminatedCode: SimulationState['terminatedCode'];
+}
+
+// Human play statistics for one environment + config, stored in the browser
+export interface PlayerStats {
+  key: string; // environment kind plus a hash of the config
+  environment: EnvironmentKind;
+  config: EnvironmentConfig;
+  bestScore: number; // most steps survived
+  attempts: number;
+  totalSteps: number; // over every attempt, for the average
+  terminations: Partial<Record<SimulationState['terminatedCode'], number>>;
+  history: AttemptSummary[]; // most recent attempts, oldest first
+  recordings: EpisodeRecording<EnvironmentConfig, EnvironmentState>[]; // replayable recent attempts, oldest first
+}
+
+// A config field drawn uniformly from [min, max] at every reset (domain randomisation)
+export interface ParameterRange {
+  key: NumericConfigKey;
+  min: number;
+  max: number;
+}
+
+// One axis of a robustness heatmap
+export interface RobustnessAxis {
+  key: NumericConfigKey;
+  min: number;
+  max: number;
+}
+
+export interface RobustnessSettings {
+  mode: 'grid' | 'random'; // evaluate at every cell centre, or at random points binned into cells
+  x: RobustnessAxis;
+  y: RobustnessAxis;
+  resolution: number; // cells per axis
+  samples: number; // random points
+  episodes: number; // greedy episodes per evaluated point
+}
+
+// A hyperparameter or config field varied by a sweep
+export interface SweepDimension {
+  target: 'agent' | 'env'; // agent hyperparameter or SimulationConfig field
+  key: string; // numeric field of the agent config or SimulationConfig
+  values: number[]; // grid search tries each of these
+  min: number; // random search draws from [min, max]
+  max: number;
+  logScale: boolean; // random search draws log-uniformly, for rates and sizes spanning decades
+  integer: boolean;
+}
+
+// Search settings of a sweep, apart from what is swept
+export interface SweepSettings {
+  mode: 'grid' | 'random';
+  samples: number; // configurations drawn by random search
+  seeds: number; // training runs per configuration
+  episodes: number; // training episodes per run
+  evalEpisodes: number; // greedy episodes scoring each trained agent
+  solveThreshold: number; // mean training return over `solveWindow` episodes that counts as solved
+  solveWindow: number;
+}
+
+export interface SweepSpec extends SweepSettings {
+  agentConfig: AgentConfig; // hyperparameters the swept values override
+  simConfig: SimulationConfig;
+  dimensions: SweepDimension[];
+  seed: number; // seeds the random search and the training runs
+}
+
+// Swept values of one configuration, keyed by `${target}.${key}`
+export type SweepValues = Record<string, number>;
+
+// One training run of a sweep: a configuration trained from one seed
+export interface SweepTrial {
+  configIndex: number;
+  seed: number;
+  finalReturn: number; // mean return of the greedy evaluation episodes after training
+  episodesToSolve: number | null; // first episode closing a solving window; null if never solved
+  returns: number[]; // training return per episode
+}
+
+// Messages posted to the training worker
+export type TrainingCommand =
+  | {
+      type: 'start';
+      agentConfig: AgentConfig;
+      simConfig: SimulationConfig;
+      episodes: number;
+      seed: number;
+      snapshotInterval: number; // episodes between weight snapshots / sampled episodes
+      randomisation: ParameterRange[]; // config fields re-sampled at every training reset; empty for none
+    }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'stop' };
+
+export type TrainingStatus = 'running' | 'paused' | 'stopped' | 'finished';
+
+// Messages posted back by the training worker
+export type TrainingEvent =
+  | { type: 'status'; status: TrainingStatus }
+  | { type: 'progress'; episodes: EpisodeStats[]; stepsPerSecond: number } // only episodes since the last progress event
+  | { type: 'snapshot'; episode: number; snapshot: AgentSnapshot }
+  | { type: 'sample'; episode: number; history: StepHistory[] } // greedy episode for the UI to render
+  | { type: 'error'; message: string };
+
+// Messages posted to the sweep worker
+export type SweepCommand = { type: 'start'; spec: SweepSpec } | { type: 'stop' };
+
+// Messages posted back by the sweep worker
+export type SweepEvent =
+  | { type: 'status'; status: 'running' | 'stopped' | 'finished' }
+  | { type: 'plan'; configs: SweepValues[]; seeds: number[] } // every configuration, sent before the first trial
+  | { type: 'progress'; trial: number; episode: number } // trial index (configuration-major) and its current episode
+  | { type: 'trial'; trial: SweepTrial }
+  | { type: 'error'; message: string };
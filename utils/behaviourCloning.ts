@@ -0,0 +1,273 @@
+import {
+  ActionSpace,
+  BehaviourCloningConfig,
+  CloningEpoch,
+  DemonstrationFilter,
+  EnvAction,
+  EpisodeRecording,
+  EpisodeStats,
+  Observation,
+  Policy,
+  SimulationConfig,
+} from '../types';
+import { CONFIG_SCHEMA } from './configSchema';
+import { NO_DISTURBANCE, appliedForce } from './disturbances';
+import { CartPoleEnv, toObservation } from './environment';
+import { MLP, createOptimizer } from './neuralNetwork';
+import { actionToForce, getActionSet } from './physics';
+import { stepReward } from './reward';
+import { getObservationBounds } from './tabularAgent';
+import { Random } from './random';
+
+/**
+ * Behaviour cloning: supervised learning of a policy from recorded
+ * demonstrations. Every step of a chosen episode becomes one sample, the
+ * observation the player saw labelled with the action they took, and a
+ * classifier learns to predict that action. No reward is involved, so the
+ * clone can only be as good as the demonstrations it copies.
+ */
+
+const sameConfig = (a: SimulationConfig, b: SimulationConfig) => CONFIG_SCHEMA.every((f) => a[f.key] === b[f.key]);
+
+const failed = (recording: EpisodeRecording) => {
+  const last = recording.steps[recording.steps.length - 1];
+  return last !== undefined && (last.state.terminatedCode === 'pole_fell' || last.state.terminatedCode === 'out_of_bounds');
+};
+
+/** The episodes the filter lets through, longest first. */
+export const selectDemonstrations = (
+  recordings: EpisodeRecording[],
+  filter: DemonstrationFilter,
+  config: SimulationConfig
+): EpisodeRecording[] => {
+  const passing = recordings
+    .filter((r) => r.steps.length >= filter.minSteps && (!filter.sameConfigOnly || sameConfig(r.config, config)))
+    .sort((a, b) => b.steps.length - a.steps.length);
+  return filter.bestCount > 0 ? passing.slice(0, filter.bestCount) : passing;
+};
+
+export interface DemonstrationDataset {
+  observations: Observation[];
+  labels: number[]; // index into getActionSet() of the config the clone plays under
+  episodes: number[]; // which demonstration each sample came from
+  actionCounts: number[]; // samples per label, to spot a lopsided dataset
+}
+
+/**
+ * Turns demonstrations into (observation, action) samples for `config`'s
+ * action set. The action is read from the applied force relative to the
+ * demonstration's own force magnitude and matched to the nearest level, so
+ * demonstrations from another action space still label sensibly. The last
+ * steps of a failed episode are dropped, since by then the player was
+ * already losing and those actions are not worth copying.
+ */
+export const buildDataset = (
+  demonstrations: EpisodeRecording[],
+  trimFailureSteps: number,
+  config: SimulationConfig
+): DemonstrationDataset => {
+  const levels = getActionSet(config).map((a) => actionToForce(a, config) / config.forceMag);
+  const dataset: DemonstrationDataset = {
+    observations: [],
+    labels: [],
+    episodes: [],
+    actionCounts: levels.map(() => 0),
+  };
+
+  demonstrations.forEach((demo, episode) => {
+    const end = failed(demo) ? Math.max(0, demo.steps.length - trimFailureSteps) : demo.steps.length;
+    for (let i = 0; i < end; i++) {
+      const seen = i === 0 ? demo.initialState : demo.steps[i - 1].state;
+      const force = demo.steps[i].force / demo.config.forceMag;
+      let label = 0;
+      for (let k = 1; k < levels.length; k++) {
+        if (Math.abs(levels[k] - force) < Math.abs(levels[label] - force)) label = k;
+      }
+      dataset.observations.push(toObservation(seen));
+      dataset.labels.push(label);
+      dataset.episodes.push(episode);
+      dataset.actionCounts[label]++;
+    }
+  });
+  return dataset;
+};
+
+const argmax = (values: ArrayLike<number>): number => {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+};
+
+// Softmax of the logits, written into `out`
+const softmax = (logits: ArrayLike<number>, out: Float64Array) => {
+  let max = -Infinity;
+  for (let i = 0; i < logits.length; i++) max = Math.max(max, logits[i]);
+  let sum = 0;
+  for (let i = 0; i < logits.length; i++) {
+    out[i] = Math.exp(logits[i] - max);
+    sum += out[i];
+  }
+  for (let i = 0; i < logits.length; i++) out[i] /= sum;
+};
+
+/**
+ * Policy learned from demonstrations: a classifier over the action set,
+ * either a linear softmax (multinomial logistic regression) or an MLP with
+ * one tanh hidden layer. It always plays the most likely action.
+ */
+export class ClonedPolicy implements Policy {
+  readonly name: string;
+  readonly actionSpace: ActionSpace;
+  private readonly net: MLP;
+  private readonly scales: number[];
+  private readonly actions: EnvAction[];
+
+  constructor(name: string, config: BehaviourCloningConfig, simConfig: SimulationConfig, rng: Random) {
+    this.name = name;
+    this.actionSpace = simConfig.actionSpace;
+    // Inputs are divided by the observation bounds so they sit roughly in [-1, 1], as for DQN
+    this.scales = getObservationBounds(simConfig);
+    this.actions = getActionSet(simConfig);
+    const hidden = config.model === 'mlp' ? [config.hiddenUnits] : [];
+    this.net = new MLP([this.scales.length, ...hidden, this.actions.length], 'tanh', rng);
+  }
+
+  act(observation: Observation): EnvAction {
+    return this.actions[this.predict(observation)];
+  }
+
+  /** Index of the most likely action. */
+  predict(observation: Observation): number {
+    return argmax(this.logits(observation));
+  }
+
+  /** Runs the network; the result is reused by the next call. */
+  logits(observation: Observation): Float64Array {
+    return this.net.forward(observation.map((v, i) => v / this.scales[i]));
+  }
+
+  /** The network itself, for training. */
+  get network(): MLP {
+    return this.net;
+  }
+}
+
+const accuracy = (policy: ClonedPolicy, dataset: DemonstrationDataset, indices: number[]): number => {
+  let correct = 0;
+  for (const i of indices) if (policy.predict(dataset.observations[i]) === dataset.labels[i]) correct++;
+  return indices.length > 0 ? correct / indices.length : 0;
+};
+
+// In-place Fisher-Yates shuffle
+const shuffle = <T>(items: T[], rng: Random): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+/**
+ * Trains a clone on the dataset with minibatch cross-entropy and Adam.
+ * Validation holds out whole episodes rather than random steps: neighbouring
+ * steps are nearly identical, so a random split would overstate how well the
+ * clone generalises. Returns the policy and the per-epoch progress.
+ */
+export const trainClone = (
+  name: string,
+  dataset: DemonstrationDataset,
+  config: BehaviourCloningConfig,
+  simConfig: SimulationConfig,
+  seed: number
+): { policy: ClonedPolicy; epochs: CloningEpoch[] } => {
+  const rng = new Random(seed);
+  const policy = new ClonedPolicy(name, config, simConfig, rng.fork());
+  const net = policy.network;
+  const optimizer = createOptimizer('adam', config.learningRate);
+
+  const episodeIds = shuffle([...new Set(dataset.episodes)], rng);
+  // Keep at least one episode on each side whenever there are two or more
+  const wanted = Math.max(config.validationSplit > 0 ? 1 : 0, Math.round(episodeIds.length * config.validationSplit));
+  const heldOut = episodeIds.length < 2 ? 0 : Math.min(episodeIds.length - 1, wanted);
+  const validationEpisodes = new Set(episodeIds.slice(0, heldOut));
+  const train: number[] = [];
+  const validation: number[] = [];
+  dataset.episodes.forEach((episode, i) => (validationEpisodes.has(episode) ? validation : train).push(i));
+
+  const probabilities = new Float64Array(getActionSet(simConfig).length);
+  const epochs: CloningEpoch[] = [];
+  for (let epoch = 1; epoch <= config.epochs; epoch++) {
+    shuffle(train, rng);
+    let lossSum = 0;
+    for (let start = 0; start < train.length; start += config.batchSize) {
+      const batch = train.slice(start, start + config.batchSize);
+      net.zeroGrad();
+      for (const i of batch) {
+        softmax(policy.logits(dataset.observations[i]), probabilities);
+        const label = dataset.labels[i];
+        lossSum -= Math.log(Math.max(probabilities[label], 1e-12));
+        // Cross-entropy gradient w.r.t. the logits: predicted minus target distribution
+        probabilities[label] -= 1;
+        net.backward(probabilities);
+      }
+      optimizer.step(net, 1 / batch.length);
+    }
+    epochs.push({
+      epoch,
+      loss: train.length > 0 ? lossSum / train.length : 0,
+      trainAccuracy: accuracy(policy, dataset, train),
+      validationAccuracy: validation.length > 0 ? accuracy(policy, dataset, validation) : null,
+    });
+  }
+  return { policy, epochs };
+};
+
+/**
+ * Plays the clone from the same config and seed as each demonstration, so
+ * both face the same initial state and disturbances, and returns the
+ * human's and the clone's episodes side by side.
+ */
+export const compareWithDemonstrations = (
+  policy: Policy,
+  demonstrations: EpisodeRecording[]
+): { human: EpisodeStats[]; clone: EpisodeStats[] } => {
+  const human: EpisodeStats[] = [];
+  const clone: EpisodeStats[] = [];
+
+  demonstrations.forEach((demo, i) => {
+    const last = demo.steps.length > 0 ? demo.steps[demo.steps.length - 1].state : demo.initialState;
+    human.push({
+      episode: i + 1,
+      steps: demo.steps.length,
+      return: demo.steps.reduce(
+        (sum, step) =>
+          sum +
+          stepReward(
+            step.state,
+            step.state.terminatedCode,
+            appliedForce(step.force, step.disturbance ?? NO_DISTURBANCE),
+            demo.config
+          ),
+        0
+      ),
+      terminatedCode: last.terminatedCode,
+    });
+
+    const env = new CartPoleEnv(demo.config, demo.seed);
+    let { observation } = env.reset(demo.seed);
+    policy.reset?.();
+    let totalReward = 0;
+    for (;;) {
+      const result = env.step(policy.act(observation));
+      totalReward += result.reward;
+      observation = result.observation;
+      if (result.terminated || result.truncated) {
+        clone.push({ episode: i + 1, steps: result.info.steps, return: totalReward, terminatedCode: result.info.terminatedCode });
+        break;
+      }
+    }
+  });
+  return { human, clone };
+};
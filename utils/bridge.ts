@@ -0,0 +1,230 @@
+import { Disturbance, EnvAction, Observation, SimulationConfig, SimulationState, StepInfo } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { CONFIG_SCHEMA, validateConfig } from './configSchema';
+import { NO_DISTURBANCE } from './disturbances';
+import { CartPoleEnv } from './environment';
+import { getActionSet } from './physics';
+
+/**
+ * JSON protocol of the WebSocket bridge, which lets agents outside the
+ * browser (e.g. Python) drive the single CartPole. The Node server
+ * (`npm run bridge`) runs the physics; the browser can watch as a viewer.
+ * Every message is one JSON object with a `type`. Requests may carry an
+ * `id`, echoed on the reply so clients can match them up. The protocol is
+ * documented for client authors in the README.
+ *
+ * Agent requests and the server's replies:
+ * - `reset` {seed?}              -> `observation` (reward 0)
+ * - `step` {action}              -> `observation`
+ * - `config` {config?}           -> `config` with the full config; a partial
+ *                                   config is merged in first
+ * - `render`                     -> `render-frame`
+ * - `hello` {role}               -> `hello`; a connection is an agent unless
+ *                                   it says it is a viewer
+ * Anything malformed, including an action outside the configured action
+ * space, gets an `error` reply and changes nothing.
+ *
+ * Viewers send only `hello` and receive a `render-frame` after every reset
+ * and step of every agent.
+ */
+
+export const BRIDGE_PROTOCOL_VERSION = 1;
+export const BRIDGE_DEFAULT_PORT = 8765;
+export const BRIDGE_DEFAULT_URL = `ws://localhost:${BRIDGE_DEFAULT_PORT}`;
+
+export type BridgeRole = 'agent' | 'viewer';
+
+export type BridgeRequest =
+  | { type: 'hello'; id?: string | number; role: BridgeRole }
+  | { type: 'reset'; id?: string | number; seed?: number }
+  | { type: 'step'; id?: string | number; action: EnvAction }
+  | { type: 'config'; id?: string | number; config?: Partial<SimulationConfig> }
+  | { type: 'render'; id?: string | number };
+
+// Where one agent's episode stands, for drawing it
+export interface RenderFrame {
+  type: 'render-frame';
+  id?: string | number;
+  session: number; // agent connection the frame belongs to
+  episode: number; // resets so far in that session
+  state: SimulationState;
+  config: SimulationConfig;
+  force: number; // commanded on the last step (N); the cart felt it plus disturbance.actuatorNoise
+  disturbance: Disturbance; // acting on the last step
+  reward: number; // of the last step; 0 after a reset
+  return: number; // of the episode so far
+}
+
+export type BridgeMessage =
+  | { type: 'hello'; id?: string | number; role: BridgeRole; version: number; session: number | null }
+  | {
+      type: 'observation';
+      id?: string | number;
+      observation: Observation; // [x, xDot, theta, thetaDot]
+      reward: number;
+      terminated: boolean;
+      truncated: boolean;
+      info: Omit<StepInfo, 'state'> & { seed: number; episode: number };
+    }
+  | { type: 'config'; id?: string | number; config: SimulationConfig }
+  | RenderFrame
+  | { type: 'error'; id?: string | number; message: string };
+
+/** A refused message, carrying the request's `id` (if it had a valid one) for the `error` reply. */
+export class BridgeRequestError extends Error {
+  readonly id?: string | number;
+
+  constructor(message: string, id?: string | number) {
+    super(message);
+    this.name = 'BridgeRequestError';
+    this.id = id;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses and checks one incoming message. Throws a BridgeRequestError
+ * describing the problem, which the server sends back as an `error` reply.
+ */
+export const parseBridgeRequest = (text: string): BridgeRequest => {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    throw new BridgeRequestError('Message is not valid JSON');
+  }
+  if (!isObject(message)) throw new BridgeRequestError('Message must be a JSON object');
+  if (message.id !== undefined && typeof message.id !== 'string' && typeof message.id !== 'number') {
+    throw new BridgeRequestError('"id" must be a string or a number');
+  }
+  const id = message.id as string | number | undefined;
+
+  switch (message.type) {
+    case 'hello':
+      if (message.role !== 'agent' && message.role !== 'viewer') {
+        throw new BridgeRequestError('"role" must be "agent" or "viewer"', id);
+      }
+      return { type: 'hello', id, role: message.role };
+    case 'reset':
+      if (message.seed !== undefined && !(Number.isInteger(message.seed) && (message.seed as number) >= 0)) {
+        throw new BridgeRequestError('"seed" must be a non-negative integer', id);
+      }
+      return { type: 'reset', id, seed: message.seed as number | undefined };
+    case 'step':
+      if (typeof message.action !== 'number' || !Number.isFinite(message.action)) {
+        throw new BridgeRequestError('"action" must be a number', id);
+      }
+      return { type: 'step', id, action: message.action };
+    case 'config':
+      if (message.config !== undefined && !isObject(message.config)) throw new BridgeRequestError('"config" must be an object', id);
+      return { type: 'config', id, config: message.config as Partial<SimulationConfig> | undefined };
+    case 'render':
+      return { type: 'render', id };
+    default:
+      throw new BridgeRequestError(`Unknown message type ${JSON.stringify(message.type)}`, id);
+  }
+};
+
+/**
+ * One agent connection: its own environment, stepped only by its requests.
+ * Transport-free, so the server stays a thin layer over it.
+ */
+export class BridgeSession {
+  readonly id: number;
+  private readonly env: CartPoleEnv;
+  private episode = 0;
+  private lastForce = 0;
+  private lastDisturbance: Disturbance = NO_DISTURBANCE;
+  private lastReward = 0;
+  private episodeReturn = 0;
+
+  constructor(id: number, config: SimulationConfig = DEFAULT_CONFIG, seed?: number) {
+    this.id = id;
+    this.env = new CartPoleEnv(config, seed);
+  }
+
+  /** The reply to a request. Throws on requests the environment rejects (e.g. stepping a finished episode). */
+  handle(request: Exclude<BridgeRequest, { type: 'hello' }>): BridgeMessage {
+    const { id } = request;
+    switch (request.type) {
+      case 'reset': {
+        const { observation, info } = this.env.reset(request.seed);
+        this.episode++;
+        this.lastForce = 0;
+        this.lastDisturbance = info.disturbance;
+        this.lastReward = 0;
+        this.episodeReturn = 0;
+        return { type: 'observation', id, observation, reward: 0, terminated: false, truncated: false, info: this.info(info) };
+      }
+      case 'step': {
+        if (this.episode === 0) throw new Error('Send "reset" before the first "step"');
+        this.checkAction(request.action);
+        const result = this.env.step(request.action);
+        this.lastForce = result.info.force;
+        this.lastDisturbance = result.info.disturbance;
+        this.lastReward = result.reward;
+        this.episodeReturn += result.reward;
+        return {
+          type: 'observation',
+          id,
+          observation: result.observation,
+          reward: result.reward,
+          terminated: result.terminated,
+          truncated: result.truncated,
+          info: this.info(result.info),
+        };
+      }
+      case 'config': {
+        if (request.config) {
+          const unknown = Object.keys(request.config).filter((key) => !CONFIG_SCHEMA.some((f) => f.key === key));
+          if (unknown.length > 0) throw new Error(`Unknown config fields: ${unknown.join(', ')}`);
+          const merged = { ...this.env.getConfig(), ...request.config };
+          // Warnings (e.g. a coarse time step) are the client's call; errors are refused
+          const errors = validateConfig(merged).filter((i) => i.severity === 'error');
+          if (errors.length > 0) throw new Error(errors.map((i) => `${String(i.key)}: ${i.message}`).join('; '));
+          this.env.setConfig(merged);
+        }
+        return { type: 'config', id, config: this.env.getConfig() };
+      }
+      case 'render':
+        return { ...this.frame(), id };
+    }
+  }
+
+  /** What a viewer needs to draw the session right now. */
+  frame(): RenderFrame {
+    return {
+      type: 'render-frame',
+      session: this.id,
+      episode: this.episode,
+      state: this.env.getState(),
+      config: this.env.getConfig(),
+      force: this.lastForce,
+      disturbance: this.lastDisturbance,
+      reward: this.lastReward,
+      return: this.episodeReturn,
+    };
+  }
+
+  // Refuses actions outside the action space instead of letting them map to a push
+  private checkAction(action: number) {
+    const config = this.env.getConfig();
+    if (config.actionSpace === 'continuous') {
+      if (Math.abs(action) > config.forceMag) {
+        throw new Error(`"action" must be a force between -${config.forceMag} and ${config.forceMag} N in continuous`);
+      }
+      return;
+    }
+    if (!getActionSet(config).includes(action)) {
+      const allowed = config.actionSpace === 'discrete-3' ? '0 (left), 1 (right) or 2 (coast)' : '0 (left) or 1 (right)';
+      throw new Error(`"action" must be ${allowed} in ${config.actionSpace}`);
+    }
+  }
+
+  // The step info without the state, which repeats the observation
+  private info({ state: _state, ...info }: StepInfo) {
+    return { ...info, seed: this.env.getSeed(), episode: this.episode };
+  }
+}
@@ -0,0 +1,74 @@
+import { BridgeMessage, RenderFrame } from './bridge';
+
+/**
+ * Browser end of the WebSocket bridge: connects to the local bridge server
+ * as a viewer and hands every render frame to the caller. It only connects
+ * to localhost, so a shared link cannot point the app at another machine.
+ */
+
+export type BridgeStatus = 'connecting' | 'connected' | 'closed';
+
+export interface BridgeViewerHandlers {
+  onFrame: (frame: RenderFrame) => void;
+  onStatus: (status: BridgeStatus, error?: string) => void;
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/** Why `url` cannot be used as a bridge address, or null if it can. */
+export const checkBridgeUrl = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Not a valid URL';
+  }
+  if (parsed.protocol !== 'ws:') return 'Use a ws:// address';
+  if (!LOCAL_HOSTS.includes(parsed.hostname)) return 'The bridge must run on this machine (localhost)';
+  return null;
+};
+
+/** Opens a viewer connection; returns a function that closes it. */
+export const connectBridgeViewer = (url: string, handlers: BridgeViewerHandlers): (() => void) => {
+  const problem = checkBridgeUrl(url);
+  if (problem) {
+    handlers.onStatus('closed', problem);
+    return () => {};
+  }
+
+  let closedByUs = false;
+  let connected = false;
+  const socket = new WebSocket(url);
+  handlers.onStatus('connecting');
+  socket.onopen = () => socket.send(JSON.stringify({ type: 'hello', role: 'viewer' }));
+  socket.onmessage = (e: MessageEvent<string>) => {
+    let message: BridgeMessage;
+    try {
+      message = JSON.parse(e.data);
+    } catch {
+      return;
+    }
+    if (message.type === 'hello') {
+      connected = true;
+      handlers.onStatus('connected');
+    }
+    else if (message.type === 'render-frame') handlers.onFrame(message);
+    else if (message.type === 'error') {
+      // Refused as a viewer: hang up, so no frames arrive while the view says it is disconnected
+      closedByUs = true;
+      socket.close();
+      handlers.onStatus('closed', message.message);
+    }
+  };
+  socket.onclose = () => {
+    if (closedByUs) return;
+    handlers.onStatus(
+      'closed',
+      connected ? 'The bridge server closed the connection' : `No bridge server at ${url} (start one with npm run bridge)`
+    );
+  };
+  return () => {
+    closedByUs = true;
+    socket.close();
+  };
+};
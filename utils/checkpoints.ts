@@ -0,0 +1,166 @@
+import { AgentCheckpoint, AgentSnapshot, EpisodeStats, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_DQN_CONFIG, DEFAULT_TABULAR_CONFIG } from '../constants';
+import { validateConfig } from './configSchema';
+import { restoreAgent } from './training';
+import { randomSeed } from './random';
+
+/**
+ * Checkpoint files are JSON documents holding everything needed to rebuild a
+ * trained agent and judge it: the agent snapshot (learned parameters,
+ * hyperparameters and the config it was trained on) and the statistics of
+ * every training episode. Bump the version whenever the layout changes in a
+ * way older readers cannot handle.
+ */
+export const CHECKPOINT_FILE_VERSION = 1;
+
+const newCheckpointId = () => `${Date.now().toString(36)}-${randomSeed().toString(36)}`;
+
+export const createCheckpoint = (name: string, snapshot: AgentSnapshot, training: EpisodeStats[]): AgentCheckpoint => ({
+  version: CHECKPOINT_FILE_VERSION,
+  id: newCheckpointId(),
+  name,
+  savedAt: new Date().toISOString(),
+  snapshot,
+  training,
+});
+
+export const serializeCheckpoint = (checkpoint: AgentCheckpoint): string => JSON.stringify(checkpoint);
+
+export const checkpointFileName = (checkpoint: AgentCheckpoint): string =>
+  `cartpole-agent-${checkpoint.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'checkpoint'}.json`;
+
+/** The algorithm's display name, as agents report it. */
+export const checkpointAlgorithm = (checkpoint: AgentCheckpoint): string => {
+  const { algorithm } = checkpoint.snapshot.config;
+  return algorithm === 'dqn' ? 'DQN' : algorithm === 'sarsa' ? 'SARSA' : 'Q-Learning';
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isNumberArray = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Parses and validates a checkpoint file. Hyperparameters and config fields
+ * added after the file was written fall back to their defaults. The agent is
+ * rebuilt once as a final check, so a checkpoint that loads here can always
+ * be played. Imported checkpoints get a fresh id so they never overwrite a
+ * stored one. Throws with a readable message when the file is unusable.
+ */
+export const parseCheckpoint = (text: string): AgentCheckpoint => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Checkpoint file is not valid JSON');
+  }
+  if (!isObject(data)) throw new Error('Checkpoint file is empty');
+
+  if (!isNumber(data.version)) throw new Error('Checkpoint file has no version');
+  if (data.version > CHECKPOINT_FILE_VERSION) {
+    throw new Error(
+      `Checkpoint file version ${data.version} is newer than this app supports (${CHECKPOINT_FILE_VERSION})`
+    );
+  }
+  const snapshot = data.snapshot;
+  if (!isObject(snapshot)) throw new Error('Checkpoint file has no agent');
+  if (!isObject(snapshot.config)) throw new Error('Checkpoint file has no hyperparameters');
+  if (!isObject(snapshot.simConfig)) throw new Error('Checkpoint file has no training config');
+  if (!isNumber(snapshot.epsilon)) throw new Error('Checkpoint file has no exploration rate');
+
+  const simConfig: SimulationConfig = { ...DEFAULT_CONFIG, ...(snapshot.simConfig as Partial<SimulationConfig>) };
+  const configError = validateConfig(simConfig).find((issue) => issue.severity === 'error');
+  if (configError) throw new Error(`Checkpoint training config is invalid: ${configError.message}`);
+
+  let agent: AgentSnapshot;
+  const algorithm = snapshot.config.algorithm;
+  if (algorithm === 'dqn') {
+    const { weights, biases } = snapshot;
+    if (!Array.isArray(weights) || !weights.every(isNumberArray) || !Array.isArray(biases) || !biases.every(isNumberArray)) {
+      throw new Error('Checkpoint file has no valid network weights');
+    }
+    agent = { config: { ...DEFAULT_DQN_CONFIG, ...snapshot.config, algorithm }, simConfig, epsilon: snapshot.epsilon, weights, biases };
+  } else if (algorithm === 'q-learning' || algorithm === 'sarsa') {
+    if (!isNumberArray(snapshot.qTable)) throw new Error('Checkpoint file has no valid Q-table');
+    agent = {
+      config: { ...DEFAULT_TABULAR_CONFIG, ...snapshot.config, algorithm },
+      simConfig,
+      epsilon: snapshot.epsilon,
+      qTable: snapshot.qTable,
+    };
+  } else {
+    throw new Error(`Checkpoint file has an unknown algorithm: ${String(algorithm)}`);
+  }
+
+  try {
+    restoreAgent(agent, 0);
+  } catch (err) {
+    throw new Error(`Checkpoint parameters do not fit its hyperparameters: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const training = Array.isArray(data.training)
+    ? data.training.filter((s): s is EpisodeStats => isObject(s) && isNumber(s.episode) && isNumber(s.steps) && isNumber(s.return))
+    : [];
+
+  return {
+    version: data.version,
+    id: newCheckpointId(),
+    name: typeof data.name === 'string' && data.name.trim() !== '' ? data.name : 'Imported agent',
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    snapshot: agent,
+    training,
+  };
+};
+
+// IndexedDB layout: one object store of checkpoints keyed by id
+const DB_NAME = 'cartpole-rl';
+const DB_VERSION = 1;
+const STORE = 'checkpoints';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser has no IndexedDB, so checkpoints cannot be stored'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open the checkpoint store'));
+  });
+
+// Runs one request in its own transaction and resolves once the transaction commits
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Checkpoint store request failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Checkpoint store request was aborted'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/** Every stored checkpoint, newest first. */
+export const listCheckpoints = async (): Promise<AgentCheckpoint[]> => {
+  const all = await withStore<AgentCheckpoint[]>('readonly', (store) => store.getAll());
+  return all.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+/** Adds the checkpoint, or replaces the stored one with the same id. */
+export const storeCheckpoint = async (checkpoint: AgentCheckpoint): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(checkpoint));
+};
+
+export const deleteCheckpoint = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,582 @@
+import { ConfigPreset, DoubleCartPoleConfig, NumericConfigKey, SimulationConfig } from '../types';
+import { CONFIG_PRESETS, DEFAULT_CONFIG, DEFAULT_DOUBLE_CONFIG, DOUBLE_CONFIG_PRESETS } from '../constants';
+
+/**
+ * Single description of every config field of each environment: how to label
+ * it, the range it may take and what it means. The config panel renders from
+ * it, validation checks against it and shared URLs are decoded through it, so
+ * a new config field only needs an entry here to be editable everywhere.
+ */
+
+type NumericKey<C> = { [K in keyof C]: C[K] extends number ? K : never }[keyof C];
+type ChoiceKey<C> = Exclude<keyof C, NumericKey<C>>;
+
+// Heading the field is listed under in the config panel
+export type ConfigSection = 'Physics' | 'Task' | 'Friction & Disturbances' | 'Reward';
+
+export interface NumericField<C = SimulationConfig> {
+  kind: 'number';
+  key: NumericKey<C>;
+  section: ConfigSection;
+  label: string;
+  unit: string;
+  description: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+export interface ChoiceField<C = SimulationConfig> {
+  kind: 'choice';
+  key: ChoiceKey<C>;
+  section: ConfigSection;
+  label: string;
+  description: string;
+  options: { value: string; label: string }[];
+}
+
+export type ConfigField<C = SimulationConfig> = NumericField<C> | ChoiceField<C>;
+
+export const CONFIG_SCHEMA: ConfigField[] = [
+  {
+    kind: 'number',
+    key: 'gravity',
+    section: 'Physics',
+    label: 'Gravity',
+    unit: 'm/s²',
+    description: 'Gravitational acceleration pulling the pole down.',
+    min: 1,
+    max: 20,
+    step: 0.1,
+  },
+  {
+    kind: 'number',
+    key: 'cartMass',
+    section: 'Physics',
+    label: 'Cart Mass',
+    unit: 'kg',
+    description: 'Mass of the cart; heavier carts accelerate less for the same force.',
+    min: 0.1,
+    max: 10,
+    step: 0.1,
+  },
+  {
+    kind: 'number',
+    key: 'poleMass',
+    section: 'Physics',
+    label: 'Pole Mass',
+    unit: 'kg',
+    description: 'Mass of the pole, modelled as a uniform rod.',
+    min: 0.01,
+    max: 2,
+    step: 0.01,
+  },
+  {
+    kind: 'number',
+    key: 'poleLength',
+    section: 'Physics',
+    label: 'Pole Half-Length',
+    unit: 'm',
+    description: 'Distance from the pivot to the pole’s centre of mass. Longer poles fall more slowly.',
+    min: 0.1,
+    max: 2,
+    step: 0.05,
+  },
+  {
+    kind: 'number',
+    key: 'forceMag',
+    section: 'Physics',
+    label: 'Force Magnitude',
+    unit: 'N',
+    description: 'Largest force the controller can apply to the cart.',
+    min: 1,
+    max: 50,
+    step: 1,
+  },
+  {
+    kind: 'number',
+    key: 'tau',
+    section: 'Physics',
+    label: 'Physics Timestep',
+    unit: 's',
+    description: 'Simulated time per step. Smaller is more accurate; playback speed is set in the simulation.',
+    min: 0.001,
+    max: 0.05,
+    step: 0.001,
+  },
+  {
+    kind: 'number',
+    key: 'maxSteps',
+    section: 'Task',
+    label: 'Max Steps',
+    unit: 'steps',
+    description: 'Episode is truncated (counted as a success) after this many steps.',
+    min: 10,
+    max: 10000,
+    step: 10,
+    integer: true,
+  },
+  {
+    kind: 'number',
+    key: 'xThreshold',
+    section: 'Task',
+    label: 'Track Half-Width',
+    unit: 'm',
+    description: 'The episode fails when the cart moves further than this from the centre.',
+    min: 0.5,
+    max: 3.8,
+    step: 0.1,
+  },
+  {
+    kind: 'number',
+    key: 'thetaThresholdDegrees',
+    section: 'Task',
+    label: 'Fail Angle',
+    unit: '°',
+    description: 'The episode fails when the pole tilts further than this from upright (balance task only).',
+    min: 1,
+    max: 90,
+    step: 1,
+  },
+  {
+    kind: 'choice',
+    key: 'task',
+    section: 'Task',
+    label: 'Task',
+    description: 'Balance from near upright, or swing up from hanging down with no fail angle.',
+    options: [
+      { value: 'balance', label: 'Balance' },
+      { value: 'swingup', label: 'Swing-up' },
+    ],
+  },
+  {
+    kind: 'choice',
+    key: 'actionSpace',
+    section: 'Task',
+    label: 'Action Space',
+    description: 'Which forces a controller may choose from each step.',
+    options: [
+      { value: 'discrete-2', label: 'Discrete-2 (left / right)' },
+      { value: 'discrete-3', label: 'Discrete-3 (left / none / right)' },
+      { value: 'continuous', label: 'Continuous (±force)' },
+    ],
+  },
+  {
+    kind: 'choice',
+    key: 'integrator',
+    section: 'Physics',
+    label: 'Integrator',
+    description: 'Numerical scheme that advances the equations of motion.',
+    options: [
+      { value: 'euler', label: 'Euler (Gym default)' },
+      { value: 'semi-implicit-euler', label: 'Semi-implicit Euler' },
+      { value: 'rk4', label: 'Runge-Kutta 4' },
+    ],
+  },
+  {
+    kind: 'number',
+    key: 'cartFriction',
+    section: 'Friction & Disturbances',
+    label: 'Cart Friction',
+    unit: 'N',
+    description: 'Coulomb friction between cart and track (μc; Barto et al. use 0.0005).',
+    min: 0,
+    max: 1,
+    step: 0.0005,
+  },
+  {
+    kind: 'number',
+    key: 'poleFriction',
+    section: 'Friction & Disturbances',
+    label: 'Pivot Friction',
+    unit: 'N·m·s',
+    description: 'Viscous friction at the pole pivot (μp; Barto et al. use 0.000002).',
+    min: 0,
+    max: 0.01,
+    step: 0.000001,
+  },
+  {
+    kind: 'choice',
+    key: 'windMode',
+    section: 'Friction & Disturbances',
+    label: 'Wind',
+    description: 'Horizontal wind on the pole: none, alternating gusts, or randomly varying.',
+    options: [
+      { value: 'none', label: 'None' },
+      { value: 'scheduled', label: 'Scheduled gusts' },
+      { value: 'random', label: 'Random' },
+    ],
+  },
+  {
+    kind: 'number',
+    key: 'windForce',
+    section: 'Friction & Disturbances',
+    label: 'Wind Strength',
+    unit: 'N',
+    description: 'Gust force, or the standard deviation of random wind. Compare with the pole’s weight.',
+    min: 0,
+    max: 2,
+    step: 0.01,
+  },
+  {
+    kind: 'number',
+    key: 'windPeriod',
+    section: 'Friction & Disturbances',
+    label: 'Wind Period',
+    unit: 's',
+    description: 'Full gust cycle (each direction blows for half), or how long random wind stays correlated.',
+    min: 0.1,
+    max: 20,
+    step: 0.1,
+  },
+  {
+    kind: 'number',
+    key: 'kickRate',
+    section: 'Friction & Disturbances',
+    label: 'Kick Rate',
+    unit: '1/s',
+    description: 'Average number of random impulse kicks on the pole per second.',
+    min: 0,
+    max: 5,
+    step: 0.05,
+  },
+  {
+    kind: 'number',
+    key: 'kickImpulse',
+    section: 'Friction & Disturbances',
+    label: 'Kick Impulse',
+    unit: 'N·s',
+    description: 'Size of each kick, applied at the pole’s centre of mass.',
+    min: 0,
+    max: 0.5,
+    step: 0.005,
+  },
+  {
+    kind: 'number',
+    key: 'actuatorNoiseStd',
+    section: 'Friction & Disturbances',
+    label: 'Actuator Noise',
+    unit: 'N',
+    description: 'Standard deviation of Gaussian noise added to the force on the cart.',
+    min: 0,
+    max: 10,
+    step: 0.1,
+  },
+  {
+    kind: 'number',
+    key: 'rewardSurvival',
+    section: 'Reward',
+    label: 'Survival Reward',
+    unit: '/step',
+    description: 'Paid every step the episode runs (Gym: 1). In swing-up it scales the height reward instead.',
+    min: -1,
+    max: 5,
+    step: 0.1,
+  },
+  {
+    kind: 'number',
+    key: 'rewardAnglePenalty',
+    section: 'Reward',
+    label: 'Angle Penalty',
+    unit: '/rad²',
+    description: 'Subtracted every step in proportion to the squared pole angle; rewards holding the pole upright, not just up.',
+    min: 0,
+    max: 20,
+    step: 0.1,
+  },
+  {
+    kind: 'number',
+    key: 'rewardCentrePenalty',
+    section: 'Reward',
+    label: 'Centre Penalty',
+    unit: '/m²',
+    description: 'Subtracted every step in proportion to the squared distance of the cart from the track centre.',
+    min: 0,
+    max: 5,
+    step: 0.05,
+  },
+  {
+    kind: 'number',
+    key: 'rewardEffortPenalty',
+    section: 'Reward',
+    label: 'Effort Penalty',
+    unit: '/(F/Fmax)²',
+    description: 'Subtracted every step in proportion to the squared commanded force, as a fraction of the force magnitude.',
+    min: 0,
+    max: 5,
+    step: 0.05,
+  },
+  {
+    kind: 'number',
+    key: 'rewardFallPenalty',
+    section: 'Reward',
+    label: 'Fall Penalty',
+    unit: 'reward',
+    description: 'Subtracted once, on the step the pole falls past the fail angle.',
+    min: 0,
+    max: 1000,
+    step: 1,
+  },
+  {
+    kind: 'number',
+    key: 'rewardOutOfBoundsPenalty',
+    section: 'Reward',
+    label: 'Off-Track Penalty',
+    unit: 'reward',
+    description: 'Subtracted once, on the step the cart leaves the track.',
+    min: 0,
+    max: 1000,
+    step: 1,
+  },
+  {
+    kind: 'number',
+    key: 'rewardSuccessBonus',
+    section: 'Reward',
+    label: 'Success Bonus',
+    unit: 'reward',
+    description: 'Added once, on the step the episode reaches the step limit.',
+    min: 0,
+    max: 1000,
+    step: 1,
+  },
+];
+
+// The numeric fields, the ones that can be swept, randomised or mapped over a range
+export const NUMERIC_CONFIG_FIELDS = CONFIG_SCHEMA.filter((f): f is NumericField => f.kind === 'number');
+
+export const isNumericConfigKey = (key: string): key is NumericConfigKey => NUMERIC_CONFIG_FIELDS.some((f) => f.key === key);
+
+/** Whether `value` can bound a range over the field: a number within the field's limits. */
+export const isWithinFieldLimits = (key: NumericConfigKey, value: number): boolean => {
+  const field = NUMERIC_CONFIG_FIELDS.find((f) => f.key === key);
+  return Number.isFinite(value) && (!field || (value >= field.min && value <= field.max));
+};
+
+/**
+ * `config` with one numeric field set to `value`, kept within the field's
+ * limits (a mass or time step outside them breaks the physics) and rounded
+ * if the field only takes integers.
+ */
+export const withNumericField = (config: SimulationConfig, key: NumericConfigKey, value: number): SimulationConfig => {
+  const field = NUMERIC_CONFIG_FIELDS.find((f) => f.key === key);
+  if (!field) return { ...config, [key]: value };
+  const clamped = Math.min(field.max, Math.max(field.min, value));
+  return { ...config, [key]: field.integer ? Math.round(clamped) : clamped };
+};
+
+export const CONFIG_SECTIONS: ConfigSection[] = ['Physics', 'Task', 'Friction & Disturbances', 'Reward'];
+
+// Fields shared with the single CartPole keep its labels, ranges and descriptions
+const shared = (key: keyof SimulationConfig & keyof DoubleCartPoleConfig) =>
+  CONFIG_SCHEMA.find((field) => field.key === key) as ConfigField<DoubleCartPoleConfig>;
+
+export const DOUBLE_CONFIG_SCHEMA: ConfigField<DoubleCartPoleConfig>[] = [
+  shared('gravity'),
+  shared('cartMass'),
+  {
+    kind: 'number',
+    key: 'pole1Mass',
+    section: 'Physics',
+    label: 'Lower Pole Mass',
+    unit: 'kg',
+    description: 'Mass of the pole hinged on the cart.',
+    min: 0.01,
+    max: 2,
+    step: 0.01,
+  },
+  {
+    kind: 'number',
+    key: 'pole1Length',
+    section: 'Physics',
+    label: 'Lower Pole Half-Length',
+    unit: 'm',
+    description: 'Half the length of the lower pole; the upper pole is hinged at its tip.',
+    min: 0.1,
+    max: 2,
+    step: 0.05,
+  },
+  {
+    kind: 'number',
+    key: 'pole2Mass',
+    section: 'Physics',
+    label: 'Upper Pole Mass',
+    unit: 'kg',
+    description: 'Mass of the pole balanced on top of the lower one.',
+    min: 0.01,
+    max: 2,
+    step: 0.01,
+  },
+  {
+    kind: 'number',
+    key: 'pole2Length',
+    section: 'Physics',
+    label: 'Upper Pole Half-Length',
+    unit: 'm',
+    description: 'Half the length of the upper pole.',
+    min: 0.1,
+    max: 2,
+    step: 0.05,
+  },
+  shared('forceMag'),
+  shared('tau'),
+  shared('integrator'),
+  shared('maxSteps'),
+  shared('xThreshold'),
+  {
+    kind: 'number',
+    key: 'thetaThresholdDegrees',
+    section: 'Task',
+    label: 'Fail Angle',
+    unit: '°',
+    description: 'The episode fails when either pole tilts further than this from upright.',
+    min: 1,
+    max: 90,
+    step: 1,
+  },
+  shared('actionSpace'),
+];
+
+export const DOUBLE_CONFIG_SECTIONS: ConfigSection[] = ['Physics', 'Task'];
+
+export interface ConfigIssue<C = SimulationConfig> {
+  key: keyof C;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** Problems with a single value in isolation (range, type, allowed choice). */
+export const validateField = <C>(field: ConfigField<C>, value: unknown): string | null => {
+  if (field.kind === 'choice') {
+    return field.options.some((o) => o.value === value) ? null : `${field.label} must be one of ${field.options.map((o) => o.value).join(', ')}`;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) return `${field.label} must be a number`;
+  if (field.integer && !Number.isInteger(value)) return `${field.label} must be a whole number`;
+  if (value < field.min || value > field.max) {
+    return `${field.label} must be between ${field.min} and ${field.max} ${field.unit}`;
+  }
+  return null;
+};
+
+// Range and type errors for every field of `schema`
+const fieldErrors = <C>(config: C, schema: ConfigField<C>[]): ConfigIssue<C>[] => {
+  const issues: ConfigIssue<C>[] = [];
+  for (const field of schema) {
+    const message = validateField(field, config[field.key]);
+    if (message) issues.push({ key: field.key, severity: 'error', message });
+  }
+  return issues;
+};
+
+// Small-angle period of a pole as a pendulum; explicit integrators need many steps per swing
+const coarseTimestepWarning = <C>(tau: number, poleLength: number, gravity: number): ConfigIssue<C> | null => {
+  const period = 2 * Math.PI * Math.sqrt((4 / 3) * poleLength / gravity);
+  if (tau <= period / 50) return null;
+  return {
+    key: 'tau' as keyof C,
+    severity: 'warning',
+    message: `Timestep is coarse for this pole (${(period / tau).toFixed(0)} steps per swing); expect integration error`,
+  };
+};
+
+/**
+ * Checks every field against the schema, plus combinations that are legal
+ * individually but make for a meaningless simulation. Errors mark configs
+ * that must not be applied; warnings are shown but allowed.
+ */
+export const validateConfig = (config: SimulationConfig): ConfigIssue[] => {
+  const issues = fieldErrors(config, CONFIG_SCHEMA);
+  if (issues.length > 0) return issues;
+
+  const coarse = coarseTimestepWarning<SimulationConfig>(config.tau, config.poleLength, config.gravity);
+  if (coarse) issues.push(coarse);
+  if (config.poleMass > config.cartMass) {
+    issues.push({
+      key: 'poleMass',
+      severity: 'warning',
+      message: 'Pole heavier than the cart; the cart will be hard to control',
+    });
+  }
+  return issues;
+};
+
+/** `validateConfig` for the double pendulum; the shorter pole sets the timestep warning. */
+export const validateDoubleConfig = (config: DoubleCartPoleConfig): ConfigIssue<DoubleCartPoleConfig>[] => {
+  const issues = fieldErrors(config, DOUBLE_CONFIG_SCHEMA);
+  if (issues.length > 0) return issues;
+
+  const shortest = Math.min(config.pole1Length, config.pole2Length);
+  const coarse = coarseTimestepWarning<DoubleCartPoleConfig>(config.tau, shortest, config.gravity);
+  if (coarse) issues.push(coarse);
+  if (config.pole1Mass + config.pole2Mass > config.cartMass) {
+    issues.push({
+      key: 'pole1Mass',
+      severity: 'warning',
+      message: 'Poles heavier than the cart; the cart will be hard to control',
+    });
+  }
+  return issues;
+};
+
+/**
+ * Everything the config panel, validation and shared links need to know
+ * about one environment's config.
+ */
+export interface ConfigSpec<C> {
+  schema: ConfigField<C>[];
+  sections: ConfigSection[];
+  defaults: C;
+  presets: ConfigPreset<C>[];
+  validate: (config: C) => ConfigIssue<C>[];
+}
+
+export const CARTPOLE_CONFIG_SPEC: ConfigSpec<SimulationConfig> = {
+  schema: CONFIG_SCHEMA,
+  sections: CONFIG_SECTIONS,
+  defaults: DEFAULT_CONFIG,
+  presets: CONFIG_PRESETS,
+  validate: validateConfig,
+};
+
+export const DOUBLE_CONFIG_SPEC: ConfigSpec<DoubleCartPoleConfig> = {
+  schema: DOUBLE_CONFIG_SCHEMA,
+  sections: DOUBLE_CONFIG_SECTIONS,
+  defaults: DEFAULT_DOUBLE_CONFIG,
+  presets: DOUBLE_CONFIG_PRESETS,
+  validate: validateDoubleConfig,
+};
+
+export const findPresetName = <C>(config: C, spec: ConfigSpec<C>) =>
+  spec.presets.find((p) => spec.schema.every((f) => p.config[f.key] === config[f.key]))?.name ?? null;
+
+/**
+ * Writes every config field into the query string, keeping any unrelated
+ * parameters, so a copied link reproduces the setup exactly.
+ */
+export const encodeConfigToSearch = <C>(config: C, search: string, schema: ConfigField<C>[]): string => {
+  const params = new URLSearchParams(search);
+  for (const field of schema) params.set(String(field.key), String(config[field.key]));
+  return `?${params.toString()}`;
+};
+
+/**
+ * Reads a config from a query string. Missing fields take their defaults and
+ * invalid ones are dropped (reported in `issues`), so a damaged link still
+ * opens a usable simulation. Returns null when no config field is present.
+ */
+export const decodeConfigFromSearch = <C>(search: string, spec: ConfigSpec<C>): { config: C; issues: string[] } | null => {
+  const params = new URLSearchParams(search);
+  if (!spec.schema.some((f) => params.has(String(f.key)))) return null;
+
+  const config: C = { ...spec.defaults };
+  const issues: string[] = [];
+  for (const field of spec.schema) {
+    const raw = params.get(String(field.key));
+    if (raw === null) continue;
+    const value = field.kind === 'number' ? Number(raw) : raw;
+    const message = validateField(field, value);
+    if (message) issues.push(message);
+    else Object.assign(config, { [field.key]: value });
+  }
+  return { config, issues };
+};
@@ -0,0 +1,55 @@
+import { DoubleCartPoleConfig, EnvAction, EnvironmentConfig, LqrWeights, Observation, PidGains, Policy, SimulationConfig } from '../types';
+import { computeDoubleLqrGain, computeLqrGain } from './lqr';
+import { forceToAction } from './physics';
+
+export interface PidController extends Policy {
+  gains: PidGains;
+}
+
+/**
+ * Classical PID on the pole angle with a PD term on cart position to keep
+ * the cart near the centre. The integral is accumulated in simulated time.
+ * The output force is realised as closely as the action space allows.
+ */
+export const createPidController = (gains: PidGains, config: SimulationConfig): PidController => {
+  let integral = 0;
+  return {
+    name: 'PID',
+    gains,
+    act(observation: Observation): EnvAction {
+      const [x, xDot, theta, thetaDot] = observation;
+      integral += theta * config.tau;
+      const force = gains.kp * theta + gains.ki * integral + gains.kd * thetaDot + gains.kpX * x + gains.kdX * xDot;
+      return forceToAction(force, config);
+    },
+    reset() {
+      integral = 0;
+    },
+  };
+};
+
+export interface LqrController extends Policy {
+  gain: number[]; // K, so that u = −K·s
+}
+
+const lqrPolicy = (gain: number[], config: EnvironmentConfig): LqrController => ({
+  name: 'LQR',
+  gain,
+  act(observation: Observation): EnvAction {
+    const force = -gain.reduce((sum, k, i) => sum + k * observation[i], 0);
+    return forceToAction(force, config);
+  },
+});
+
+/**
+ * Linear-quadratic regulator around the upright equilibrium of `config`.
+ * Rebuild it whenever the config changes; the gain is solved on creation.
+ * In the continuous space u = −K·s is applied directly (clipped to forceMag),
+ * in the discrete spaces the nearest available force is used.
+ */
+export const createLqrController = (weights: LqrWeights, config: SimulationConfig): LqrController =>
+  lqrPolicy(computeLqrGain(config, weights), config);
+
+/** LQR for the double pendulum, acting on its six-value observation. */
+export const createDoubleLqrController = (weights: LqrWeights, config: DoubleCartPoleConfig): LqrController =>
+  lqrPolicy(computeDoubleLqrGain(config, weights), config);
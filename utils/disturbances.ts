@@ -0,0 +1,42 @@
+import { Disturbance, SimulationConfig } from '../types';
+import { Random } from './random';
+
+export const NO_DISTURBANCE: Disturbance = { actuatorNoise: 0, wind: 0, kick: 0 };
+
+/** Force the cart actually feels (N): the commanded force plus the actuator noise. */
+export const appliedForce = (force: number, disturbance: Disturbance): number => force + disturbance.actuatorNoise;
+
+/**
+ * Draws the disturbances acting during the step that starts at `steps`.
+ * `previousWind` is the wind of the previous step (0 at reset), which random
+ * wind evolves from as an Ornstein-Uhlenbeck process with standard deviation
+ * `windForce` and correlation time `windPeriod`. Only enabled effects consume
+ * random numbers, so with everything off episodes match the undisturbed env.
+ */
+export const sampleDisturbance = (
+  config: SimulationConfig,
+  steps: number,
+  previousWind: number,
+  rng: Random
+): Disturbance => {
+  const { tau, windMode, windForce, windPeriod, kickRate, kickImpulse, actuatorNoiseStd } = config;
+
+  let wind = 0;
+  if (windMode === 'scheduled') {
+    const phase = ((steps * tau) / windPeriod) % 1;
+    wind = phase < 0.5 ? windForce : -windForce;
+  } else if (windMode === 'random') {
+    const decay = Math.exp(-tau / windPeriod);
+    wind = previousWind * decay + windForce * Math.sqrt(1 - decay * decay) * rng.normal();
+  }
+
+  // Kicks arrive as a Poisson process, in a random direction
+  let kick = 0;
+  if (kickRate > 0 && rng.next() < kickRate * tau) {
+    kick = rng.next() < 0.5 ? -kickImpulse : kickImpulse;
+  }
+
+  const actuatorNoise = actuatorNoiseStd > 0 ? rng.normal(0, actuatorNoiseStd) : 0;
+
+  return { actuatorNoise, wind, kick };
+};
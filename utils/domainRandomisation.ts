@@ -0,0 +1,46 @@
+import { ParameterRange, ResetResult, SimulationConfig } from '../types';
+import { withNumericField } from './configSchema';
+import { CartPoleEnv } from './environment';
+import { Random } from './random';
+
+/**
+ * Domain randomisation: training on a different physical system every
+ * episode, so the agent learns a policy that copes with a whole range of
+ * parameters instead of one that only works at the nominal config.
+ */
+
+// Separates the config draws from the episode's own random stream for the same seed
+const SAMPLER_SALT = 0x9e3779b9;
+
+/** `base` with every ranged field drawn uniformly from its range; integer fields are rounded. */
+export const sampleConfig = (base: SimulationConfig, ranges: ParameterRange[], rng: Random): SimulationConfig => {
+  let config = base;
+  for (const range of ranges) config = withNumericField(config, range.key, rng.uniform(range.min, range.max));
+  return config;
+};
+
+/**
+ * CartPole whose config is re-sampled around `base` at every reset. A seeded
+ * reset also reseeds the sampler, so a seed still fixes the whole episode,
+ * config included.
+ */
+export class RandomisedCartPoleEnv extends CartPoleEnv {
+  private readonly base: SimulationConfig;
+  private readonly ranges: ParameterRange[];
+  private sampler: Random;
+
+  constructor(base: SimulationConfig, ranges: ParameterRange[], seed?: number) {
+    super(base, seed);
+    this.base = base;
+    this.ranges = ranges;
+    this.sampler = new Random(this.getSeed() ^ SAMPLER_SALT);
+  }
+
+  reset(seed?: number): ResetResult {
+    if (seed !== undefined) {
+      this.sampler = new Random(seed ^ SAMPLER_SALT);
+    }
+    this.setConfig(sampleConfig(this.base, this.ranges, this.sampler));
+    return super.reset(seed);
+  }
+}
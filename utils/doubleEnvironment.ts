@@ -0,0 +1,130 @@
+import {
+  DoubleCartPoleConfig,
+  DoubleCartPoleState,
+  DoublePhysicalState,
+  EnvAction,
+  Environment,
+  Observation,
+  ResetResult,
+  StepHistory,
+  StepInfo,
+  StepResult,
+} from '../types';
+import { actionToForce } from './physics';
+import { computeDoubleAccelerations, getDoubleInitialState, updateDoublePhysics } from './doublePhysics';
+import { Random, randomSeed } from './random';
+import { NO_DISTURBANCE, appliedForce } from './disturbances';
+
+export const toDoubleObservation = (state: DoubleCartPoleState): Observation => [
+  state.x,
+  state.xDot,
+  state.theta1,
+  state.theta1Dot,
+  state.theta2,
+  state.theta2Dot,
+];
+
+/**
+ * Analysis row for one double-pendulum step. The lower pole fills the
+ * theta columns shared with the single CartPole, the upper pole the theta2 ones.
+ */
+export const toDoubleStepHistory = (
+  previous: DoublePhysicalState,
+  info: StepInfo<DoubleCartPoleState>,
+  reward: number,
+  episodeReturn: number,
+  config: DoubleCartPoleConfig
+): StepHistory => {
+  const { xAcc, theta1Acc, theta2Acc } = computeDoubleAccelerations(previous, info.force, config);
+  const { state } = info;
+  return {
+    step: state.steps,
+    x: state.x,
+    xDot: state.xDot,
+    theta: state.theta1,
+    thetaDot: state.theta1Dot,
+    action: appliedForce(info.force, info.disturbance),
+    reward,
+    return: episodeReturn,
+    xAcc,
+    thetaAcc: theta1Acc,
+    terminatedCode: state.terminatedCode,
+    theta2: state.theta2,
+    theta2Dot: state.theta2Dot,
+    theta2Acc,
+  };
+};
+
+/**
+ * Gym-style double inverted pendulum, the counterpart of `CartPoleEnv`:
+ * same seeding, reset/step contract and +1 reward per step. There are no
+ * disturbances, so every step reports `NO_DISTURBANCE`.
+ */
+export class DoubleCartPoleEnv implements Environment<DoubleCartPoleConfig, DoubleCartPoleState> {
+  private config: DoubleCartPoleConfig;
+  private state: DoubleCartPoleState;
+  private rng: Random;
+  private lastForce = 0;
+
+  constructor(config: DoubleCartPoleConfig, seed: number = randomSeed()) {
+    this.config = config;
+    this.rng = new Random(seed);
+    this.state = getDoubleInitialState(this.rng);
+  }
+
+  getConfig(): DoubleCartPoleConfig {
+    return this.config;
+  }
+
+  setConfig(config: DoubleCartPoleConfig) {
+    this.config = config;
+  }
+
+  getState(): DoubleCartPoleState {
+    return this.state;
+  }
+
+  getSeed(): number {
+    return this.rng.seed;
+  }
+
+  reset(seed?: number): ResetResult<DoubleCartPoleState> {
+    if (seed !== undefined) {
+      this.rng = new Random(seed);
+    }
+    this.state = getDoubleInitialState(this.rng);
+    this.lastForce = 0;
+    return {
+      observation: toDoubleObservation(this.state),
+      info: this.getInfo(),
+    };
+  }
+
+  step(action: EnvAction): StepResult<DoubleCartPoleState> {
+    if (this.state.done) {
+      throw new Error('Cannot step a finished episode; call reset() first');
+    }
+
+    this.lastForce = actionToForce(action, this.config);
+    this.state = updateDoublePhysics(this.state, action, this.config);
+    const { terminatedCode } = this.state;
+
+    return {
+      observation: toDoubleObservation(this.state),
+      reward: 1,
+      terminated: terminatedCode === 'pole_fell' || terminatedCode === 'out_of_bounds',
+      truncated: terminatedCode === 'max_steps',
+      info: this.getInfo(),
+    };
+  }
+
+  private getInfo(): StepInfo<DoubleCartPoleState> {
+    return {
+      steps: this.state.steps,
+      force: this.lastForce,
+      disturbance: NO_DISTURBANCE,
+      terminatedCode: this.state.terminatedCode,
+      state: this.state,
+    };
+  }
+}
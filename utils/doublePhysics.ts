@@ -0,0 +1,180 @@
+import { DoubleCartPoleConfig, DoubleCartPoleState, DoublePhysicalState, EnvAction } from '../types';
+import { Random } from './random';
+import { actionToForce } from './physics';
+
+// Determinant of the 3x3 matrix with the given columns
+const det3 = (a: number[], b: number[], c: number[]) =>
+  a[0] * (b[1] * c[2] - c[1] * b[2]) - b[0] * (a[1] * c[2] - c[1] * a[2]) + c[0] * (a[1] * b[2] - b[1] * a[2]);
+
+/**
+ * Cart and pole accelerations of the double inverted pendulum for a given
+ * state and applied force. Both poles are uniform rods (as in the single
+ * CartPole), angles are measured from vertical with upright at zero. The
+ * Lagrangian equations form a 3x3 system D·[ẍ, θ̈1, θ̈2] = f, solved here by
+ * Cramer's rule. With pole 2 massless this reduces to the single-pole
+ * dynamics of `computeAccelerations` (without friction).
+ */
+export const computeDoubleAccelerations = (
+  state: DoublePhysicalState,
+  force: number,
+  config: DoubleCartPoleConfig
+): { xAcc: number; theta1Acc: number; theta2Acc: number } => {
+  const { gravity, cartMass, pole1Mass, pole1Length, pole2Mass, pole2Length } = config;
+  const { theta1, theta1Dot, theta2, theta2Dot } = state;
+
+  // Pole 2 is hinged at the tip of pole 1, a full length (2·half-length) from the cart pivot
+  const hinge = 2 * pole1Length;
+  const s1 = Math.sin(theta1);
+  const c1 = Math.cos(theta1);
+  const s2 = Math.sin(theta2);
+  const c2 = Math.cos(theta2);
+  const s12 = Math.sin(theta1 - theta2);
+  const c12 = Math.cos(theta1 - theta2);
+
+  const a1 = pole1Mass * pole1Length + pole2Mass * hinge;
+  const a2 = pole2Mass * pole2Length;
+
+  // Symmetric mass matrix
+  const d11 = cartMass + pole1Mass + pole2Mass;
+  const d12 = a1 * c1;
+  const d13 = a2 * c2;
+  const d22 = (4 / 3) * pole1Mass * pole1Length * pole1Length + pole2Mass * hinge * hinge;
+  const d23 = pole2Mass * hinge * pole2Length * c12;
+  const d33 = (4 / 3) * pole2Mass * pole2Length * pole2Length;
+
+  // Applied force, centripetal and gravity terms
+  const f1 = force + a1 * s1 * theta1Dot * theta1Dot + a2 * s2 * theta2Dot * theta2Dot;
+  const f2 = a1 * gravity * s1 - pole2Mass * hinge * pole2Length * s12 * theta2Dot * theta2Dot;
+  const f3 = a2 * gravity * s2 + pole2Mass * hinge * pole2Length * s12 * theta1Dot * theta1Dot;
+
+  const det = det3([d11, d12, d13], [d12, d22, d23], [d13, d23, d33]);
+  return {
+    xAcc: det3([f1, f2, f3], [d12, d22, d23], [d13, d23, d33]) / det,
+    theta1Acc: det3([d11, d12, d13], [f1, f2, f3], [d13, d23, d33]) / det,
+    theta2Acc: det3([d11, d12, d13], [d12, d22, d23], [f1, f2, f3]) / det,
+  };
+};
+
+const derivative = (s: DoublePhysicalState, force: number, config: DoubleCartPoleConfig): DoublePhysicalState => {
+  const { xAcc, theta1Acc, theta2Acc } = computeDoubleAccelerations(s, force, config);
+  return { x: s.xDot, xDot: xAcc, theta1: s.theta1Dot, theta1Dot: theta1Acc, theta2: s.theta2Dot, theta2Dot: theta2Acc };
+};
+
+const addScaled = (s: DoublePhysicalState, d: DoublePhysicalState, h: number): DoublePhysicalState => ({
+  x: s.x + h * d.x,
+  xDot: s.xDot + h * d.xDot,
+  theta1: s.theta1 + h * d.theta1,
+  theta1Dot: s.theta1Dot + h * d.theta1Dot,
+  theta2: s.theta2 + h * d.theta2,
+  theta2Dot: s.theta2Dot + h * d.theta2Dot,
+});
+
+/**
+ * Advances the continuous state by one `tau` with the configured integrator,
+ * exactly as `integrate` does for the single pole.
+ */
+export const integrateDouble = (
+  state: DoublePhysicalState,
+  force: number,
+  config: DoubleCartPoleConfig
+): DoublePhysicalState => {
+  const { tau, integrator } = config;
+
+  switch (integrator) {
+    case 'semi-implicit-euler': {
+      const d = derivative(state, force, config);
+      const xDot = state.xDot + tau * d.xDot;
+      const theta1Dot = state.theta1Dot + tau * d.theta1Dot;
+      const theta2Dot = state.theta2Dot + tau * d.theta2Dot;
+      return {
+        x: state.x + tau * xDot,
+        xDot,
+        theta1: state.theta1 + tau * theta1Dot,
+        theta1Dot,
+        theta2: state.theta2 + tau * theta2Dot,
+        theta2Dot,
+      };
+    }
+    case 'rk4': {
+      const k1 = derivative(state, force, config);
+      const k2 = derivative(addScaled(state, k1, tau / 2), force, config);
+      const k3 = derivative(addScaled(state, k2, tau / 2), force, config);
+      const k4 = derivative(addScaled(state, k3, tau), force, config);
+      return addScaled(addScaled(addScaled(addScaled(state, k1, tau / 6), k2, tau / 3), k3, tau / 3), k4, tau / 6);
+    }
+    default:
+      return addScaled(state, derivative(state, force, config), tau);
+  }
+};
+
+/**
+ * Total mechanical energy (J) of cart and both poles, potential measured from
+ * the cart pivot height. Constant without applied force, up to integration error.
+ */
+export const computeDoubleEnergy = (state: DoublePhysicalState, config: DoubleCartPoleConfig): number => {
+  const { gravity, cartMass, pole1Mass, pole1Length, pole2Mass, pole2Length } = config;
+  const { xDot, theta1, theta1Dot, theta2, theta2Dot } = state;
+  const hinge = 2 * pole1Length;
+
+  // Centre-of-mass velocities of the poles
+  const v1x = xDot + pole1Length * Math.cos(theta1) * theta1Dot;
+  const v1y = -pole1Length * Math.sin(theta1) * theta1Dot;
+  const v2x = xDot + hinge * Math.cos(theta1) * theta1Dot + pole2Length * Math.cos(theta2) * theta2Dot;
+  const v2y = -hinge * Math.sin(theta1) * theta1Dot - pole2Length * Math.sin(theta2) * theta2Dot;
+
+  const kinetic =
+    0.5 * cartMass * xDot * xDot +
+    0.5 * pole1Mass * (v1x * v1x + v1y * v1y) +
+    (1 / 6) * pole1Mass * pole1Length * pole1Length * theta1Dot * theta1Dot +
+    0.5 * pole2Mass * (v2x * v2x + v2y * v2y) +
+    (1 / 6) * pole2Mass * pole2Length * pole2Length * theta2Dot * theta2Dot;
+  const potential =
+    pole1Mass * gravity * pole1Length * Math.cos(theta1) +
+    pole2Mass * gravity * (hinge * Math.cos(theta1) + pole2Length * Math.cos(theta2));
+  return kinetic + potential;
+};
+
+/**
+ * Updates the double pendulum by one timestep. The episode fails when the
+ * cart leaves the track or either pole tilts past the fail angle.
+ */
+export const updateDoublePhysics = (
+  state: DoubleCartPoleState,
+  action: EnvAction,
+  config: DoubleCartPoleConfig
+): DoubleCartPoleState => {
+  const { xThreshold, thetaThresholdDegrees, maxSteps } = config;
+  const next = integrateDouble(state, actionToForce(action, config), config);
+
+  const thetaThresholdRad = (thetaThresholdDegrees * Math.PI) / 180;
+  const steps = state.steps + 1;
+
+  let terminatedCode: DoubleCartPoleState['terminatedCode'] = 'running';
+  if (Math.abs(next.x) > xThreshold) {
+    terminatedCode = 'out_of_bounds';
+  } else if (Math.abs(next.theta1) > thetaThresholdRad || Math.abs(next.theta2) > thetaThresholdRad) {
+    terminatedCode = 'pole_fell';
+  } else if (steps >= maxSteps) {
+    terminatedCode = 'max_steps';
+  }
+
+  return { ...next, done: terminatedCode !== 'running', steps, terminatedCode };
+};
+
+/**
+ * Random initial state near upright, drawn like the single CartPole's.
+ */
+export const getDoubleInitialState = (rng: Random): DoubleCartPoleState => {
+  const rand = () => rng.uniform(-0.05, 0.05);
+  return {
+    x: rand(),
+    xDot: rand(),
+    theta1: rand(),
+    theta1Dot: rand(),
+    theta2: rand(),
+    theta2Dot: rand(),
+    done: false,
+    steps: 0,
+    terminatedCode: 'running',
+  };
+};
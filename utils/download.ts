@@ -0,0 +1,11 @@
+/**
+ * Saves text as a file through the browser's download mechanism.
+ */
+export const downloadText = (fileName: string, content: string, mimeType = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
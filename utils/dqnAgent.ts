@@ -0,0 +1,160 @@
+import { ActionSpace, Agent, AgentSnapshot, DqnAgentConfig, DqnAgentSnapshot, EnvAction, Observation, SimulationConfig, Transition } from '../types';
+import { MLP, Optimizer, createOptimizer, huber } from './neuralNetwork';
+import { ReplayBuffer } from './replayBuffer';
+import { getObservationBounds } from './tabularAgent';
+import { getActionSet } from './physics';
+import { Random } from './random';
+
+/**
+ * Deep Q-Network: an MLP approximates Q(s, ·) directly from the continuous
+ * observation. Learns from minibatches drawn out of an experience replay
+ * buffer, bootstrapping against a target network synced every K steps.
+ */
+export class DqnAgent implements Agent {
+  readonly name = 'DQN';
+  readonly actionSpace: ActionSpace;
+  private readonly config: DqnAgentConfig;
+  private readonly simConfig: SimulationConfig;
+  private readonly online: MLP;
+  private readonly target: MLP;
+  private readonly optimizer: Optimizer;
+  private readonly buffer: ReplayBuffer;
+  private readonly scales: number[];
+  private readonly actions: EnvAction[];
+  private readonly rng: Random;
+  private currentEpsilon: number;
+  private totalSteps = 0;
+
+  constructor(config: DqnAgentConfig, simConfig: SimulationConfig, seed: number) {
+    this.config = config;
+    this.simConfig = simConfig;
+    this.actionSpace = simConfig.actionSpace;
+    this.rng = new Random(seed);
+    // Inputs are divided by the observation bounds so they sit roughly in [-1, 1]
+    this.scales = getObservationBounds(simConfig);
+
+    this.actions = getActionSet(simConfig);
+    const sizes = [this.scales.length, ...config.hiddenLayers, this.actions.length];
+    this.online = new MLP(sizes, config.activation, this.rng);
+    this.target = new MLP(sizes, config.activation, this.rng);
+    this.target.copyFrom(this.online);
+    this.optimizer = createOptimizer(config.optimizer, config.learningRate);
+    this.buffer = new ReplayBuffer(config.bufferSize, this.scales.length);
+    this.currentEpsilon = config.epsilonStart;
+  }
+
+  get epsilon(): number {
+    return this.currentEpsilon;
+  }
+
+  act(observation: Observation): EnvAction {
+    return this.selectAction(observation, false);
+  }
+
+  selectAction(observation: Observation, explore: boolean): EnvAction {
+    if (explore && this.rng.next() < this.currentEpsilon) {
+      return this.actions[this.rng.int(this.actions.length)];
+    }
+    return this.actions[argmax(this.online.forward(this.normalize(observation)))];
+  }
+
+  /** Q-value of the greedy action. */
+  value(observation: Observation): number {
+    const q = this.online.forward(this.normalize(observation));
+    return q[argmax(q)];
+  }
+
+  /** Stores the transition and, once warmed up, runs one minibatch update. Returns the batch loss. */
+  update(transition: Transition): number {
+    const { observation, action, reward, nextObservation, terminated } = transition;
+    this.buffer.push(
+      this.normalize(observation),
+      this.actions.indexOf(action),
+      reward,
+      this.normalize(nextObservation),
+      terminated
+    );
+    this.totalSteps++;
+
+    let loss = 0;
+    if (this.buffer.size >= Math.max(this.config.warmupSteps, this.config.batchSize)) {
+      loss = this.trainBatch();
+    }
+    if (this.totalSteps % this.config.targetSyncInterval === 0) {
+      this.target.copyFrom(this.online);
+    }
+    return loss;
+  }
+
+  endEpisode() {
+    this.currentEpsilon = Math.max(this.config.epsilonMin, this.currentEpsilon * this.config.epsilonDecay);
+  }
+
+  /** Online network parameters; the replay buffer and optimiser state are not included. */
+  snapshot(): AgentSnapshot {
+    return {
+      config: this.config,
+      simConfig: this.simConfig,
+      epsilon: this.currentEpsilon,
+      weights: this.online.weights.map((w) => Array.from(w)),
+      biases: this.online.biases.map((b) => Array.from(b)),
+    };
+  }
+
+  /** Rebuilds an agent from `snapshot()` output, e.g. on the other side of a worker boundary. */
+  static fromSnapshot(snapshot: DqnAgentSnapshot, seed: number): DqnAgent {
+    const agent = new DqnAgent(snapshot.config, snapshot.simConfig, seed);
+    if (
+      snapshot.weights.length !== agent.online.weights.length ||
+      snapshot.weights.some((w, l) => w.length !== agent.online.weights[l].length) ||
+      snapshot.biases.length !== agent.online.biases.length ||
+      snapshot.biases.some((b, l) => b.length !== agent.online.biases[l].length)
+    ) {
+      throw new Error('Network snapshot does not match the configured layer sizes');
+    }
+    snapshot.weights.forEach((w, l) => agent.online.weights[l].set(w));
+    snapshot.biases.forEach((b, l) => agent.online.biases[l].set(b));
+    agent.target.copyFrom(agent.online);
+    agent.currentEpsilon = snapshot.epsilon;
+    return agent;
+  }
+
+  private trainBatch(): number {
+    const { batchSize, discount, huberDelta } = this.config;
+    const outputGrad = new Float64Array(this.actions.length);
+    let lossSum = 0;
+
+    this.online.zeroGrad();
+    for (const i of this.buffer.sample(batchSize, this.rng)) {
+      let targetValue = this.buffer.rewards[i];
+      if (!this.buffer.terminals[i]) {
+        const nextQ = this.target.forward(this.buffer.nextObservationAt(i));
+        targetValue += discount * nextQ[argmax(nextQ)];
+      }
+
+      const a = this.buffer.actions[i];
+      const q = this.online.forward(this.buffer.observationAt(i));
+      const { loss, grad } = huber(q[a] - targetValue, huberDelta);
+      lossSum += loss;
+
+      // Only the taken action's output receives a gradient
+      outputGrad.fill(0);
+      outputGrad[a] = grad;
+      this.online.backward(outputGrad);
+    }
+    this.optimizer.step(this.online, 1 / batchSize);
+    return lossSum / batchSize;
+  }
+
+  private normalize(observation: Observation): number[] {
+    return observation.map((v, i) => v / this.scales[i]);
+  }
+}
+
+const argmax = (values: ArrayLike<number>): number => {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+};
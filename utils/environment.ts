@@ -0,0 +1,158 @@
+import {
+  Disturbance,
+  EnvAction,
+  Environment,
+  Observation,
+  PhysicalState,
+  ResetResult,
+  SimulationConfig,
+  SimulationState,
+  StepHistory,
+  StepInfo,
+  StepResult,
+} from '../types';
+import { actionToForce, computeAccelerations, getInitialState, updatePhysics } from './physics';
+import { Random, randomSeed } from './random';
+import { NO_DISTURBANCE, appliedForce, sampleDisturbance } from './disturbances';
+import { stepReward } from './reward';
+
+/**
+ * Flattens a physics state into the observation vector agents consume.
+ */
+export const toObservation = (state: SimulationState): Observation => [
+  state.x,
+  state.xDot,
+  state.theta,
+  state.thetaDot,
+];
+
+/**
+ * Builds the analysis row for one step from the state it started in and
+ * what the step produced.
+ */
+export const toStepHistory = (
+  previous: PhysicalState,
+  info: StepInfo,
+  reward: number,
+  episodeReturn: number,
+  config: SimulationConfig
+): StepHistory => {
+  const { xAcc, thetaAcc } = computeAccelerations(previous, info.force, config, info.disturbance);
+  const { state } = info;
+  return {
+    step: state.steps,
+    x: state.x,
+    xDot: state.xDot,
+    theta: state.theta,
+    thetaDot: state.thetaDot,
+    action: appliedForce(info.force, info.disturbance),
+    reward,
+    return: episodeReturn,
+    xAcc,
+    thetaAcc,
+    terminatedCode: state.terminatedCode,
+  };
+};
+
+/**
+ * Headless, Gym-style CartPole environment built around `updatePhysics`.
+ * Has no React or canvas dependency, so the UI, agents and scripts all
+ * drive the system through the same reset/step interface.
+ */
+export class CartPoleEnv implements Environment<SimulationConfig, SimulationState> {
+  private config: SimulationConfig;
+  private state: SimulationState;
+  private rng: Random;
+  private lastForce = 0;
+  private lastDisturbance: Disturbance = NO_DISTURBANCE;
+
+  constructor(config: SimulationConfig, seed: number = randomSeed()) {
+    this.config = config;
+    this.rng = new Random(seed);
+    this.state = getInitialState(this.rng, this.config.task);
+  }
+
+  getConfig(): SimulationConfig {
+    return this.config;
+  }
+
+  /**
+   * Swaps the physics parameters. Takes effect on the next step without
+   * resetting the episode, so sliders can be moved mid-run.
+   */
+  setConfig(config: SimulationConfig) {
+    this.config = config;
+  }
+
+  getState(): SimulationState {
+    return this.state;
+  }
+
+  /** Seed the environment's random stream was last (re)started from. */
+  getSeed(): number {
+    return this.rng.seed;
+  }
+
+  /**
+   * The environment's random stream, for any stochastic element of an
+   * episode (noise, disturbances) so it stays reproducible from the seed.
+   */
+  getRandom(): Random {
+    return this.rng;
+  }
+
+  /**
+   * Starts a new episode. Passing a seed restarts the random stream, so the
+   * same seed and config always give the same episode; without one the
+   * current stream simply continues (Gym convention).
+   */
+  reset(seed?: number): ResetResult {
+    if (seed !== undefined) {
+      this.rng = new Random(seed);
+    }
+    this.state = getInitialState(this.rng, this.config.task);
+    this.lastForce = 0;
+    this.lastDisturbance = NO_DISTURBANCE;
+    return {
+      observation: toObservation(this.state),
+      info: this.getInfo(),
+    };
+  }
+
+  /**
+   * Advances the system by one `tau`. `action` is interpreted under the
+   * config's action space (see `EnvAction`). Disturbances enabled in the
+   * config are drawn from the environment's random stream. Reward comes from
+   * the config's reward weights (`stepReward`) and is paid for every step
+   * taken, including the one that ends the episode (Gym convention); by
+   * default that is +1 per step.
+   */
+  step(action: EnvAction): StepResult {
+    if (this.state.done) {
+      throw new Error('Cannot step a finished episode; call reset() first');
+    }
+
+    this.lastForce = actionToForce(action, this.config);
+    this.lastDisturbance = sampleDisturbance(this.config, this.state.steps, this.lastDisturbance.wind, this.rng);
+    this.state = updatePhysics(this.state, action, this.config, this.lastDisturbance);
+    const { terminatedCode } = this.state;
+
+    return {
+      observation: toObservation(this.state),
+      reward: stepReward(this.state, terminatedCode, appliedForce(this.lastForce, this.lastDisturbance), this.config),
+      terminated: terminatedCode === 'pole_fell' || terminatedCode === 'out_of_bounds',
+      truncated: terminatedCode === 'max_steps',
+      info: this.getInfo(),
+    };
+  }
+
+  private getInfo(): StepInfo {
+    return {
+      steps: this.state.steps,
+      force: this.lastForce,
+      disturbance: this.lastDisturbance,
+      terminatedCode: this.state.terminatedCode,
+      state: this.state,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  DoubleCartPoleConfig,
+  DoubleCartPoleState,
+  Environment,
+  EnvironmentConfig,
+  EnvironmentKind,
+  EnvironmentState,
+  Observation,
+  SimulationConfig,
+  SimulationState,
+  StepHistory,
+  StepInfo,
+} from '../types';
+import { CARTPOLE_CONFIG_SPEC, ConfigSpec, DOUBLE_CONFIG_SPEC, encodeConfigToSearch } from './configSchema';
+import { CartPoleEnv, toObservation, toStepHistory } from './environment';
+import { DoubleCartPoleEnv, toDoubleObservation, toDoubleStepHistory } from './doubleEnvironment';
+import { wrapAngle } from './physics';
+import { stepReward } from './reward';
+import { DisturbanceOverlay, drawCartPole, drawDoubleCartPole } from './render';
+
+/**
+ * Everything the simulation view, config panel and episode files need to
+ * run one kind of environment without knowing which it is.
+ */
+export interface EnvironmentSpec<C extends EnvironmentConfig, S extends EnvironmentState> {
+  kind: EnvironmentKind;
+  label: string;
+  config: ConfigSpec<C>;
+  create: (config: C, seed?: number) => Environment<C, S>;
+  toObservation: (state: S) => Observation;
+  // Reward for the step that applied `force` and arrived in `state`, matching what the environment's step() returns
+  reward: (state: S, force: number, config: C) => number;
+  toStepHistory: (previous: S, info: StepInfo<S>, reward: number, episodeReturn: number, config: C) => StepHistory;
+  // Blend for drawing between fixed steps; alpha 0 is `from`, 1 is `to`
+  interpolate: (from: S, to: S, alpha: number) => S;
+  draw: (ctx: CanvasRenderingContext2D, state: S, config: C, force: number, overlay?: DisturbanceOverlay) => void;
+  // Structural check used when loading episode files
+  isState: (value: unknown) => value is S;
+}
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+const hasNumbers = (value: unknown, keys: string[]): boolean => {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as Record<string, unknown>;
+  return (
+    keys.every((key) => typeof s[key] === 'number' && Number.isFinite(s[key])) &&
+    typeof s.done === 'boolean' &&
+    typeof s.terminatedCode === 'string'
+  );
+};
+
+export const CARTPOLE: EnvironmentSpec<SimulationConfig, SimulationState> = {
+  kind: 'cartpole',
+  label: 'CartPole',
+  config: CARTPOLE_CONFIG_SPEC,
+  create: (config, seed) => new CartPoleEnv(config, seed),
+  toObservation,
+  reward: (state, force, config) => stepReward(state, state.terminatedCode, force, config),
+  toStepHistory,
+  // The angle takes the short way round, so a swing-up pole crossing ±180° doesn't spin back
+  interpolate: (from, to, alpha) => ({
+    ...to,
+    x: lerp(from.x, to.x, alpha),
+    xDot: lerp(from.xDot, to.xDot, alpha),
+    theta: from.theta + wrapAngle(to.theta - from.theta) * alpha,
+    thetaDot: lerp(from.thetaDot, to.thetaDot, alpha),
+  }),
+  draw: drawCartPole,
+  isState: (value): value is SimulationState => hasNumbers(value, ['x', 'xDot', 'theta', 'thetaDot', 'steps']),
+};
+
+export const DOUBLE_CARTPOLE: EnvironmentSpec<DoubleCartPoleConfig, DoubleCartPoleState> = {
+  kind: 'double-cartpole',
+  label: 'Double CartPole',
+  config: DOUBLE_CONFIG_SPEC,
+  create: (config, seed) => new DoubleCartPoleEnv(config, seed),
+  toObservation: toDoubleObservation,
+  reward: () => 1,
+  toStepHistory: toDoubleStepHistory,
+  interpolate: (from, to, alpha) => ({
+    ...to,
+    x: lerp(from.x, to.x, alpha),
+    xDot: lerp(from.xDot, to.xDot, alpha),
+    theta1: lerp(from.theta1, to.theta1, alpha),
+    theta1Dot: lerp(from.theta1Dot, to.theta1Dot, alpha),
+    theta2: lerp(from.theta2, to.theta2, alpha),
+    theta2Dot: lerp(from.theta2Dot, to.theta2Dot, alpha),
+  }),
+  draw: (ctx, state, config, force) => drawDoubleCartPole(ctx, state, config, force),
+  isState: (value): value is DoubleCartPoleState =>
+    hasNumbers(value, ['x', 'xDot', 'theta1', 'theta1Dot', 'theta2', 'theta2Dot', 'steps']),
+};
+
+export const ENVIRONMENT_OPTIONS: { kind: EnvironmentKind; label: string }[] = [
+  { kind: CARTPOLE.kind, label: CARTPOLE.label },
+  { kind: DOUBLE_CARTPOLE.kind, label: DOUBLE_CARTPOLE.label },
+];
+
+// Query parameter naming the environment in shared links; absent means the single CartPole
+const ENVIRONMENT_PARAM = 'env';
+
+export const decodeEnvironmentFromSearch = (search: string): EnvironmentKind =>
+  new URLSearchParams(search).get(ENVIRONMENT_PARAM) === 'double-cartpole' ? 'double-cartpole' : 'cartpole';
+
+/**
+ * Query string for the given environment and its config. Fields belonging
+ * only to the other environments are dropped so a link never mixes them.
+ */
+export const encodeEnvironmentToSearch = <C extends EnvironmentConfig, S extends EnvironmentState>(
+  spec: EnvironmentSpec<C, S>,
+  config: C,
+  search: string
+): string => {
+  const params = new URLSearchParams(search);
+  for (const other of [CARTPOLE, DOUBLE_CARTPOLE]) {
+    for (const field of other.config.schema) params.delete(String(field.key));
+  }
+  if (spec.kind === 'cartpole') params.delete(ENVIRONMENT_PARAM);
+  else params.set(ENVIRONMENT_PARAM, spec.kind);
+  return encodeConfigToSearch(config, params.toString(), spec.config.schema);
+};
@@ -0,0 +1,150 @@
+import { EnvironmentConfig, EnvironmentKind, EnvironmentState, EpisodeRecording, StepHistory } from '../types';
+import { NO_DISTURBANCE, appliedForce } from './disturbances';
+import { DisturbanceOverlay, KICK_DISPLAY_SECONDS } from './render';
+import { ENVIRONMENT_OPTIONS, EnvironmentSpec } from './environments';
+
+/**
+ * Episode files are JSON documents holding everything needed to re-render a
+ * run exactly: the config it started with, the seed, the initial state and
+ * every step's action and resulting state. Bump the version whenever the
+ * layout changes in a way older readers cannot handle.
+ */
+export const EPISODE_FILE_VERSION = 1;
+
+export const createRecording = <C, S>(
+  environment: EnvironmentKind,
+  controller: string,
+  config: C,
+  seed: number,
+  initialState: S
+): EpisodeRecording<C, S> => ({
+  version: EPISODE_FILE_VERSION,
+  recordedAt: new Date().toISOString(),
+  environment,
+  controller,
+  config,
+  seed,
+  initialState,
+  steps: [],
+});
+
+/** State shown at a replay frame: frame 0 is the initial state, frame i the state after step i. */
+export const recordingFrame = <C, S>(recording: EpisodeRecording<C, S>, frame: number): S =>
+  frame <= 0 ? recording.initialState : recording.steps[Math.min(frame, recording.steps.length) - 1].state;
+
+/** Force applied on the step that led to `frame` (0 for the initial state). */
+export const recordingForce = <C, S>(recording: EpisodeRecording<C, S>, frame: number): number =>
+  frame <= 0 ? 0 : recording.steps[Math.min(frame, recording.steps.length) - 1].force;
+
+/**
+ * Disturbances to draw at `frame`: those of the step that led there, plus the
+ * latest kick if it landed recently enough to still be visible.
+ */
+export const recordingOverlay = <C extends EnvironmentConfig, S>(
+  recording: EpisodeRecording<C, S>,
+  frame: number
+): DisturbanceOverlay => {
+  const last = Math.min(frame, recording.steps.length);
+  const current = last > 0 ? recording.steps[last - 1].disturbance ?? NO_DISTURBANCE : NO_DISTURBANCE;
+  const overlay: DisturbanceOverlay = { wind: current.wind, noise: current.actuatorNoise, kick: 0, kickAge: 1 };
+
+  const visibleSteps = Math.ceil(KICK_DISPLAY_SECONDS / recording.config.tau);
+  for (let i = last; i > 0 && last - i < visibleSteps; i--) {
+    const kick = recording.steps[i - 1].disturbance?.kick ?? 0;
+    if (kick !== 0) {
+      overlay.kick = kick;
+      overlay.kickAge = (last - i) / visibleSteps;
+      break;
+    }
+  }
+  return overlay;
+};
+
+/** Per-step rows in the shape the analysis charts use. */
+export const recordingToHistory = <C extends EnvironmentConfig, S extends EnvironmentState>(
+  recording: EpisodeRecording<C, S>,
+  spec: EnvironmentSpec<C, S>
+): StepHistory[] => {
+  let episodeReturn = 0;
+  return recording.steps.map(({ state, force, disturbance = NO_DISTURBANCE }, i) => {
+    const reward = spec.reward(state, appliedForce(force, disturbance), recording.config);
+    episodeReturn += reward;
+    return spec.toStepHistory(
+      recordingFrame(recording, i),
+      { steps: state.steps, force, disturbance, terminatedCode: state.terminatedCode, state },
+      reward,
+      episodeReturn,
+      recording.config
+    );
+  });
+};
+
+export const serializeRecording = <C, S>(recording: EpisodeRecording<C, S>): string => JSON.stringify(recording);
+
+export const recordingFileName = <C, S>(recording: EpisodeRecording<C, S>): string =>
+  `${recording.environment ?? 'cartpole'}-${recording.controller.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-seed${recording.seed}-${recording.steps.length}steps.json`;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOptionalDisturbance = (value: unknown): boolean => {
+  if (value === undefined) return true;
+  if (typeof value !== 'object' || value === null) return false;
+  const d = value as Record<string, unknown>;
+  return isNumber(d.actuatorNoise) && isNumber(d.wind) && isNumber(d.kick);
+};
+
+/**
+ * Parses and validates an episode file for the environment `spec`. Config
+ * fields added after a file was written fall back to their defaults, so older
+ * recordings keep loading. Throws with a readable message when the file is
+ * not a usable recording, including one made in a different environment.
+ */
+export const parseRecording = <C extends EnvironmentConfig, S extends EnvironmentState>(
+  text: string,
+  spec: EnvironmentSpec<C, S>
+): EpisodeRecording<C, S> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Episode file is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null) throw new Error('Episode file is empty');
+  const file = data as Record<string, unknown>;
+
+  if (!isNumber(file.version)) throw new Error('Episode file has no version');
+  if (file.version > EPISODE_FILE_VERSION) {
+    throw new Error(`Episode file version ${file.version} is newer than this app supports (${EPISODE_FILE_VERSION})`);
+  }
+  const environment = file.environment ?? 'cartpole';
+  if (environment !== spec.kind) {
+    const label = ENVIRONMENT_OPTIONS.find((o) => o.kind === environment)?.label ?? String(environment);
+    throw new Error(`Episode file was recorded in ${label}; switch to that environment to replay it`);
+  }
+  if (typeof file.config !== 'object' || file.config === null) throw new Error('Episode file has no config');
+  if (!isNumber(file.seed)) throw new Error('Episode file has no seed');
+  if (!spec.isState(file.initialState)) throw new Error('Episode file has no valid initial state');
+  if (!Array.isArray(file.steps)) throw new Error('Episode file has no steps');
+
+  file.steps.forEach((step: unknown, i) => {
+    const s = step as Record<string, unknown> | null;
+    if (!s || !isNumber(s.action) || !isNumber(s.force) || !spec.isState(s.state) || !isOptionalDisturbance(s.disturbance)) {
+      throw new Error(`Episode file step ${i + 1} is malformed`);
+    }
+  });
+
+  const config: C = { ...spec.config.defaults, ...(file.config as Partial<C>) };
+  const configError = spec.config.validate(config).find((issue) => issue.severity === 'error');
+  if (configError) throw new Error(`Episode file config is invalid: ${configError.message}`);
+
+  return {
+    version: file.version,
+    recordedAt: typeof file.recordedAt === 'string' ? file.recordedAt : '',
+    environment: spec.kind,
+    controller: typeof file.controller === 'string' ? file.controller : 'Unknown',
+    config,
+    seed: file.seed,
+    initialState: file.initialState,
+    steps: file.steps as EpisodeRecording<C, S>['steps'],
+  };
+};
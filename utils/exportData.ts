@@ -0,0 +1,76 @@
+import { EpisodeTrace, StepHistory } from '../types';
+
+export type ExportFormat = 'csv' | 'jsonl';
+
+// Exported column order; `action` holds the applied force, so it is written as `force`
+const COLUMNS: { key: keyof StepHistory; name: string }[] = [
+  { key: 'step', name: 'step' },
+  { key: 'x', name: 'x' },
+  { key: 'xDot', name: 'xDot' },
+  { key: 'theta', name: 'theta' },
+  { key: 'thetaDot', name: 'thetaDot' },
+  { key: 'action', name: 'force' },
+  { key: 'reward', name: 'reward' },
+  { key: 'return', name: 'return' },
+  { key: 'xAcc', name: 'xAcc' },
+  { key: 'thetaAcc', name: 'thetaAcc' },
+  { key: 'terminatedCode', name: 'terminatedCode' },
+];
+
+// Upper-pole columns, added only when some exported episode is a double pendulum
+const SECOND_POLE_COLUMNS: { key: keyof StepHistory; name: string }[] = [
+  { key: 'theta2', name: 'theta2' },
+  { key: 'theta2Dot', name: 'theta2Dot' },
+  { key: 'theta2Acc', name: 'theta2Acc' },
+];
+
+const columnsFor = (traces: EpisodeTrace[]) =>
+  traces.some((t) => t.history.some((h) => h.theta2 !== undefined)) ? [...COLUMNS, ...SECOND_POLE_COLUMNS] : COLUMNS;
+
+// Columns an episode lacks are left empty
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One CSV for any number of episodes. Each episode's label and config go on a
+ * `#` comment line ahead of the table (pandas: `read_csv(path, comment='#')`),
+ * and every row carries the episode number to tell the episodes apart.
+ */
+export const tracesToCsv = (traces: EpisodeTrace[]): string => {
+  const columns = columnsFor(traces);
+  const lines = traces.map(
+    (trace, i) =>
+      `# episode=${i + 1} label=${JSON.stringify(trace.label)} environment=${trace.environment} config=${JSON.stringify(trace.config)}`
+  );
+  lines.push(['episode', ...columns.map((c) => c.name)].join(','));
+  traces.forEach((trace, i) => {
+    for (const row of trace.history) {
+      lines.push([i + 1, ...columns.map((c) => csvField(row[c.key]))].join(','));
+    }
+  });
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * JSON Lines: an `episode` metadata record (label, environment and config)
+ * followed by one `step` record per step, for each episode in turn.
+ */
+export const tracesToJsonl = (traces: EpisodeTrace[]): string => {
+  const lines: string[] = [];
+  traces.forEach((trace, i) => {
+    lines.push(
+      JSON.stringify({ type: 'episode', episode: i + 1, label: trace.label, environment: trace.environment, config: trace.config })
+    );
+    for (const row of trace.history) {
+      const record: Record<string, string | number | undefined> = { type: 'step', episode: i + 1 };
+      for (const c of columnsFor([trace])) record[c.name] = row[c.key];
+      lines.push(JSON.stringify(record));
+    }
+  });
+  return lines.join('\n') + '\n';
+};
+
+export const exportTraces = (traces: EpisodeTrace[], format: ExportFormat): string =>
+  format === 'csv' ? tracesToCsv(traces) : tracesToJsonl(traces);
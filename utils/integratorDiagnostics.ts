@@ -0,0 +1,103 @@
+import { Integrator, PhysicalState, SimulationConfig } from '../types';
+import { actionToForce, computeEnergy, getActionSet, getInitialState, integrate } from './physics';
+import { Random } from './random';
+
+export const INTEGRATORS: Integrator[] = ['euler', 'semi-implicit-euler', 'rk4'];
+
+export const INTEGRATOR_LABELS: Record<Integrator, string> = {
+  euler: 'Euler',
+  'semi-implicit-euler': 'Semi-implicit Euler',
+  rk4: 'RK4',
+};
+
+// The reference trajectory takes this many RK4 substeps per simulation step
+const REFERENCE_SUBSTEPS = 10;
+
+/** 'none' lets the system evolve freely (energy must be conserved); 'random' replays seeded random actions. */
+export type DiagnosticForcing = 'none' | 'random';
+
+export interface IntegratorTrace {
+  integrator: Integrator;
+  /** Pole angle (rad) after each step, index 0 being the initial state. */
+  theta: number[];
+  /** Total mechanical energy minus the initial energy (J). */
+  energyDrift: number[];
+  /** Euclidean distance in (x, xDot, theta, thetaDot) from the reference trajectory. */
+  divergence: number[];
+  microsPerStep: number;
+}
+
+export interface IntegratorComparison {
+  seed: number;
+  steps: number;
+  forcing: DiagnosticForcing;
+  reference: Omit<IntegratorTrace, 'integrator' | 'divergence' | 'microsPerStep'>;
+  traces: IntegratorTrace[];
+}
+
+const distance = (a: PhysicalState, b: PhysicalState) =>
+  Math.hypot(a.x - b.x, a.xDot - b.xDot, a.theta - b.theta, a.thetaDot - b.thetaDot);
+
+/**
+ * Runs the same initial state and force sequence through every integrator
+ * and a fine-grained RK4 reference. Termination is ignored so that long-run
+ * behaviour (the pole swinging through full rotations) is visible too.
+ */
+export const compareIntegrators = (
+  config: SimulationConfig,
+  seed: number,
+  steps: number,
+  forcing: DiagnosticForcing
+): IntegratorComparison => {
+  const { x, xDot, theta, thetaDot } = getInitialState(new Random(seed), config.task);
+  const initial: PhysicalState = { x, xDot, theta, thetaDot };
+
+  const actionRng = new Random(seed + 1);
+  const actions = getActionSet(config);
+  const forces = Array.from({ length: steps }, () =>
+    forcing === 'random' ? actionToForce(actions[actionRng.int(actions.length)], config) : 0
+  );
+
+  const initialEnergy = computeEnergy(initial, config);
+
+  // Reference trajectory
+  const referenceConfig: SimulationConfig = { ...config, integrator: 'rk4', tau: config.tau / REFERENCE_SUBSTEPS };
+  const referenceStates: PhysicalState[] = [initial];
+  let state = initial;
+  for (const force of forces) {
+    for (let k = 0; k < REFERENCE_SUBSTEPS; k++) state = integrate(state, force, referenceConfig);
+    referenceStates.push(state);
+  }
+
+  const traces = INTEGRATORS.map((integrator): IntegratorTrace => {
+    const stepConfig: SimulationConfig = { ...config, integrator };
+    const states: PhysicalState[] = [initial];
+
+    const start = performance.now();
+    let current = initial;
+    for (const force of forces) {
+      current = integrate(current, force, stepConfig);
+      states.push(current);
+    }
+    const elapsed = performance.now() - start;
+
+    return {
+      integrator,
+      theta: states.map((s) => s.theta),
+      energyDrift: states.map((s) => computeEnergy(s, config) - initialEnergy),
+      divergence: states.map((s, i) => distance(s, referenceStates[i])),
+      microsPerStep: steps > 0 ? (elapsed * 1000) / steps : 0,
+    };
+  });
+
+  return {
+    seed,
+    steps,
+    forcing,
+    reference: {
+      theta: referenceStates.map((s) => s.theta),
+      energyDrift: referenceStates.map((s) => computeEnergy(s, config) - initialEnergy),
+    },
+    traces,
+  };
+};
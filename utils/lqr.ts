@@ -0,0 +1,119 @@
+import { DoubleCartPoleConfig, LqrWeights, SimulationConfig } from '../types';
+import { integrate } from './physics';
+import { integrateDouble } from './doublePhysics';
+import { Matrix, add, diag, identity, invert, maxAbsDiff, multiply, transpose } from './matrix';
+
+// Finite-difference step for the Jacobian
+const EPS = 1e-6;
+
+// Central-difference Jacobians of a discrete step s' = step(s, u) around s = 0, u = 0
+const linearize = (step: (s: number[], force: number) => number[], size: number): { A: Matrix; B: Matrix } => {
+  const zero = new Array<number>(size).fill(0);
+  const A: Matrix = zero.map(() => new Array<number>(size).fill(0));
+  for (let j = 0; j < size; j++) {
+    const plus = [...zero];
+    const minus = [...zero];
+    plus[j] = EPS;
+    minus[j] = -EPS;
+    const fPlus = step(plus, 0);
+    const fMinus = step(minus, 0);
+    for (let i = 0; i < size; i++) A[i][j] = (fPlus[i] - fMinus[i]) / (2 * EPS);
+  }
+
+  const fPlus = step(zero, EPS);
+  const fMinus = step(zero, -EPS);
+  const B: Matrix = fPlus.map((v, i) => [(v - fMinus[i]) / (2 * EPS)]);
+
+  return { A, B };
+};
+
+/**
+ * Linearises one simulation step around the upright equilibrium (all states
+ * zero, zero force). The Jacobians are taken numerically from `integrate`,
+ * so they always match the exact equations and integrator the simulation
+ * uses: s[k+1] ≈ A·s[k] + B·u[k].
+ *
+ * State order: [x, xDot, theta, thetaDot]; returns discrete-time A (4x4), B (4x1).
+ */
+export const linearizeStep = (config: SimulationConfig): { A: Matrix; B: Matrix } => {
+  // Coulomb cart friction has a jump at zero velocity and no useful derivative there; leave it out
+  const model: SimulationConfig = { ...config, cartFriction: 0 };
+  return linearize((s, force) => {
+    const next = integrate({ x: s[0], xDot: s[1], theta: s[2], thetaDot: s[3] }, force, model);
+    return [next.x, next.xDot, next.theta, next.thetaDot];
+  }, 4);
+};
+
+/**
+ * `linearizeStep` for the double pendulum, both poles upright.
+ *
+ * State order: [x, xDot, theta1, theta1Dot, theta2, theta2Dot]; A is 6x6, B 6x1.
+ */
+export const linearizeDoubleStep = (config: DoubleCartPoleConfig): { A: Matrix; B: Matrix } =>
+  linearize((s, force) => {
+    const next = integrateDouble(
+      { x: s[0], xDot: s[1], theta1: s[2], theta1Dot: s[3], theta2: s[4], theta2Dot: s[5] },
+      force,
+      config
+    );
+    return [next.x, next.xDot, next.theta1, next.theta1Dot, next.theta2, next.theta2Dot];
+  }, 6);
+
+/**
+ * Solves the discrete algebraic Riccati equation
+ * P = Q + AᵀPA − AᵀPB (R + BᵀPB)⁻¹ BᵀPA
+ * with the structure-preserving doubling algorithm. Plain fixed-point
+ * iteration converges one timestep per iteration, which at small τ takes
+ * tens of thousands of rounds; doubling converges quadratically.
+ */
+export const solveDare = (A: Matrix, B: Matrix, Q: Matrix, R: Matrix, maxIterations = 100, tolerance = 1e-10): Matrix => {
+  const I = identity(A.length);
+  let Ak = A;
+  let G = multiply(multiply(B, invert(R)), transpose(B));
+  let H = Q;
+
+  for (let i = 0; i < maxIterations; i++) {
+    const W = invert(add(I, multiply(G, H)));
+    const AkW = multiply(Ak, W);
+    const nextA = multiply(AkW, Ak);
+    const nextG = add(G, multiply(multiply(AkW, G), transpose(Ak)));
+    const nextH = add(H, multiply(multiply(transpose(Ak), H), multiply(W, Ak)));
+
+    const converged = maxAbsDiff(nextH, H) <= tolerance * Math.max(1, ...nextH.map((row) => Math.max(...row.map(Math.abs))));
+    Ak = nextA;
+    G = nextG;
+    H = nextH;
+    if (converged) return H;
+  }
+  throw new Error('Riccati iteration did not converge; the weights may be ill-conditioned');
+};
+
+// K = (R + BᵀPB)⁻¹ BᵀPA for a single input
+const gainFor = (A: Matrix, B: Matrix, q: number[], r: number): number[] => {
+  const R = [[r]];
+  const P = solveDare(A, B, diag(q), R);
+
+  const Bt = transpose(B);
+  const K = multiply(invert(add(R, multiply(multiply(Bt, P), B))), multiply(multiply(Bt, P), A));
+  return K[0];
+};
+
+/**
+ * LQR state-feedback gain K for u = −K·s, computed on the discrete-time
+ * model of the configured integrator and timestep, so the gain is optimal
+ * for the system as actually simulated.
+ */
+export const computeLqrGain = (config: SimulationConfig, weights: LqrWeights): number[] => {
+  const { A, B } = linearizeStep(config);
+  return gainFor(A, B, weights.q, weights.r);
+};
+
+/**
+ * LQR gain for the double pendulum. The angle and angular-velocity weights
+ * of `weights` apply to both poles.
+ */
+export const computeDoubleLqrGain = (config: DoubleCartPoleConfig, weights: LqrWeights): number[] => {
+  const { A, B } = linearizeDoubleStep(config);
+  const [qX, qXDot, qTheta, qThetaDot] = weights.q;
+  return gainFor(A, B, [qX, qXDot, qTheta, qThetaDot, qTheta, qThetaDot], weights.r);
+};
@@ -0,0 +1,51 @@
+/**
+ * Tiny dense-matrix helpers (row-major number[][]) for the controller maths.
+ * Sizes here are 6x6 at most, so clarity wins over speed.
+ */
+export type Matrix = number[][];
+
+export const identity = (n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+export const diag = (values: number[]): Matrix =>
+  values.map((v, i) => values.map((_, j) => (i === j ? v : 0)));
+
+export const transpose = (a: Matrix): Matrix => a[0].map((_, j) => a.map((row) => row[j]));
+
+export const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map((row) => b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+
+export const add = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((v, j) => v + b[i][j]));
+
+export const subtract = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((v, j) => v - b[i][j]));
+
+export const scale = (a: Matrix, k: number): Matrix => a.map((row) => row.map((v) => v * k));
+
+/** Inverse via Gauss-Jordan elimination with partial pivoting. */
+export const invert = (a: Matrix): Matrix => {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...identity(n)[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) {
+      throw new Error('Matrix is singular');
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    const p = m[col][col];
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col];
+      for (let j = 0; j < 2 * n; j++) m[r][j] -= f * m[col][j];
+    }
+  }
+  return m.map((row) => row.slice(n));
+};
+
+export const maxAbsDiff = (a: Matrix, b: Matrix): number =>
+  Math.max(...a.map((row, i) => Math.max(...row.map((v, j) => Math.abs(v - b[i][j])))));
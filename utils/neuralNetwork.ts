@@ -0,0 +1,188 @@
+import { Activation, OptimizerKind } from '../types';
+import { Random } from './random';
+
+/**
+ * Minimal fully-connected network (multi-layer perceptron) with manual
+ * backpropagation. Hidden layers use the chosen activation, the output layer
+ * is linear. Weights are stored row-major: weights[l][o * inputs + i].
+ */
+export class MLP {
+  readonly sizes: number[];
+  readonly activation: Activation;
+  readonly weights: Float64Array[];
+  readonly biases: Float64Array[];
+  readonly weightGrads: Float64Array[];
+  readonly biasGrads: Float64Array[];
+
+  // Per-layer outputs from the last forward pass, needed by backward()
+  private readonly outputs: Float64Array[];
+
+  constructor(sizes: number[], activation: Activation, rng: Random) {
+    this.sizes = sizes;
+    this.activation = activation;
+    this.weights = [];
+    this.biases = [];
+    this.weightGrads = [];
+    this.biasGrads = [];
+    this.outputs = sizes.map((n) => new Float64Array(n));
+
+    for (let l = 0; l < sizes.length - 1; l++) {
+      const fanIn = sizes[l];
+      const fanOut = sizes[l + 1];
+      // He init for ReLU, Xavier for tanh
+      const std = activation === 'relu' ? Math.sqrt(2 / fanIn) : Math.sqrt(1 / fanIn);
+      const w = new Float64Array(fanIn * fanOut);
+      for (let i = 0; i < w.length; i++) w[i] = rng.normal(0, std);
+      this.weights.push(w);
+      this.biases.push(new Float64Array(fanOut));
+      this.weightGrads.push(new Float64Array(fanIn * fanOut));
+      this.biasGrads.push(new Float64Array(fanOut));
+    }
+  }
+
+  /**
+   * Runs the network on one input. The returned array is reused by the next
+   * call, so copy it if it must outlive that.
+   */
+  forward(input: ArrayLike<number>): Float64Array {
+    this.outputs[0].set(input);
+    const lastLayer = this.weights.length - 1;
+
+    for (let l = 0; l <= lastLayer; l++) {
+      const inputs = this.outputs[l];
+      const out = this.outputs[l + 1];
+      const w = this.weights[l];
+      const b = this.biases[l];
+      const fanIn = inputs.length;
+
+      for (let o = 0; o < out.length; o++) {
+        let sum = b[o];
+        const row = o * fanIn;
+        for (let i = 0; i < fanIn; i++) sum += w[row + i] * inputs[i];
+        if (l < lastLayer) {
+          sum = this.activation === 'relu' ? Math.max(0, sum) : Math.tanh(sum);
+        }
+        out[o] = sum;
+      }
+    }
+    return this.outputs[this.outputs.length - 1];
+  }
+
+  /**
+   * Backpropagates dLoss/dOutput for the most recent forward() and adds the
+   * parameter gradients to the accumulators.
+   */
+  backward(outputGrad: ArrayLike<number>) {
+    let delta = Float64Array.from(outputGrad);
+
+    for (let l = this.weights.length - 1; l >= 0; l--) {
+      const inputs = this.outputs[l];
+      const fanIn = inputs.length;
+      const w = this.weights[l];
+      const gw = this.weightGrads[l];
+      const gb = this.biasGrads[l];
+      const prevDelta = new Float64Array(fanIn);
+
+      for (let o = 0; o < delta.length; o++) {
+        const d = delta[o];
+        if (d === 0) continue;
+        gb[o] += d;
+        const row = o * fanIn;
+        for (let i = 0; i < fanIn; i++) {
+          gw[row + i] += d * inputs[i];
+          prevDelta[i] += d * w[row + i];
+        }
+      }
+
+      // Derivative of the hidden activation, expressed via its output
+      if (l > 0) {
+        for (let i = 0; i < fanIn; i++) {
+          const a = inputs[i];
+          prevDelta[i] *= this.activation === 'relu' ? (a > 0 ? 1 : 0) : 1 - a * a;
+        }
+      }
+      delta = prevDelta;
+    }
+  }
+
+  zeroGrad() {
+    this.weightGrads.forEach((g) => g.fill(0));
+    this.biasGrads.forEach((g) => g.fill(0));
+  }
+
+  /** Copies all parameters from a network of identical shape. */
+  copyFrom(other: MLP) {
+    this.weights.forEach((w, l) => w.set(other.weights[l]));
+    this.biases.forEach((b, l) => b.set(other.biases[l]));
+  }
+
+  parameters(): Float64Array[] {
+    return [...this.weights, ...this.biases];
+  }
+
+  gradients(): Float64Array[] {
+    return [...this.weightGrads, ...this.biasGrads];
+  }
+}
+
+export interface Optimizer {
+  /** Applies the accumulated gradients, scaled by `scale` (e.g. 1 / batch size). */
+  step(net: MLP, scale: number): void;
+}
+
+const createSgd = (learningRate: number): Optimizer => ({
+  step(net, scale) {
+    const grads = net.gradients();
+    net.parameters().forEach((p, k) => {
+      const g = grads[k];
+      for (let i = 0; i < p.length; i++) p[i] -= learningRate * scale * g[i];
+    });
+  },
+});
+
+const createAdam = (learningRate: number, beta1 = 0.9, beta2 = 0.999, eps = 1e-8): Optimizer => {
+  let m: Float64Array[] | null = null;
+  let v: Float64Array[] | null = null;
+  let t = 0;
+
+  return {
+    step(net, scale) {
+      const params = net.parameters();
+      const grads = net.gradients();
+      if (!m || !v) {
+        m = params.map((p) => new Float64Array(p.length));
+        v = params.map((p) => new Float64Array(p.length));
+      }
+      t++;
+      const correction1 = 1 - Math.pow(beta1, t);
+      const correction2 = 1 - Math.pow(beta2, t);
+
+      params.forEach((p, k) => {
+        const g = grads[k];
+        const mk = m![k];
+        const vk = v![k];
+        for (let i = 0; i < p.length; i++) {
+          const gi = g[i] * scale;
+          mk[i] = beta1 * mk[i] + (1 - beta1) * gi;
+          vk[i] = beta2 * vk[i] + (1 - beta2) * gi * gi;
+          p[i] -= (learningRate * (mk[i] / correction1)) / (Math.sqrt(vk[i] / correction2) + eps);
+        }
+      });
+    },
+  };
+};
+
+export const createOptimizer = (kind: OptimizerKind, learningRate: number): Optimizer =>
+  kind === 'adam' ? createAdam(learningRate) : createSgd(learningRate);
+
+/**
+ * Huber loss and its derivative w.r.t. the prediction error. Quadratic near
+ * zero, linear beyond `delta`, which keeps large TD errors from exploding.
+ */
+export const huber = (error: number, delta: number): { loss: number; grad: number } => {
+  const absError = Math.abs(error);
+  if (absError <= delta) {
+    return { loss: 0.5 * error * error, grad: error };
+  }
+  return { loss: delta * (absError - 0.5 * delta), grad: delta * Math.sign(error) };
+};
@@ -1,51 +1,231 @@
-import { SimulationConfig, SimulationState, Action } from '../types';
+import {
+  SimulationConfig,
+  SimulationState,
+  Action,
+  EnvAction,
+  EnvironmentConfig,
+  PhysicalState,
+  Disturbance,
+  Task,
+} from '../types';
+import { Random } from './random';
+import { NO_DISTURBANCE } from './disturbances';
 
 /**
- * Updates the physics state of the CartPole system by one timestep.
- * Implementation based on correct dynamics (e.g. OpenAI Gym source).
+ * Cart and pole accelerations for a given state and applied force.
+ * Implementation based on correct dynamics (e.g. OpenAI Gym source), with the
+ * cart and pivot friction terms of Barto, Sutton & Anderson (1983). Wind and
+ * kicks push horizontally on the pole's centre of mass, which acts on the
+ * cart like an extra force and on the pole like a torque of F·l·cosθ; a kick
+ * delivers its impulse spread over the one step.
  */
-export const updatePhysics = (
-  state: SimulationState,
-  action: Action,
-  config: SimulationConfig
-): SimulationState => {
-  const {
-    gravity,
-    cartMass,
-    poleMass,
-    poleLength,
-    forceMag,
-    tau,
-    xThreshold,
-    thetaThresholdDegrees,
-    maxSteps,
-  } = config;
+export const computeAccelerations = (
+  state: PhysicalState,
+  force: number,
+  config: SimulationConfig,
+  disturbance: Disturbance = NO_DISTURBANCE
+): { xAcc: number; thetaAcc: number } => {
+  const { gravity, cartMass, poleMass, poleLength, cartFriction, poleFriction, tau } = config;
+  const { xDot, theta, thetaDot } = state;
 
   const totalMass = cartMass + poleMass;
   const poleMassLength = poleMass * poleLength;
-  
-  // Determine force direction: 0 -> -force, 1 -> +force
-  const force = action === Action.RIGHT ? forceMag : -forceMag;
 
-  const { x, xDot, theta, thetaDot, steps } = state;
-  
   const costheta = Math.cos(theta);
   const sintheta = Math.sin(theta);
 
+  const poleForce = disturbance.wind + disturbance.kick / tau;
+  const horizontalForce = force + disturbance.actuatorNoise + poleForce;
+  // Torque about the pivot from the pole force, minus viscous pivot friction
+  const poleTorque = poleForce * poleLength * costheta - poleFriction * thetaDot;
+
   // Calculations for acceleration
-  const temp = (force + poleMassLength * thetaDot * thetaDot * sintheta) / totalMass;
-  
+  const temp =
+    (horizontalForce + poleMassLength * thetaDot * thetaDot * sintheta - cartFriction * Math.sign(xDot)) / totalMass;
+
   const thetaAcc =
-    (gravity * sintheta - costheta * temp) /
+    (gravity * sintheta - costheta * temp + poleTorque / poleMassLength) /
     (poleLength * (4.0 / 3.0 - (poleMass * costheta * costheta) / totalMass));
 
   const xAcc = temp - (poleMassLength * thetaAcc * costheta) / totalMass;
 
-  // Euler integration
-  const nextX = x + tau * xDot;
-  const nextXDot = xDot + tau * xAcc;
-  const nextTheta = theta + tau * thetaDot;
-  const nextThetaDot = thetaDot + tau * thetaAcc;
+  return { xAcc, thetaAcc };
+};
+
+/**
+ * Resolves an action into the force applied to the cart under the
+ * configured action space.
+ */
+export const actionToForce = (action: EnvAction, config: EnvironmentConfig): number => {
+  const { forceMag, actionSpace } = config;
+  switch (actionSpace) {
+    case 'continuous':
+      return Math.max(-forceMag, Math.min(forceMag, action));
+    case 'discrete-3':
+      if (action === Action.NONE) return 0;
+      return action === Action.RIGHT ? forceMag : -forceMag;
+    default:
+      // Bang-bang: 0 -> -force, 1 -> +force (NONE is not available, treat as LEFT like Gym's any-non-1)
+      return action === Action.RIGHT ? forceMag : -forceMag;
+  }
+};
+
+/**
+ * The discrete set of actions an agent chooses between. The continuous space
+ * is covered by a few evenly spaced force levels.
+ */
+export const getActionSet = (config: EnvironmentConfig): EnvAction[] => {
+  const { forceMag, actionSpace } = config;
+  switch (actionSpace) {
+    case 'continuous':
+      return [-forceMag, -forceMag / 2, 0, forceMag / 2, forceMag];
+    case 'discrete-3':
+      return [Action.LEFT, Action.NONE, Action.RIGHT];
+    default:
+      return [Action.LEFT, Action.RIGHT];
+  }
+};
+
+/**
+ * Picks the action that best realises a desired force: the clamped force
+ * itself in the continuous space, otherwise the nearest available level.
+ */
+export const forceToAction = (force: number, config: EnvironmentConfig): EnvAction => {
+  if (config.actionSpace === 'continuous') {
+    return Math.max(-config.forceMag, Math.min(config.forceMag, force));
+  }
+  let best = Action.RIGHT;
+  let bestDistance = Infinity;
+  for (const action of getActionSet(config)) {
+    const distance = Math.abs(actionToForce(action, config) - force);
+    if (distance < bestDistance) {
+      best = action;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+const derivative = (
+  s: PhysicalState,
+  force: number,
+  config: SimulationConfig,
+  disturbance: Disturbance
+): PhysicalState => {
+  const { xAcc, thetaAcc } = computeAccelerations(s, force, config, disturbance);
+  return { x: s.xDot, xDot: xAcc, theta: s.thetaDot, thetaDot: thetaAcc };
+};
+
+const addScaled = (s: PhysicalState, d: PhysicalState, h: number): PhysicalState => ({
+  x: s.x + h * d.x,
+  xDot: s.xDot + h * d.xDot,
+  theta: s.theta + h * d.theta,
+  thetaDot: s.thetaDot + h * d.thetaDot,
+});
+
+/**
+ * Advances the continuous state by one `tau` with the configured integrator,
+ * holding the force and disturbances constant over the step.
+ *  - euler: explicit Euler; positions use the old velocities (Gym default).
+ *  - semi-implicit-euler: velocities first, positions from the new velocities.
+ *  - rk4: classic fourth-order Runge-Kutta.
+ */
+export const integrate = (
+  state: PhysicalState,
+  force: number,
+  config: SimulationConfig,
+  disturbance: Disturbance = NO_DISTURBANCE
+): PhysicalState => {
+  const { tau, integrator } = config;
+
+  switch (integrator) {
+    case 'semi-implicit-euler': {
+      const { xAcc, thetaAcc } = computeAccelerations(state, force, config, disturbance);
+      const xDot = state.xDot + tau * xAcc;
+      const thetaDot = state.thetaDot + tau * thetaAcc;
+      return { x: state.x + tau * xDot, xDot, theta: state.theta + tau * thetaDot, thetaDot };
+    }
+    case 'rk4': {
+      const k1 = derivative(state, force, config, disturbance);
+      const k2 = derivative(addScaled(state, k1, tau / 2), force, config, disturbance);
+      const k3 = derivative(addScaled(state, k2, tau / 2), force, config, disturbance);
+      const k4 = derivative(addScaled(state, k3, tau), force, config, disturbance);
+      return {
+        x: state.x + (tau / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
+        xDot: state.xDot + (tau / 6) * (k1.xDot + 2 * k2.xDot + 2 * k3.xDot + k4.xDot),
+        theta: state.theta + (tau / 6) * (k1.theta + 2 * k2.theta + 2 * k3.theta + k4.theta),
+        thetaDot: state.thetaDot + (tau / 6) * (k1.thetaDot + 2 * k2.thetaDot + 2 * k3.thetaDot + k4.thetaDot),
+      };
+    }
+    default:
+      return addScaled(state, derivative(state, force, config, disturbance), tau);
+  }
+};
+
+/**
+ * Total mechanical energy (J) of cart plus pole, with the pole modelled as a
+ * uniform rod of half-length `poleLength` (the same model as the dynamics).
+ * Potential energy is measured from the pivot height. Without applied force
+ * or friction this should stay constant; drift exposes integration error.
+ */
+export const computeEnergy = (state: PhysicalState, config: SimulationConfig): number => {
+  const { gravity, cartMass, poleMass, poleLength } = config;
+  const { xDot, theta, thetaDot } = state;
+  const cartKinetic = 0.5 * cartMass * xDot * xDot;
+  const poleKinetic =
+    0.5 * poleMass * xDot * xDot +
+    poleMass * poleLength * xDot * thetaDot * Math.cos(theta) +
+    (2 / 3) * poleMass * poleLength * poleLength * thetaDot * thetaDot;
+  const potential = poleMass * gravity * poleLength * Math.cos(theta);
+  return cartKinetic + poleKinetic + potential;
+};
+
+/**
+ * Energy of the pole alone (J): rotation about the pivot plus height of its
+ * centre of mass above the pivot. Equals m·g·l when balanced at rest, which
+ * is the level energy-based swing-up controllers pump towards.
+ */
+export const computePoleEnergy = (state: PhysicalState, config: SimulationConfig): number => {
+  const { gravity, poleMass, poleLength } = config;
+  return (
+    (2 / 3) * poleMass * poleLength * poleLength * state.thetaDot * state.thetaDot +
+    poleMass * gravity * poleLength * Math.cos(state.theta)
+  );
+};
+
+/**
+ * Wraps an angle into (-π, π]. Angles already in range are returned as is.
+ */
+export const wrapAngle = (theta: number): number => {
+  if (theta > -Math.PI && theta <= Math.PI) return theta;
+  const wrapped = theta - 2 * Math.PI * Math.floor((theta + Math.PI) / (2 * Math.PI));
+  // floor maps exactly -π to -π; the interval is open there
+  return wrapped === -Math.PI ? Math.PI : wrapped;
+};
+
+/**
+ * Updates the physics state of the CartPole system by one timestep.
+ * In the swing-up task the angle is wrapped into (-π, π] and only the track
+ * limits end an episode early.
+ */
+export const updatePhysics = (
+  state: SimulationState,
+  action: EnvAction,
+  config: SimulationConfig,
+  disturbance: Disturbance = NO_DISTURBANCE
+): SimulationState => {
+  const { xThreshold, thetaThresholdDegrees, maxSteps, task } = config;
+
+  const force = actionToForce(action, config);
+
+  const { steps } = state;
+  const { x: nextX, xDot: nextXDot, theta: rawTheta, thetaDot: nextThetaDot } = integrate(
+    state,
+    force,
+    config,
+    disturbance
+  );
+  const nextTheta = task === 'swingup' ? wrapAngle(rawTheta) : rawTheta;
 
   // Check termination conditions
   const thetaThresholdRad = (thetaThresholdDegrees * Math.PI) / 180;
@@ -57,7 +237,7 @@ export const updatePhysics = (
   if (nextX < -xThreshold || nextX > xThreshold) {
     done = true;
     terminatedCode = 'out_of_bounds';
-  } else if (nextTheta < -thetaThresholdRad || nextTheta > thetaThresholdRad) {
+  } else if (task === 'balance' && (nextTheta < -thetaThresholdRad || nextTheta > thetaThresholdRad)) {
     done = true;
     terminatedCode = 'pole_fell';
   } else if (nextSteps >= maxSteps) {
@@ -77,16 +257,20 @@ export const updatePhysics = (
 };
 
 /**
- * Generates a random initial state closer to the center/vertical
+ * Generates a random initial state closer to the center/vertical, or for the
+ * swing-up task close to hanging straight down.
  */
-export const getInitialState = (): SimulationState => {
+export const getInitialState = (rng: Random, task: Task = 'balance'): SimulationState => {
   // Randomize slightly (-0.05 to 0.05)
-  const rand = () => Math.random() * 0.1 - 0.05;
-  
+  const rand = () => rng.uniform(-0.05, 0.05);
+  const x = rand();
+  const xDot = rand();
+  const offset = rand(); // +/- ~3 degrees start
+
   return {
-    x: rand(),
-    xDot: rand(),
-    theta: rand(), // +/- ~3 degrees start
+    x,
+    xDot,
+    theta: task === 'swingup' ? wrapAngle(Math.PI + offset) : offset,
     thetaDot: rand(),
     done: false,
     steps: 0,
@@ -0,0 +1,122 @@
+import { EnvironmentConfig, EnvironmentKind, EnvironmentState, EpisodeRecording, PlayerStats } from '../types';
+
+/**
+ * Human play statistics, kept in localStorage so they survive a reload. Each
+ * environment + config combination gets its own entry, keyed by a hash of
+ * every config field, so a score set at gravity 2 never counts towards the
+ * one set at gravity 20. Agent episodes are not recorded here.
+ */
+
+const STORAGE_KEY = 'cartpole-rl:player-stats';
+// Bump whenever the stored layout changes in a way older entries cannot be read with; older data is then dropped
+const STORAGE_VERSION = 1;
+
+// Attempts kept for the progress chart, and the (much larger) recordings kept for replay, per config
+const MAX_HISTORY = 200;
+const MAX_RECORDINGS = 5;
+
+// Attempts at or after this time belong to the current session (this page load)
+export const SESSION_STARTED_AT = new Date().toISOString();
+
+// 32-bit FNV-1a, printed as 8 hex digits
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Stats key for an environment and config; field order does not matter. */
+export const playerStatsKey = (environment: EnvironmentKind, config: EnvironmentConfig): string => {
+  const fields = Object.entries(config).sort(([a], [b]) => a.localeCompare(b));
+  return `${environment}:${fnv1a(JSON.stringify(fields))}`;
+};
+
+const readAll = (): Record<string, PlayerStats> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const data = JSON.parse(raw);
+    return data?.version === STORAGE_VERSION && typeof data.stats === 'object' && data.stats !== null ? data.stats : {};
+  } catch {
+    // Storage blocked or damaged: start afresh rather than break play
+    return {};
+  }
+};
+
+// Recordings are what fill the storage quota, so when a write fails the other configs' recordings go first
+const writeAll = (all: Record<string, PlayerStats>, keep: string) => {
+  const write = (stats: Record<string, PlayerStats>) =>
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, stats }));
+  try {
+    write(all);
+  } catch {
+    const trimmed: Record<string, PlayerStats> = {};
+    for (const [key, stats] of Object.entries(all)) trimmed[key] = key === keep ? stats : { ...stats, recordings: [] };
+    try {
+      write(trimmed);
+    } catch {
+      // Still too large or storage unavailable; the stats are simply not saved
+    }
+  }
+};
+
+const lastPlayed = (stats: PlayerStats) => (stats.history.length > 0 ? stats.history[stats.history.length - 1].at : '');
+
+/** Every stored entry, most recently played first. */
+export const listPlayerStats = (): PlayerStats[] =>
+  Object.values(readAll()).sort((a, b) => lastPlayed(b).localeCompare(lastPlayed(a)));
+
+export const getPlayerStats = (environment: EnvironmentKind, config: EnvironmentConfig): PlayerStats | null =>
+  readAll()[playerStatsKey(environment, config)] ?? null;
+
+/**
+ * Adds a finished human episode to the stats of the config it started with
+ * and returns the updated entry.
+ */
+export const recordAttempt = <C extends EnvironmentConfig, S extends EnvironmentState>(
+  environment: EnvironmentKind,
+  recording: EpisodeRecording<C, S>
+): PlayerStats => {
+  const all = readAll();
+  const key = playerStatsKey(environment, recording.config);
+  const last = recording.steps.length > 0 ? recording.steps[recording.steps.length - 1].state : recording.initialState;
+  const stats: PlayerStats = all[key] ?? {
+    key,
+    environment,
+    config: recording.config,
+    bestScore: 0,
+    attempts: 0,
+    totalSteps: 0,
+    terminations: {},
+    history: [],
+    recordings: [],
+  };
+
+  const updated: PlayerStats = {
+    ...stats,
+    bestScore: Math.max(stats.bestScore, last.steps),
+    attempts: stats.attempts + 1,
+    totalSteps: stats.totalSteps + last.steps,
+    terminations: { ...stats.terminations, [last.terminatedCode]: (stats.terminations[last.terminatedCode] ?? 0) + 1 },
+    history: [...stats.history, { at: recording.recordedAt, steps: last.steps, terminatedCode: last.terminatedCode }].slice(
+      -MAX_HISTORY
+    ),
+    recordings: [...stats.recordings, recording as EpisodeRecording<EnvironmentConfig, EnvironmentState>].slice(
+      -MAX_RECORDINGS
+    ),
+  };
+  all[key] = updated;
+  writeAll(all, key);
+  return updated;
+};
+
+export const clearPlayerStats = (key: string) => {
+  const all = readAll();
+  delete all[key];
+  writeAll(all, key);
+};
+
+export const averageSurvival = (stats: PlayerStats): number => (stats.attempts > 0 ? stats.totalSteps / stats.attempts : 0);
@@ -0,0 +1,60 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * Every random draw in the simulation (initial states, noise, agent
+ * exploration) should go through an instance of this class so that a seed
+ * fully determines an episode.
+ */
+export class Random {
+  readonly seed: number;
+  private a: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.a = this.seed;
+  }
+
+  /** Uniform float in [0, 1), same contract as Math.random. */
+  next(): number {
+    this.a = (this.a + 0x6d2b79f5) >>> 0;
+    let t = this.a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Uniform float in [min, max). */
+  uniform(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /** Uniform integer in [0, maxExclusive). */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /** Gaussian sample via Box-Muller. */
+  normal(mean = 0, std = 1): number {
+    const u = 1 - this.next(); // (0, 1] so log() stays finite
+    const v = this.next();
+    return mean + std * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Derives an independent child stream, e.g. to give exploration noise its
+   * own generator without disturbing the environment's sequence.
+   */
+  fork(): Random {
+    return new Random(Math.floor(this.next() * 4294967296));
+  }
+}
+
+/**
+ * Picks a fresh seed when the user has not chosen one. This is the only
+ * place non-deterministic entropy enters the app.
+ */
+export const randomSeed = (): number => {
+  const buf = new Uint32Array(1);
+  crypto.getRandomValues(buf);
+  return buf[0] % 1_000_000;
+};
@@ -0,0 +1,292 @@
+import { DoubleCartPoleConfig, DoublePhysicalState, EnvironmentConfig, PhysicalState, SimulationConfig } from '../types';
+import { SCALE_METERS_TO_PIXELS, CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+
+// How long a kick stays visible after it lands (simulated seconds)
+export const KICK_DISPLAY_SECONDS = 0.4;
+
+// Disturbances to draw on top of the scene
+export interface DisturbanceOverlay {
+  wind: number; // N, positive blows to the right
+  noise: number; // actuator noise on the current step (N)
+  kick: number; // impulse of the most recent visible kick (N·s), 0 when none
+  kickAge: number; // 0 when the kick just landed, 1 when it has faded out
+}
+
+// Horizontal arrow from (x, y) of the given signed length
+const drawArrow = (ctx: CanvasRenderingContext2D, x: number, y: number, length: number, head = 8) => {
+  const dir = length < 0 ? -1 : 1;
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x + length, y);
+  ctx.lineTo(x + length - dir * head, y - head * 0.7);
+  ctx.moveTo(x + length, y);
+  ctx.lineTo(x + length - dir * head, y + head * 0.7);
+  ctx.stroke();
+};
+
+const drawDisturbances = (
+  ctx: CanvasRenderingContext2D,
+  overlay: DisturbanceOverlay,
+  cartX: number,
+  cartY: number,
+  comX: number,
+  comY: number
+) => {
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  // Wind: streamlines upwind of the pole, length growing with strength
+  if (Math.abs(overlay.wind) > 0.01) {
+    const dir = overlay.wind < 0 ? -1 : 1;
+    const length = dir * (20 + 15 * Math.abs(overlay.wind));
+    ctx.strokeStyle = 'rgba(14, 165, 233, 0.7)'; // sky-500
+    ctx.lineWidth = 2;
+    for (const dy of [-25, 0, 25]) {
+      drawArrow(ctx, comX - dir * 30 - length, comY + dy, length);
+    }
+    ctx.fillStyle = '#0284c7';
+    ctx.font = '12px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(`wind ${overlay.wind.toFixed(1)} N`, comX - dir * 30 - length / 2, comY - 35);
+  }
+
+  // Kick: a burst at the pole's centre of mass that fades out
+  if (overlay.kick !== 0 && overlay.kickAge < 1) {
+    const alpha = 1 - overlay.kickAge;
+    const dir = overlay.kick < 0 ? -1 : 1;
+    ctx.strokeStyle = `rgba(220, 38, 38, ${alpha})`; // red-600
+    ctx.lineWidth = 3;
+    for (let i = 0; i < 8; i++) {
+      const angle = (i * Math.PI) / 4;
+      ctx.beginPath();
+      ctx.moveTo(comX + 8 * Math.cos(angle), comY + 8 * Math.sin(angle));
+      ctx.lineTo(comX + 16 * Math.cos(angle), comY + 16 * Math.sin(angle));
+      ctx.stroke();
+    }
+    drawArrow(ctx, comX - dir * 60, comY, dir * 40);
+  }
+
+  // Actuator noise: label under the cart
+  if (Math.abs(overlay.noise) > 0.05) {
+    ctx.fillStyle = '#7c3aed'; // violet-600
+    ctx.font = '12px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(`noise ${overlay.noise >= 0 ? '+' : ''}${overlay.noise.toFixed(1)} N`, cartX, cartY + 45);
+  }
+};
+
+// Faint dashed lines at ±threshRad from vertical through a pivot
+const drawAngleGuides = (ctx: CanvasRenderingContext2D, x: number, y: number, threshRad: number, length: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x + length * Math.sin(threshRad), y - length * Math.cos(threshRad));
+  ctx.moveTo(x, y);
+  ctx.lineTo(x + length * Math.sin(-threshRad), y - length * Math.cos(-threshRad));
+  ctx.strokeStyle = 'rgba(239, 68, 68, 0.2)'; // Faint red
+  ctx.lineWidth = 2;
+  ctx.setLineDash([5, 5]);
+  ctx.stroke();
+  ctx.setLineDash([]); // Reset dash
+};
+
+// A pole from its pivot to its tip, glowing red when `nearFailure`
+const drawPole = (
+  ctx: CanvasRenderingContext2D,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  color: string,
+  nearFailure: boolean
+) => {
+  ctx.beginPath();
+  ctx.moveTo(fromX, fromY);
+  ctx.lineTo(toX, toY);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 8;
+  ctx.lineCap = 'round';
+  ctx.stroke();
+
+  if (nearFailure) {
+    ctx.strokeStyle = 'rgba(239, 68, 68, 0.5)'; // red glow overlay
+    ctx.stroke();
+  }
+};
+
+const drawPivot = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
+  ctx.beginPath();
+  ctx.arc(x, y, 6, 0, 2 * Math.PI);
+  ctx.fillStyle = '#ef4444';
+  ctx.fill();
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+};
+
+/**
+ * Clears the canvas and draws what every environment shares: the track with
+ * its limit markers, the cart at `x` and the force arrow. Returns the pixel
+ * position of the cart's pivot.
+ */
+const drawTrackAndCart = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  config: EnvironmentConfig,
+  force: number,
+  centerY: number,
+  scale: number
+): { cartX: number; cartY: number } => {
+  // Clear
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.fillStyle = '#f3f4f6'; // bg-gray-100
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // Track Limits
+  const centerX = CANVAS_WIDTH / 2;
+  const limitPixels = config.xThreshold * scale;
+
+  // Draw Track
+  ctx.beginPath();
+  ctx.moveTo(centerX - limitPixels, centerY + 20);
+  ctx.lineTo(centerX + limitPixels, centerY + 20);
+  ctx.strokeStyle = '#9ca3af'; // gray-400
+  ctx.lineWidth = 4;
+  ctx.stroke();
+
+  // Limit Markers
+  ctx.fillStyle = '#ef4444'; // red-500
+  ctx.fillRect(centerX - limitPixels - 5, centerY + 10, 10, 20);
+  ctx.fillRect(centerX + limitPixels - 5, centerY + 10, 10, 20);
+
+  // Calculate Cart Position
+  const cartX = centerX + x * scale;
+  const cartY = centerY;
+  const cartWidth = 60;
+  const cartHeight = 35;
+
+  // Draw Cart
+  ctx.fillStyle = '#1e293b'; // slate-800
+  ctx.strokeStyle = '#334155';
+  ctx.lineWidth = 2;
+  ctx.fillRect(cartX - cartWidth / 2, cartY - cartHeight / 2, cartWidth, cartHeight);
+  ctx.strokeRect(cartX - cartWidth / 2, cartY - cartHeight / 2, cartWidth, cartHeight);
+
+  // Draw Wheel 1
+  ctx.beginPath();
+  ctx.arc(cartX - 20, cartY + cartHeight/2, 6, 0, Math.PI * 2);
+  ctx.fillStyle = '#475569';
+  ctx.fill();
+
+  // Draw Wheel 2
+  ctx.beginPath();
+  ctx.arc(cartX + 20, cartY + cartHeight/2, 6, 0, Math.PI * 2);
+  ctx.fillStyle = '#475569';
+  ctx.fill();
+
+  // Draw Force Indicator (Arrow), length proportional to the applied force
+  const forceRatio = Math.min(1, Math.abs(force) / config.forceMag);
+
+  if (forceRatio > 0.02) {
+    const arrowDir = force < 0 ? -1 : 1;
+    const tip = 35 + 25 * forceRatio;
+    const arrowColor = '#f59e0b'; // amber-500
+
+    ctx.beginPath();
+    // Start of arrow shaft
+    ctx.moveTo(cartX + (arrowDir * 35), cartY);
+    // End of arrow shaft
+    ctx.lineTo(cartX + (arrowDir * tip), cartY);
+    // Top wing
+    ctx.lineTo(cartX + (arrowDir * (tip - 10)), cartY - 8);
+    // Back to tip
+    ctx.moveTo(cartX + (arrowDir * tip), cartY);
+    // Bottom wing
+    ctx.lineTo(cartX + (arrowDir * (tip - 10)), cartY + 8);
+
+    ctx.strokeStyle = arrowColor;
+    ctx.lineWidth = 4;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+  }
+
+  return { cartX, cartY };
+};
+
+/**
+ * Draws one frame of the cart-pole scene: track with limit markers, cart,
+ * force arrow (length proportional to `force`), failure-angle guides and
+ * pole, plus any disturbances in `overlay`. Geometry comes from `config`, so
+ * recordings render with the parameters they were made with. For the
+ * swing-up task the track sits mid-canvas and the scene is scaled so the
+ * pole fits at any angle; there are no failure-angle guides.
+ */
+export const drawCartPole = (
+  ctx: CanvasRenderingContext2D,
+  state: PhysicalState,
+  config: SimulationConfig,
+  force: number,
+  overlay?: DisturbanceOverlay
+) => {
+  const swingUp = config.task === 'swingup';
+  const centerY = swingUp ? CANVAS_HEIGHT * 0.5 : CANVAS_HEIGHT * 0.7; // Ground level
+  const scale = swingUp
+    ? Math.min(SCALE_METERS_TO_PIXELS, (CANVAS_HEIGHT * 0.5 - 20) / (config.poleLength * 2))
+    : SCALE_METERS_TO_PIXELS;
+
+  const { cartX, cartY } = drawTrackAndCart(ctx, state.x, config, force, centerY, scale);
+
+  // Pole Geometry
+  // Visual length: Scale * (poleLength * 2)
+  const visualPoleLen = config.poleLength * 2 * scale;
+
+  // Tip coordinates
+  const poleTipX = cartX + visualPoleLen * Math.sin(state.theta);
+  const poleTipY = cartY - visualPoleLen * Math.cos(state.theta);
+
+  // Draw Failure Angle Threshold Guides (the swing-up task has no fail angle)
+  const threshRad = config.thetaThresholdDegrees * Math.PI / 180;
+  if (!swingUp) drawAngleGuides(ctx, cartX, cartY, threshRad, visualPoleLen * 1.2);
+
+  drawPole(ctx, cartX, cartY, poleTipX, poleTipY, '#d97706', !swingUp && Math.abs(state.theta) > threshRad * 0.8); // amber-600
+  drawPivot(ctx, cartX, cartY);
+
+  if (overlay) {
+    drawDisturbances(ctx, overlay, cartX, cartY, (cartX + poleTipX) / 2, (cartY + poleTipY) / 2);
+  }
+};
+
+/**
+ * Draws one frame of the double inverted pendulum: the shared track, cart and
+ * force arrow, then both poles with failure-angle guides at each hinge
+ * (the fail angle applies to each pole's absolute tilt). The scene is scaled
+ * down when the stacked poles would not fit above the track.
+ */
+export const drawDoubleCartPole = (
+  ctx: CanvasRenderingContext2D,
+  state: DoublePhysicalState,
+  config: DoubleCartPoleConfig,
+  force: number
+) => {
+  const centerY = CANVAS_HEIGHT * 0.7; // Ground level
+  const totalLength = 2 * (config.pole1Length + config.pole2Length);
+  const scale = Math.min(SCALE_METERS_TO_PIXELS, (centerY - 20) / totalLength);
+
+  const { cartX, cartY } = drawTrackAndCart(ctx, state.x, config, force, centerY, scale);
+
+  const lower = config.pole1Length * 2 * scale;
+  const upper = config.pole2Length * 2 * scale;
+  const hingeX = cartX + lower * Math.sin(state.theta1);
+  const hingeY = cartY - lower * Math.cos(state.theta1);
+  const tipX = hingeX + upper * Math.sin(state.theta2);
+  const tipY = hingeY - upper * Math.cos(state.theta2);
+
+  const threshRad = config.thetaThresholdDegrees * Math.PI / 180;
+  drawAngleGuides(ctx, cartX, cartY, threshRad, lower * 1.2);
+  drawAngleGuides(ctx, hingeX, hingeY, threshRad, upper * 1.2);
+
+  drawPole(ctx, cartX, cartY, hingeX, hingeY, '#d97706', Math.abs(state.theta1) > threshRad * 0.8); // amber-600
+  drawPole(ctx, hingeX, hingeY, tipX, tipY, '#ea580c', Math.abs(state.theta2) > threshRad * 0.8); // orange-600
+  drawPivot(ctx, cartX, cartY);
+  drawPivot(ctx, hingeX, hingeY);
+};
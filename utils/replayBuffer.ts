@@ -0,0 +1,57 @@
+import { Observation } from '../types';
+import { Random } from './random';
+
+/**
+ * Fixed-capacity ring buffer of transitions for experience replay. Stored as
+ * flat typed arrays so a long training run does not churn the garbage collector.
+ */
+export class ReplayBuffer {
+  readonly capacity: number;
+  readonly observationSize: number;
+  readonly observations: Float64Array;
+  readonly nextObservations: Float64Array;
+  readonly actions: Int32Array; // index into the agent's action set
+  readonly rewards: Float64Array;
+  readonly terminals: Uint8Array;
+  private next = 0;
+  private count = 0;
+
+  constructor(capacity: number, observationSize: number) {
+    this.capacity = capacity;
+    this.observationSize = observationSize;
+    this.observations = new Float64Array(capacity * observationSize);
+    this.nextObservations = new Float64Array(capacity * observationSize);
+    this.actions = new Int32Array(capacity);
+    this.rewards = new Float64Array(capacity);
+    this.terminals = new Uint8Array(capacity);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  push(observation: Observation, actionIndex: number, reward: number, nextObservation: Observation, terminated: boolean) {
+    const i = this.next;
+    this.observations.set(observation, i * this.observationSize);
+    this.nextObservations.set(nextObservation, i * this.observationSize);
+    this.actions[i] = actionIndex;
+    this.rewards[i] = reward;
+    this.terminals[i] = terminated ? 1 : 0;
+
+    this.next = (this.next + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /** Draws `batchSize` slot indices uniformly, with replacement. */
+  sample(batchSize: number, rng: Random): number[] {
+    return Array.from({ length: batchSize }, () => rng.int(this.count));
+  }
+
+  observationAt(index: number): Float64Array {
+    return this.observations.subarray(index * this.observationSize, (index + 1) * this.observationSize);
+  }
+
+  nextObservationAt(index: number): Float64Array {
+    return this.nextObservations.subarray(index * this.observationSize, (index + 1) * this.observationSize);
+  }
+}
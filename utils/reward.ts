@@ -0,0 +1,81 @@
+import { PhysicalState, SimulationConfig, SimulationState } from '../types';
+import { computePoleEnergy, wrapAngle } from './physics';
+
+/**
+ * Reward functions for the single CartPole. The reward of a step is a sum of
+ * terms whose weights live in the config (the Reward section), so a shaped
+ * reward travels with the config into training, checkpoints and shared
+ * links. With the default weights only the task term is active, which gives
+ * the Gym reward of +1 per step.
+ */
+
+/**
+ * Swing-up reward in [-0.5, 1]: the height of the pole (0 hanging, 1
+ * upright) minus a penalty for how far the pole's energy is from what it
+ * needs to reach upright at rest. The energy term rewards pumping the swing
+ * long before the pole gets near the top.
+ */
+export const swingUpReward = (state: PhysicalState, config: SimulationConfig): number => {
+  const height = (1 + Math.cos(state.theta)) / 2;
+  const uprightEnergy = config.poleMass * config.gravity * config.poleLength;
+  const energyError = Math.abs(computePoleEnergy(state, config) - uprightEnergy) / (2 * uprightEnergy);
+  return height - 0.5 * Math.min(1, energyError);
+};
+
+/** Task term for arriving in `state`: 1 per step when balancing, `swingUpReward` for swing-up. */
+export const taskReward = (state: PhysicalState, config: SimulationConfig): number =>
+  config.task === 'swingup' ? swingUpReward(state, config) : 1;
+
+/** One-off reward (usually a penalty) on the step that ends the episode. */
+export const terminalReward = (terminatedCode: SimulationState['terminatedCode'], config: SimulationConfig): number => {
+  switch (terminatedCode) {
+    case 'pole_fell':
+      return -config.rewardFallPenalty;
+    case 'out_of_bounds':
+      return -config.rewardOutOfBoundsPenalty;
+    case 'max_steps':
+      return config.rewardSuccessBonus;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Reward for a step that applied the commanded `force` and arrived in
+ * `state`: the task term scaled by the survival weight, quadratic penalties
+ * on pole angle, distance from the track centre and control effort (force
+ * as a fraction of forceMag), plus the terminal reward.
+ */
+export const stepReward = (
+  state: PhysicalState,
+  terminatedCode: SimulationState['terminatedCode'],
+  force: number,
+  config: SimulationConfig
+): number => {
+  const angle = wrapAngle(state.theta);
+  const effort = force / config.forceMag;
+  return (
+    config.rewardSurvival * taskReward(state, config) -
+    config.rewardAnglePenalty * angle * angle -
+    config.rewardCentrePenalty * state.x * state.x -
+    config.rewardEffortPenalty * effort * effort +
+    terminalReward(terminatedCode, config)
+  );
+};
+
+// Short names of the reward weights, for run labels
+const REWARD_TERMS: { key: keyof SimulationConfig; name: string }[] = [
+  { key: 'rewardSurvival', name: 'survival' },
+  { key: 'rewardAnglePenalty', name: 'angle' },
+  { key: 'rewardCentrePenalty', name: 'centre' },
+  { key: 'rewardEffortPenalty', name: 'effort' },
+  { key: 'rewardFallPenalty', name: 'fall' },
+  { key: 'rewardOutOfBoundsPenalty', name: 'off-track' },
+  { key: 'rewardSuccessBonus', name: 'success' },
+];
+
+/** The reward weights that differ from `defaults`, e.g. "angle 2, fall 50"; null for the default reward. */
+export const describeReward = (config: SimulationConfig, defaults: SimulationConfig): string | null => {
+  const changed = REWARD_TERMS.filter((t) => config[t.key] !== defaults[t.key]);
+  return changed.length > 0 ? changed.map((t) => `${t.name} ${config[t.key]}`).join(', ') : null;
+};
@@ -0,0 +1,86 @@
+import { Policy, RobustnessAxis, RobustnessSettings, SimulationConfig } from '../types';
+import { withNumericField } from './configSchema';
+import { evaluatePolicy } from './training';
+import { Random } from './random';
+
+/**
+ * Robustness maps: how a fixed policy fares when two config fields move away
+ * from the values it was tuned or trained at. The plane spanned by the two
+ * axes is divided into cells; grid mode evaluates each cell's centre, random
+ * mode evaluates random points and pools them by the cell they fall in.
+ */
+
+// Where one evaluation happens and the cell it counts towards
+export interface RobustnessPoint {
+  column: number; // x cell
+  row: number; // y cell
+  x: number;
+  y: number;
+}
+
+// Pooled episodes of one heatmap cell
+export interface RobustnessCell {
+  episodes: number;
+  successes: number; // episodes that lasted until maxSteps
+  totalSteps: number;
+}
+
+/** Centre of every cell along the axis. */
+export const cellCentres = (axis: RobustnessAxis, resolution: number): number[] =>
+  Array.from({ length: resolution }, (_, i) => axis.min + ((i + 0.5) * (axis.max - axis.min)) / resolution);
+
+/** Index of the cell along the axis that `value` falls in; values outside the range go to the edge cells. */
+export const cellOf = (value: number, axis: RobustnessAxis, resolution: number): number =>
+  axis.max > axis.min
+    ? Math.min(resolution - 1, Math.max(0, Math.floor(((value - axis.min) / (axis.max - axis.min)) * resolution)))
+    : 0;
+
+/**
+ * The points to evaluate, row by row for a grid. Random points are drawn
+ * from `seed`, so the same settings and seed always probe the same configs.
+ */
+export const robustnessPoints = (settings: RobustnessSettings, seed: number): RobustnessPoint[] => {
+  const { x, y, resolution } = settings;
+  if (settings.mode === 'random') {
+    const rng = new Random(seed);
+    return Array.from({ length: settings.samples }, () => {
+      const px = rng.uniform(x.min, x.max);
+      const py = rng.uniform(y.min, y.max);
+      return { column: cellOf(px, x, resolution), row: cellOf(py, y, resolution), x: px, y: py };
+    });
+  }
+  const xs = cellCentres(x, resolution);
+  const ys = cellCentres(y, resolution);
+  return ys.flatMap((py, row) => xs.map((px, column) => ({ column, row, x: px, y: py })));
+};
+
+/** `base` with the two axis fields set to the point's values; integer fields are rounded. */
+export const configAt = (base: SimulationConfig, settings: RobustnessSettings, point: RobustnessPoint): SimulationConfig =>
+  withNumericField(withNumericField(base, settings.x.key, point.x), settings.y.key, point.y);
+
+/**
+ * Plays the policy greedily at one point. Every point uses the same seeds,
+ * so differences between cells come from the physics, not from luck with
+ * the initial states.
+ */
+export const evaluatePoint = (
+  policy: Policy,
+  base: SimulationConfig,
+  settings: RobustnessSettings,
+  point: RobustnessPoint,
+  seed: number
+): RobustnessCell => {
+  const results = evaluatePolicy(policy, configAt(base, settings, point), settings.episodes, seed);
+  return {
+    episodes: results.length,
+    successes: results.filter((r) => r.terminatedCode === 'max_steps').length,
+    totalSteps: results.reduce((sum, r) => sum + r.steps, 0),
+  };
+};
+
+/** Adds a point's episodes to its cell. */
+export const poolCell = (cell: RobustnessCell | undefined, result: RobustnessCell): RobustnessCell => ({
+  episodes: (cell?.episodes ?? 0) + result.episodes,
+  successes: (cell?.successes ?? 0) + result.successes,
+  totalSteps: (cell?.totalSteps ?? 0) + result.totalSteps,
+});
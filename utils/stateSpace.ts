@@ -0,0 +1,68 @@
+import { Observation, Policy, SimulationConfig } from '../types';
+import { actionToForce } from './physics';
+import { getObservationBounds } from './tabularAgent';
+
+export interface StateDimension {
+  label: string;
+  symbol: string;
+  unit: string;
+  // Factor from the observation's SI value to the unit shown (angles are shown in degrees)
+  displayScale: number;
+}
+
+// The four observation components, in observation order
+export const STATE_DIMENSIONS: StateDimension[] = [
+  { label: 'Cart Position', symbol: 'x', unit: 'm', displayScale: 1 },
+  { label: 'Cart Velocity', symbol: 'ẋ', unit: 'm/s', displayScale: 1 },
+  { label: 'Pole Angle', symbol: 'θ', unit: '°', displayScale: 180 / Math.PI },
+  { label: 'Pole Angular Velocity', symbol: 'θ̇', unit: '°/s', displayScale: 180 / Math.PI },
+];
+
+export interface PolicyMap {
+  xIndex: number; // observation component along the horizontal axis
+  yIndex: number; // observation component along the vertical axis
+  xRange: [number, number];
+  yRange: [number, number];
+  resolution: number;
+  // Row-major, row 0 at the top (largest y value)
+  forces: Float64Array;
+  values: Float64Array | null; // only for policies with a value estimate
+}
+
+/**
+ * Samples a policy over a 2D slice of the state space: the two chosen
+ * components sweep their observation bounds on a `resolution`² grid while
+ * the others stay at `fixed`. Each cell holds the force the chosen action
+ * applies, plus the policy's value estimate when it has one. Stateful
+ * policies are reset before every query so each cell is judged on its own.
+ */
+export const computePolicyMap = (
+  policy: Policy,
+  config: SimulationConfig,
+  xIndex: number,
+  yIndex: number,
+  fixed: Observation,
+  resolution: number
+): PolicyMap => {
+  const bounds = getObservationBounds(config);
+  const xRange: [number, number] = [-bounds[xIndex], bounds[xIndex]];
+  const yRange: [number, number] = [-bounds[yIndex], bounds[yIndex]];
+  const forces = new Float64Array(resolution * resolution);
+  const values = policy.value ? new Float64Array(resolution * resolution) : null;
+  const observation = [...fixed];
+
+  for (let row = 0; row < resolution; row++) {
+    // Cell centres, so the grid is symmetric about zero
+    observation[yIndex] = yRange[1] - ((row + 0.5) / resolution) * (yRange[1] - yRange[0]);
+    for (let col = 0; col < resolution; col++) {
+      observation[xIndex] = xRange[0] + ((col + 0.5) / resolution) * (xRange[1] - xRange[0]);
+      policy.reset?.();
+      const i = row * resolution + col;
+      forces[i] = actionToForce(policy.act(observation), config);
+      if (values && policy.value) values[i] = policy.value(observation);
+    }
+  }
+  policy.reset?.();
+
+  return { xIndex, yIndex, xRange, yRange, resolution, forces, values };
+};
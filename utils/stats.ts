@@ -0,0 +1,75 @@
+import { EpisodeStats, SimulationState } from '../types';
+
+export interface RollingPoint {
+  mean: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Trailing-window mean, min and max for every index. The first few points
+ * use however many values are available so the curve starts at episode 1.
+ */
+export const rollingStats = (values: number[], window: number): RollingPoint[] => {
+  const result: RollingPoint[] = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= window) sum -= values[i - window];
+    const start = Math.max(0, i - window + 1);
+    let min = Infinity;
+    let max = -Infinity;
+    for (let j = start; j <= i; j++) {
+      if (values[j] < min) min = values[j];
+      if (values[j] > max) max = values[j];
+    }
+    result.push({ mean: sum / (i - start + 1), min, max });
+  }
+  return result;
+};
+
+export type TerminationCounts = Record<SimulationState['terminatedCode'], number>;
+
+export const countTerminations = (episodes: EpisodeStats[]): TerminationCounts => {
+  const counts: TerminationCounts = { running: 0, pole_fell: 0, out_of_bounds: 0, max_steps: 0, manual_stop: 0 };
+  for (const e of episodes) counts[e.terminatedCode]++;
+  return counts;
+};
+
+/**
+ * Keeps at most `maxPoints` evenly spaced items (always including the last),
+ * so charts over thousands of episodes stay responsive.
+ */
+export const downsample = <T>(items: T[], maxPoints: number): T[] => {
+  if (items.length <= maxPoints) return items;
+  const stride = Math.ceil(items.length / maxPoints);
+  const result = items.filter((_, i) => i % stride === 0);
+  if (result[result.length - 1] !== items[items.length - 1]) result.push(items[items.length - 1]);
+  return result;
+};
+
+// Two-sided 95% Student-t critical values for 1..30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12,
+  2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+export interface MeanInterval {
+  mean: number;
+  halfWidth: number; // 95% confidence interval is mean ± halfWidth; 0 for fewer than two values
+  n: number;
+}
+
+/**
+ * Mean with a 95% Student-t confidence interval, the right interval for the
+ * handful of seeds a sweep can afford. NaN mean for no values.
+ */
+export const meanConfidence = (values: number[]): MeanInterval => {
+  const n = values.length;
+  if (n === 0) return { mean: NaN, halfWidth: 0, n };
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  if (n < 2) return { mean, halfWidth: 0, n };
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (n - 1);
+  const t = n - 1 <= T_95.length ? T_95[n - 2] : 1.96;
+  return { mean, halfWidth: (t * Math.sqrt(variance)) / Math.sqrt(n), n };
+};
@@ -0,0 +1,219 @@
+import {
+  AgentAlgorithm,
+  AgentConfig,
+  SimulationConfig,
+  SweepDimension,
+  SweepSpec,
+  SweepTrial,
+  SweepValues,
+} from '../types';
+import { NUMERIC_CONFIG_FIELDS, isNumericConfigKey, withNumericField } from './configSchema';
+import { MeanInterval, meanConfidence } from './stats';
+import { Random } from './random';
+
+/**
+ * Hyperparameter sweeps: every configuration of a grid or random search is
+ * trained from several seeds, scored by a greedy evaluation, and the seeds
+ * are aggregated into a mean and confidence interval. All configurations
+ * share the same seeds, so they face the same initial states and noise and
+ * differences between them are down to the swept values.
+ */
+
+// Larger sweeps are refused; at a few seconds per run they would take hours
+export const MAX_SWEEP_CONFIGS = 200;
+
+// Something a sweep can vary, with the range offered for it
+export interface SweepParameter {
+  target: SweepDimension['target'];
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  integer: boolean;
+  logScale: boolean;
+  algorithms?: AgentAlgorithm[]; // agent hyperparameters only exist for some algorithms
+}
+
+const TABULAR: AgentAlgorithm[] = ['q-learning', 'sarsa'];
+const DQN: AgentAlgorithm[] = ['dqn'];
+
+const AGENT_PARAMETERS: SweepParameter[] = [
+  { target: 'agent', key: 'learningRate', label: 'Learning Rate', min: 1e-5, max: 1, integer: false, logScale: true },
+  { target: 'agent', key: 'discount', label: 'Discount (γ)', min: 0.8, max: 0.999, integer: false, logScale: false },
+  { target: 'agent', key: 'epsilonStart', label: 'Epsilon Start', min: 0, max: 1, integer: false, logScale: false },
+  { target: 'agent', key: 'epsilonMin', label: 'Epsilon Min', min: 0, max: 0.2, integer: false, logScale: false },
+  { target: 'agent', key: 'epsilonDecay', label: 'Epsilon Decay', min: 0.9, max: 0.9999, integer: false, logScale: false },
+  { target: 'agent', key: 'batchSize', label: 'Batch Size', min: 8, max: 256, integer: true, logScale: true, algorithms: DQN },
+  { target: 'agent', key: 'bufferSize', label: 'Replay Buffer Size', min: 1000, max: 100000, integer: true, logScale: true, algorithms: DQN },
+  { target: 'agent', key: 'warmupSteps', label: 'Warm-up Steps', min: 0, max: 10000, integer: true, logScale: false, algorithms: DQN },
+  { target: 'agent', key: 'targetSyncInterval', label: 'Target Sync Interval', min: 10, max: 5000, integer: true, logScale: true, algorithms: DQN },
+  { target: 'agent', key: 'huberDelta', label: 'Huber Delta', min: 0.1, max: 10, integer: false, logScale: true, algorithms: DQN },
+];
+
+// Every numeric config field can be swept, over the range the config panel allows
+const ENV_PARAMETERS: SweepParameter[] = NUMERIC_CONFIG_FIELDS.map((f) => ({
+  target: 'env',
+  key: f.key,
+  label: f.label,
+  min: f.min,
+  max: f.max,
+  integer: f.integer ?? false,
+  logScale: false,
+}));
+
+/** What a sweep over `algorithm` can vary: its hyperparameters, then the config fields. */
+export const sweepParameters = (algorithm: AgentAlgorithm): SweepParameter[] => [
+  ...AGENT_PARAMETERS.filter((p) => (p.algorithms ?? TABULAR.concat(DQN)).includes(algorithm)),
+  ...ENV_PARAMETERS,
+];
+
+export const dimensionId = (d: { target: SweepDimension['target']; key: string }) => `${d.target}.${d.key}`;
+
+// Rounds integer dimensions and keeps values inside the parameter's range
+const toValue = (value: number, d: SweepDimension, parameter?: SweepParameter) => {
+  const clamped = parameter ? Math.min(parameter.max, Math.max(parameter.min, value)) : value;
+  return d.integer ? Math.round(clamped) : clamped;
+};
+
+const findParameter = (d: SweepDimension) => [...AGENT_PARAMETERS, ...ENV_PARAMETERS].find((p) => p.target === d.target && p.key === d.key);
+
+/** Number of configurations the spec describes. */
+export const countConfigs = (spec: Pick<SweepSpec, 'mode' | 'samples' | 'dimensions'>): number =>
+  spec.mode === 'random'
+    ? spec.samples
+    : spec.dimensions.reduce((count, d) => count * Math.max(1, d.values.length), 1);
+
+/**
+ * The configurations to train: the Cartesian product of every dimension's
+ * values for a grid search, or `samples` independent draws for a random
+ * search. Random draws are seeded by the spec, so a sweep can be repeated.
+ */
+export const expandSweep = (spec: SweepSpec): SweepValues[] => {
+  if (spec.mode === 'random') {
+    const rng = new Random(spec.seed);
+    return Array.from({ length: spec.samples }, () => {
+      const values: SweepValues = {};
+      for (const d of spec.dimensions) {
+        const draw = d.logScale && d.min > 0
+          ? Math.exp(rng.uniform(Math.log(d.min), Math.log(d.max)))
+          : rng.uniform(d.min, d.max);
+        values[dimensionId(d)] = toValue(draw, d, findParameter(d));
+      }
+      return values;
+    });
+  }
+
+  let configs: SweepValues[] = [{}];
+  for (const d of spec.dimensions) {
+    if (d.values.length === 0) continue;
+    const parameter = findParameter(d);
+    configs = configs.flatMap((values) => d.values.map((v) => ({ ...values, [dimensionId(d)]: toValue(v, d, parameter) })));
+  }
+  return configs;
+};
+
+/** Training seeds shared by every configuration; each run also uses the next two for evaluation and the agent. */
+export const trialSeeds = (spec: SweepSpec): number[] => Array.from({ length: spec.seeds }, (_, i) => spec.seed + 1000 * i);
+
+/** The agent hyperparameters and config one configuration trains with. */
+export const applySweepValues = (
+  spec: SweepSpec,
+  values: SweepValues
+): { agentConfig: AgentConfig; simConfig: SimulationConfig } => {
+  let agentConfig = spec.agentConfig;
+  let simConfig = spec.simConfig;
+  for (const d of spec.dimensions) {
+    const value = values[dimensionId(d)];
+    if (value === undefined) continue;
+    if (d.target === 'agent') agentConfig = { ...agentConfig, [d.key]: value };
+    else if (isNumericConfigKey(d.key)) simConfig = withNumericField(simConfig, d.key, value);
+  }
+  return { agentConfig, simConfig };
+};
+
+/**
+ * First episode at which the mean training return over the last `window`
+ * episodes reaches `threshold`, as in Gym's "solved" criterion; null if the
+ * run never gets there.
+ */
+export const episodesToSolve = (returns: number[], threshold: number, window: number): number | null => {
+  let sum = 0;
+  for (let i = 0; i < returns.length; i++) {
+    sum += returns[i];
+    if (i >= window) sum -= returns[i - window];
+    if (i >= window - 1 && sum / window >= threshold) return i + 1;
+  }
+  return null;
+};
+
+// Aggregated results of one configuration over its seeds
+export interface SweepSummary {
+  configIndex: number;
+  values: SweepValues;
+  runs: number; // finished seeds
+  finalReturn: MeanInterval;
+  episodesToSolve: MeanInterval; // over the runs that solved
+  solved: number; // runs that solved
+}
+
+export const summariseSweep = (configs: SweepValues[], trials: SweepTrial[]): SweepSummary[] =>
+  configs
+    .map((values, configIndex) => {
+      const own = trials.filter((t) => t.configIndex === configIndex);
+      const solvedAt = own.map((t) => t.episodesToSolve).filter((e): e is number => e !== null);
+      return {
+        configIndex,
+        values,
+        runs: own.length,
+        finalReturn: meanConfidence(own.map((t) => t.finalReturn)),
+        episodesToSolve: meanConfidence(solvedAt),
+        solved: solvedAt.length,
+      };
+    })
+    .filter((s) => s.runs > 0);
+
+/** Training return per episode averaged over a configuration's seeds. */
+export const meanLearningCurve = (trials: SweepTrial[]): number[] => {
+  const length = Math.max(0, ...trials.map((t) => t.returns.length));
+  return Array.from({ length }, (_, i) => {
+    const values = trials.filter((t) => i < t.returns.length).map((t) => t.returns[i]);
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+  });
+};
+
+const formatNumber = (value: number) => (Number.isFinite(value) ? String(value) : '');
+
+/** One CSV row per configuration: swept values, then the aggregated metrics. */
+export const sweepToCsv = (dimensions: SweepDimension[], summaries: SweepSummary[]): string => {
+  const lines = [
+    [
+      'config',
+      ...dimensions.map(dimensionId),
+      'runs',
+      'finalReturnMean',
+      'finalReturnCi95',
+      'solved',
+      'episodesToSolveMean',
+      'episodesToSolveCi95',
+    ].join(','),
+  ];
+  for (const s of summaries) {
+    lines.push(
+      [
+        s.configIndex + 1,
+        ...dimensions.map((d) => formatNumber(s.values[dimensionId(d)])),
+        s.runs,
+        formatNumber(s.finalReturn.mean),
+        formatNumber(s.finalReturn.halfWidth),
+        s.solved,
+        formatNumber(s.episodesToSolve.mean),
+        s.solved > 1 ? formatNumber(s.episodesToSolve.halfWidth) : '',
+      ].join(',')
+    );
+  }
+  return lines.join('\n') + '\n';
+};
+
+/** The whole sweep, spec and every run with its learning curve, as JSON. */
+export const sweepToJson = (spec: SweepSpec, configs: SweepValues[], trials: SweepTrial[]): string =>
+  JSON.stringify({ version: 1, spec, configs, summaries: summariseSweep(configs, trials), trials }, null, 2);
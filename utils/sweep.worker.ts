@@ -0,0 +1,139 @@
+import { Agent, SimulationConfig, SweepCommand, SweepEvent, SweepSpec, SweepValues } from '../types';
+import { CartPoleEnv } from './environment';
+import { createAgent, evaluatePolicy, runTrainingEpisode } from './training';
+import { applySweepValues, episodesToSolve, expandSweep, trialSeeds } from './sweep';
+
+/**
+ * Sweep worker. Trains every configuration of a sweep from every seed, one
+ * run after another, headlessly: no snapshots or sampled episodes, only the
+ * per-episode returns and the final evaluation of each run are reported.
+ * Like the training worker it works in short slices so a stop is picked up
+ * promptly.
+ */
+
+// Milliseconds of training per slice before yielding to the message queue
+const SLICE_MS = 50;
+// Minimum milliseconds between progress events
+const PROGRESS_INTERVAL_MS = 200;
+
+// The run in progress
+interface Trial {
+  index: number; // configuration-major: configIndex * seeds + seedIndex
+  seed: number;
+  simConfig: SimulationConfig;
+  env: CartPoleEnv;
+  agent: Agent;
+  returns: number[];
+}
+
+interface Job {
+  spec: SweepSpec;
+  configs: SweepValues[];
+  seeds: number[];
+  trial: Trial | null;
+  lastProgressAt: number;
+}
+
+let job: Job | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+const post = (event: SweepEvent) => self.postMessage(event);
+
+// Same seed layout as the training worker: environment, evaluation, agent
+const startTrial = (current: Job, index: number): Trial => {
+  const seed = current.seeds[index % current.seeds.length];
+  const { agentConfig, simConfig } = applySweepValues(current.spec, current.configs[Math.floor(index / current.seeds.length)]);
+  return {
+    index,
+    seed,
+    simConfig,
+    env: new CartPoleEnv(simConfig, seed),
+    agent: createAgent(agentConfig, simConfig, seed + 2),
+    returns: [],
+  };
+};
+
+const finishTrial = (current: Job, trial: Trial) => {
+  const { spec } = current;
+  const evaluation = evaluatePolicy(trial.agent, trial.simConfig, spec.evalEpisodes, trial.seed + 1);
+  post({
+    type: 'trial',
+    trial: {
+      configIndex: Math.floor(trial.index / current.seeds.length),
+      seed: trial.seed,
+      finalReturn: evaluation.reduce((sum, e) => sum + e.return, 0) / Math.max(1, evaluation.length),
+      episodesToSolve: episodesToSolve(trial.returns, spec.solveThreshold, spec.solveWindow),
+      returns: trial.returns,
+    },
+  });
+};
+
+const finish = (status: 'stopped' | 'finished') => {
+  clearTimeout(timer);
+  job = null;
+  post({ type: 'status', status });
+};
+
+const runSlice = () => {
+  const current = job;
+  if (!current) return;
+  const total = current.configs.length * current.seeds.length;
+
+  try {
+    const start = performance.now();
+    while (performance.now() - start < SLICE_MS) {
+      const trial = current.trial;
+      if (!trial) break;
+      trial.returns.push(runTrainingEpisode(trial.env, trial.agent, trial.returns.length + 1).return);
+      if (trial.returns.length >= current.spec.episodes) {
+        finishTrial(current, trial);
+        current.trial = trial.index + 1 < total ? startTrial(current, trial.index + 1) : null;
+      }
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    job = null;
+    return;
+  }
+
+  if (!current.trial) {
+    finish('finished');
+    return;
+  }
+  if (performance.now() - current.lastProgressAt >= PROGRESS_INTERVAL_MS) {
+    post({ type: 'progress', trial: current.trial.index, episode: current.trial.returns.length });
+    current.lastProgressAt = performance.now();
+  }
+  timer = setTimeout(runSlice, 0);
+};
+
+self.onmessage = (e: MessageEvent<SweepCommand>) => {
+  const command = e.data;
+  switch (command.type) {
+    case 'start': {
+      clearTimeout(timer);
+      const { spec } = command;
+      const configs = expandSweep(spec);
+      const seeds = trialSeeds(spec);
+      post({ type: 'plan', configs, seeds });
+      post({ type: 'status', status: 'running' });
+      if (configs.length === 0 || seeds.length === 0) {
+        finish('finished');
+        break;
+      }
+      job = { spec, configs, seeds, trial: null, lastProgressAt: performance.now() };
+      try {
+        job.trial = startTrial(job, 0);
+      } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+        job = null;
+        break;
+      }
+      timer = setTimeout(runSlice, 0);
+      break;
+    }
+    case 'stop':
+      if (job) finish('stopped');
+      break;
+  }
+};
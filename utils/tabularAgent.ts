@@ -0,0 +1,136 @@
+import { ActionSpace, Agent, AgentSnapshot, EnvAction, Observation, SimulationConfig, TabularAgentConfig, TabularAgentSnapshot, Transition } from '../types';
+import { MAX_CART_SPEED, MAX_POLE_SPEED } from '../constants';
+import { getActionSet } from './physics';
+import { Random } from './random';
+
+/**
+ * Symmetric observation limits used for binning. Cart position and pole angle
+ * follow the termination thresholds (the full circle in the swing-up task),
+ * velocities use fixed caps.
+ */
+export const getObservationBounds = (config: SimulationConfig): number[] => [
+  config.xThreshold,
+  MAX_CART_SPEED,
+  config.task === 'swingup' ? Math.PI : (config.thetaThresholdDegrees * Math.PI) / 180,
+  MAX_POLE_SPEED,
+];
+
+/**
+ * Maps a continuous observation onto a single state index by splitting each
+ * dimension into `bins[i]` equal-width buckets over [-bound, bound].
+ */
+export const createDiscretizer = (bins: number[], bounds: number[]) => {
+  return (observation: Observation): number => {
+    let index = 0;
+    for (let i = 0; i < bins.length; i++) {
+      const n = bins[i];
+      const normalized = (observation[i] + bounds[i]) / (2 * bounds[i]);
+      const bucket = Math.min(n - 1, Math.max(0, Math.floor(normalized * n)));
+      index = index * n + bucket;
+    }
+    return index;
+  };
+};
+
+/**
+ * Q-learning / SARSA over a discretised CartPole state space.
+ * Exploration is epsilon-greedy and decays once per episode.
+ */
+export class TabularAgent implements Agent {
+  readonly name: string;
+  readonly actionSpace: ActionSpace;
+  private readonly config: TabularAgentConfig;
+  private readonly simConfig: SimulationConfig;
+  private readonly discretize: (observation: Observation) => number;
+  private readonly actions: EnvAction[];
+  private readonly qTable: Float64Array;
+  private readonly rng: Random;
+  private currentEpsilon: number;
+
+  constructor(config: TabularAgentConfig, simConfig: SimulationConfig, seed: number) {
+    this.config = config;
+    this.simConfig = simConfig;
+    this.name = config.algorithm === 'sarsa' ? 'SARSA' : 'Q-Learning';
+    this.actionSpace = simConfig.actionSpace;
+    this.discretize = createDiscretizer(config.bins, getObservationBounds(simConfig));
+    this.actions = getActionSet(simConfig);
+    const numStates = config.bins.reduce((a, b) => a * b, 1);
+    this.qTable = new Float64Array(numStates * this.actions.length);
+    this.rng = new Random(seed);
+    this.currentEpsilon = config.epsilonStart;
+  }
+
+  get epsilon(): number {
+    return this.currentEpsilon;
+  }
+
+  /** Greedy action, used when the agent drives the cart. */
+  act(observation: Observation): EnvAction {
+    return this.selectAction(observation, false);
+  }
+
+  selectAction(observation: Observation, explore: boolean): EnvAction {
+    if (explore && this.rng.next() < this.currentEpsilon) {
+      return this.actions[this.rng.int(this.actions.length)];
+    }
+    const base = this.discretize(observation) * this.actions.length;
+    let best = 0;
+    for (let a = 1; a < this.actions.length; a++) {
+      if (this.qTable[base + a] > this.qTable[base + best]) best = a;
+    }
+    return this.actions[best];
+  }
+
+  /** Q-value of the greedy action in the observation's bucket. */
+  value(observation: Observation): number {
+    const base = this.discretize(observation) * this.actions.length;
+    let best = this.qTable[base];
+    for (let a = 1; a < this.actions.length; a++) best = Math.max(best, this.qTable[base + a]);
+    return best;
+  }
+
+  update(transition: Transition): number {
+    const { observation, action, reward, nextObservation, terminated, nextAction } = transition;
+    const { learningRate, discount, algorithm } = this.config;
+
+    const index = this.discretize(observation) * this.actions.length + this.actions.indexOf(action);
+    const nextBase = this.discretize(nextObservation) * this.actions.length;
+
+    let bootstrap = 0;
+    if (!terminated) {
+      if (algorithm === 'sarsa' && nextAction !== null) {
+        bootstrap = this.qTable[nextBase + this.actions.indexOf(nextAction)];
+      } else {
+        bootstrap = Math.max(...this.actions.map((_, a) => this.qTable[nextBase + a]));
+      }
+    }
+
+    const tdError = reward + discount * bootstrap - this.qTable[index];
+    this.qTable[index] += learningRate * tdError;
+    return Math.abs(tdError);
+  }
+
+  endEpisode() {
+    this.currentEpsilon = Math.max(this.config.epsilonMin, this.currentEpsilon * this.config.epsilonDecay);
+  }
+
+  snapshot(): AgentSnapshot {
+    return {
+      config: this.config,
+      simConfig: this.simConfig,
+      epsilon: this.currentEpsilon,
+      qTable: Array.from(this.qTable),
+    };
+  }
+
+  /** Rebuilds an agent from `snapshot()` output, e.g. on the other side of a worker boundary. */
+  static fromSnapshot(snapshot: TabularAgentSnapshot, seed: number): TabularAgent {
+    const agent = new TabularAgent(snapshot.config, snapshot.simConfig, seed);
+    if (snapshot.qTable.length !== agent.qTable.length) {
+      throw new Error('Q-table snapshot does not match the configured buckets');
+    }
+    agent.qTable.set(snapshot.qTable);
+    agent.currentEpsilon = snapshot.epsilon;
+    return agent;
+  }
+}
@@ -0,0 +1,115 @@
+import { Agent, AgentConfig, AgentSnapshot, EpisodeStats, Policy, SimulationConfig, StepHistory } from '../types';
+import { CartPoleEnv, toStepHistory } from './environment';
+import { TabularAgent } from './tabularAgent';
+import { DqnAgent } from './dqnAgent';
+
+/**
+ * Builds a fresh, untrained agent for the given hyperparameters.
+ */
+export const createAgent = (agentConfig: AgentConfig, simConfig: SimulationConfig, seed: number): Agent =>
+  agentConfig.algorithm === 'dqn'
+    ? new DqnAgent(agentConfig, simConfig, seed)
+    : new TabularAgent(agentConfig, simConfig, seed);
+
+/**
+ * Rebuilds a trained agent from a snapshot (worker message or saved file).
+ */
+export const restoreAgent = (snapshot: AgentSnapshot, seed: number): Agent =>
+  'qTable' in snapshot ? TabularAgent.fromSnapshot(snapshot, seed) : DqnAgent.fromSnapshot(snapshot, seed);
+
+/**
+ * Plays one exploratory episode and lets the agent learn from every step.
+ * Actions are chosen one step ahead so on-policy learners (SARSA) see the
+ * action they will actually take next.
+ */
+export const runTrainingEpisode = (env: CartPoleEnv, agent: Agent, episode: number): EpisodeStats => {
+  let { observation } = env.reset();
+  let action = agent.selectAction(observation, true);
+  let totalReward = 0;
+  let errorSum = 0;
+  let steps = 0;
+
+  for (;;) {
+    const result = env.step(action);
+    const finished = result.terminated || result.truncated;
+    const nextAction = finished ? null : agent.selectAction(result.observation, true);
+
+    errorSum += agent.update({
+      observation,
+      action,
+      reward: result.reward,
+      nextObservation: result.observation,
+      terminated: result.terminated,
+      nextAction,
+    });
+    totalReward += result.reward;
+    steps++;
+
+    if (finished || nextAction === null) {
+      const epsilon = agent.epsilon;
+      agent.endEpisode();
+      return {
+        episode,
+        steps,
+        return: totalReward,
+        terminatedCode: result.info.terminatedCode,
+        epsilon,
+        meanError: errorSum / steps,
+      };
+    }
+
+    observation = result.observation;
+    action = nextAction;
+  }
+};
+
+/**
+ * Plays one greedy (no exploration, no learning) episode and records it for
+ * display, so a running training job can show what the policy currently does.
+ */
+export const runGreedyEpisode = (env: CartPoleEnv, agent: Agent): StepHistory[] => {
+  let { observation } = env.reset();
+  const history: StepHistory[] = [];
+  let totalReward = 0;
+
+  for (;;) {
+    const previous = env.getState();
+    const action = agent.act(observation);
+    const result = env.step(action);
+    totalReward += result.reward;
+    history.push(toStepHistory(previous, result.info, result.reward, totalReward, env.getConfig()));
+    if (result.terminated || result.truncated) return history;
+    observation = result.observation;
+  }
+};
+
+/**
+ * Plays `episodes` greedy episodes without learning and reports each, to
+ * judge a trained or loaded policy. Episode i starts from seed `seed + i`,
+ * so the same seed always poses the same starting states.
+ */
+export const evaluatePolicy = (
+  policy: Policy,
+  config: SimulationConfig,
+  episodes: number,
+  seed: number
+): EpisodeStats[] => {
+  const env = new CartPoleEnv(config, seed);
+  const results: EpisodeStats[] = [];
+
+  for (let episode = 1; episode <= episodes; episode++) {
+    let { observation } = env.reset(seed + episode - 1);
+    policy.reset?.();
+    let totalReward = 0;
+    for (;;) {
+      const result = env.step(policy.act(observation));
+      totalReward += result.reward;
+      if (result.terminated || result.truncated) {
+        results.push({ episode, steps: result.info.steps, return: totalReward, terminatedCode: result.info.terminatedCode });
+        break;
+      }
+      observation = result.observation;
+    }
+  }
+  return results;
+};
@@ -0,0 +1,141 @@
+import { Agent, EpisodeStats, TrainingCommand, TrainingEvent } from '../types';
+import { CartPoleEnv } from './environment';
+import { RandomisedCartPoleEnv } from './domainRandomisation';
+import { createAgent, runGreedyEpisode, runTrainingEpisode } from './training';
+
+/**
+ * Dedicated training worker. Runs episodes back to back, off the main
+ * thread, and streams progress, weight snapshots and sampled greedy episodes
+ * back to the UI. Work is split into short slices so pause/stop commands
+ * are picked up promptly.
+ */
+
+// Milliseconds of training per slice before yielding to the message queue
+const SLICE_MS = 50;
+// Minimum milliseconds between progress events
+const PROGRESS_INTERVAL_MS = 100;
+
+interface Job {
+  env: CartPoleEnv;
+  evalEnv: CartPoleEnv;
+  agent: Agent;
+  episodes: number;
+  snapshotInterval: number;
+  completed: number;
+  pending: EpisodeStats[];
+  pendingSteps: number;
+  lastProgressAt: number;
+}
+
+let job: Job | null = null;
+let paused = false;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+const post = (event: TrainingEvent) => self.postMessage(event);
+
+const flushProgress = (current: Job) => {
+  const now = performance.now();
+  const elapsed = (now - current.lastProgressAt) / 1000;
+  post({
+    type: 'progress',
+    episodes: current.pending,
+    stepsPerSecond: elapsed > 0 ? current.pendingSteps / elapsed : 0,
+  });
+  current.pending = [];
+  current.pendingSteps = 0;
+  current.lastProgressAt = now;
+};
+
+const publishSnapshot = (current: Job) => {
+  post({ type: 'snapshot', episode: current.completed, snapshot: current.agent.snapshot() });
+  post({ type: 'sample', episode: current.completed, history: runGreedyEpisode(current.evalEnv, current.agent) });
+};
+
+const finish = (status: 'stopped' | 'finished') => {
+  clearTimeout(timer);
+  if (job) {
+    flushProgress(job);
+    // Always end on a snapshot of the final weights, unless the last episode just sent one
+    if (job.completed % job.snapshotInterval !== 0) publishSnapshot(job);
+  }
+  job = null;
+  paused = false;
+  post({ type: 'status', status });
+};
+
+const runSlice = () => {
+  const current = job;
+  if (!current || paused) return;
+
+  try {
+    const start = performance.now();
+    while (current.completed < current.episodes && performance.now() - start < SLICE_MS) {
+      const stats = runTrainingEpisode(current.env, current.agent, current.completed + 1);
+      current.completed++;
+      current.pending.push(stats);
+      current.pendingSteps += stats.steps;
+
+      if (current.completed % current.snapshotInterval === 0) {
+        publishSnapshot(current);
+      }
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    job = null;
+    return;
+  }
+
+  if (current.completed >= current.episodes) {
+    finish('finished');
+    return;
+  }
+  if (performance.now() - current.lastProgressAt >= PROGRESS_INTERVAL_MS) {
+    flushProgress(current);
+  }
+  timer = setTimeout(runSlice, 0);
+};
+
+self.onmessage = (e: MessageEvent<TrainingCommand>) => {
+  const command = e.data;
+  switch (command.type) {
+    case 'start': {
+      clearTimeout(timer);
+      const { agentConfig, simConfig, episodes, seed, snapshotInterval, randomisation } = command;
+      job = {
+        // Only training episodes are randomised; sampled greedy episodes show the nominal config
+        env: randomisation.length > 0 ? new RandomisedCartPoleEnv(simConfig, randomisation, seed) : new CartPoleEnv(simConfig, seed),
+        evalEnv: new CartPoleEnv(simConfig, seed + 1),
+        agent: createAgent(agentConfig, simConfig, seed + 2),
+        episodes,
+        snapshotInterval: Math.max(1, snapshotInterval),
+        completed: 0,
+        pending: [],
+        pendingSteps: 0,
+        lastProgressAt: performance.now(),
+      };
+      paused = false;
+      post({ type: 'status', status: 'running' });
+      timer = setTimeout(runSlice, 0);
+      break;
+    }
+    case 'pause':
+      if (job && !paused) {
+        paused = true;
+        clearTimeout(timer);
+        flushProgress(job);
+        post({ type: 'status', status: 'paused' });
+      }
+      break;
+    case 'resume':
+      if (job && paused) {
+        paused = false;
+        job.lastProgressAt = performance.now();
+        post({ type: 'status', status: 'running' });
+        timer = setTimeout(runSlice, 0);
+      }
+      break;
+    case 'stop':
+      if (job) finish('stopped');
+      break;
+  }
+};
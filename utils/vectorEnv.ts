@@ -0,0 +1,383 @@
+import { EnvAction, PhysicalState, SimulationConfig, SimulationState } from '../types';
+import { actionToForce, getActionSet, getInitialState, wrapAngle } from './physics';
+import { CartPoleEnv } from './environment';
+import { stepReward } from './reward';
+import { sampleDisturbance } from './disturbances';
+import { Random, randomSeed } from './random';
+
+// `terminatedCodes` holds indices into this list
+export const TERMINATION_CODES: SimulationState['terminatedCode'][] = [
+  'running',
+  'pole_fell',
+  'out_of_bounds',
+  'max_steps',
+  'manual_stop',
+];
+
+const RUNNING = 0;
+const POLE_FELL = 1;
+const OUT_OF_BOUNDS = 2;
+const MAX_STEPS = 3;
+
+/**
+ * N independent CartPoles stepped together. State lives in struct-of-arrays
+ * typed arrays (entry i of each belongs to environment i), so a step touches
+ * no objects beyond the per-environment random streams.
+ *
+ * Environment i is seeded with `seed + i` and reproduces `CartPoleEnv` with
+ * that seed exactly: the step below performs the same floating-point
+ * operations as `computeAccelerations` and `integrate` in the same order, and
+ * initial states, disturbances and rewards come from the scalar code itself.
+ *
+ * Finished environments reset within the same `step()`: their `dones` entry
+ * is 1, `terminatedCodes`, `episodeLengths`, `episodeReturns` and
+ * `finalObservations` describe the episode that ended, and the state arrays
+ * already hold the next episode's initial state.
+ */
+export class VectorCartPoleEnv {
+  readonly numEnvs: number;
+  readonly x: Float64Array;
+  readonly xDot: Float64Array;
+  readonly theta: Float64Array;
+  readonly thetaDot: Float64Array;
+  readonly steps: Uint32Array;
+  // Results of the last step
+  readonly rewards: Float64Array;
+  readonly dones: Uint8Array;
+  readonly terminatedCodes: Uint8Array;
+  // Only meaningful where `dones` is 1; interleaved [x, xDot, theta, thetaDot] per environment
+  readonly finalObservations: Float64Array;
+  readonly episodeLengths: Uint32Array;
+  readonly episodeReturns: Float64Array;
+
+  private config: SimulationConfig;
+  private readonly seed: number;
+  private rngs: Random[];
+  private readonly returns: Float64Array;
+  private readonly wind: Float64Array; // previous step's wind, which random wind evolves from
+  // Scratch state for `stepReward`, and the output of `accelerate`
+  private readonly scratch: PhysicalState = { x: 0, xDot: 0, theta: 0, thetaDot: 0 };
+  private xAcc = 0;
+  private thetaAcc = 0;
+
+  constructor(config: SimulationConfig, numEnvs: number, seed: number = randomSeed()) {
+    this.config = config;
+    this.numEnvs = numEnvs;
+    this.seed = seed;
+    this.x = new Float64Array(numEnvs);
+    this.xDot = new Float64Array(numEnvs);
+    this.theta = new Float64Array(numEnvs);
+    this.thetaDot = new Float64Array(numEnvs);
+    this.steps = new Uint32Array(numEnvs);
+    this.rewards = new Float64Array(numEnvs);
+    this.dones = new Uint8Array(numEnvs);
+    this.terminatedCodes = new Uint8Array(numEnvs);
+    this.finalObservations = new Float64Array(numEnvs * 4);
+    this.episodeLengths = new Uint32Array(numEnvs);
+    this.episodeReturns = new Float64Array(numEnvs);
+    this.returns = new Float64Array(numEnvs);
+    this.wind = new Float64Array(numEnvs);
+    this.rngs = [];
+    this.reset(seed);
+  }
+
+  getConfig(): SimulationConfig {
+    return this.config;
+  }
+
+  /** Takes effect on the next step, without resetting any episode. */
+  setConfig(config: SimulationConfig) {
+    this.config = config;
+  }
+
+  /** Seed of environment i's random stream. */
+  getSeed(i: number): number {
+    return this.rngs[i].seed;
+  }
+
+  /**
+   * Starts a new episode in every environment. With a seed the random streams
+   * restart from `seed + i`; without one each stream continues.
+   */
+  reset(seed?: number) {
+    if (seed !== undefined || this.rngs.length === 0) {
+      const base = seed ?? this.seed;
+      this.rngs = Array.from({ length: this.numEnvs }, (_, i) => new Random(base + i));
+    }
+    for (let i = 0; i < this.numEnvs; i++) {
+      this.resetOne(i);
+      this.rewards[i] = 0;
+      this.dones[i] = 0;
+      this.terminatedCodes[i] = RUNNING;
+    }
+  }
+
+  /** Copies environment i's current state into a `SimulationState`. */
+  getState(i: number): SimulationState {
+    return {
+      x: this.x[i],
+      xDot: this.xDot[i],
+      theta: this.theta[i],
+      thetaDot: this.thetaDot[i],
+      done: false,
+      steps: this.steps[i],
+      terminatedCode: 'running',
+    };
+  }
+
+  /**
+   * Advances every environment by one `tau`. `actions[i]` is environment i's
+   * action under the config's action space, as for `CartPoleEnv.step`.
+   */
+  step(actions: ArrayLike<EnvAction>) {
+    if (actions.length !== this.numEnvs) {
+      throw new Error(`Expected ${this.numEnvs} actions, got ${actions.length}`);
+    }
+    const { config } = this;
+    const { tau, integrator, xThreshold, thetaThresholdDegrees, maxSteps, task } = config;
+    const thetaThresholdRad = (thetaThresholdDegrees * Math.PI) / 180;
+    const disturbed = config.windMode !== 'none' || config.kickRate > 0 || config.actuatorNoiseStd > 0;
+    const swingUp = task === 'swingup';
+
+    for (let i = 0; i < this.numEnvs; i++) {
+      const force = actionToForce(actions[i], config);
+      let actuatorNoise = 0;
+      let wind = 0;
+      let kick = 0;
+      if (disturbed) {
+        const disturbance = sampleDisturbance(config, this.steps[i], this.wind[i], this.rngs[i]);
+        actuatorNoise = disturbance.actuatorNoise;
+        wind = disturbance.wind;
+        kick = disturbance.kick;
+      }
+      this.wind[i] = wind;
+      const poleForce = wind + kick / tau;
+      const horizontalForce = force + actuatorNoise + poleForce;
+
+      const x0 = this.x[i];
+      const xDot0 = this.xDot[i];
+      const theta0 = this.theta[i];
+      const thetaDot0 = this.thetaDot[i];
+      let x: number;
+      let xDot: number;
+      let theta: number;
+      let thetaDot: number;
+
+      switch (integrator) {
+        case 'semi-implicit-euler': {
+          this.accelerate(xDot0, theta0, thetaDot0, horizontalForce, poleForce);
+          xDot = xDot0 + tau * this.xAcc;
+          thetaDot = thetaDot0 + tau * this.thetaAcc;
+          x = x0 + tau * xDot;
+          theta = theta0 + tau * thetaDot;
+          break;
+        }
+        case 'rk4': {
+          this.accelerate(xDot0, theta0, thetaDot0, horizontalForce, poleForce);
+          const k1x = xDot0;
+          const k1xDot = this.xAcc;
+          const k1theta = thetaDot0;
+          const k1thetaDot = this.thetaAcc;
+          const xDot1 = xDot0 + (tau / 2) * k1xDot;
+          const thetaDot1 = thetaDot0 + (tau / 2) * k1thetaDot;
+          this.accelerate(xDot1, theta0 + (tau / 2) * k1theta, thetaDot1, horizontalForce, poleForce);
+          const k2x = xDot1;
+          const k2xDot = this.xAcc;
+          const k2theta = thetaDot1;
+          const k2thetaDot = this.thetaAcc;
+          const xDot2 = xDot0 + (tau / 2) * k2xDot;
+          const thetaDot2 = thetaDot0 + (tau / 2) * k2thetaDot;
+          this.accelerate(xDot2, theta0 + (tau / 2) * k2theta, thetaDot2, horizontalForce, poleForce);
+          const k3x = xDot2;
+          const k3xDot = this.xAcc;
+          const k3theta = thetaDot2;
+          const k3thetaDot = this.thetaAcc;
+          const xDot3 = xDot0 + tau * k3xDot;
+          const thetaDot3 = thetaDot0 + tau * k3thetaDot;
+          this.accelerate(xDot3, theta0 + tau * k3theta, thetaDot3, horizontalForce, poleForce);
+          x = x0 + (tau / 6) * (k1x + 2 * k2x + 2 * k3x + xDot3);
+          xDot = xDot0 + (tau / 6) * (k1xDot + 2 * k2xDot + 2 * k3xDot + this.xAcc);
+          theta = theta0 + (tau / 6) * (k1theta + 2 * k2theta + 2 * k3theta + thetaDot3);
+          thetaDot = thetaDot0 + (tau / 6) * (k1thetaDot + 2 * k2thetaDot + 2 * k3thetaDot + this.thetaAcc);
+          break;
+        }
+        default:
+          this.accelerate(xDot0, theta0, thetaDot0, horizontalForce, poleForce);
+          x = x0 + tau * xDot0;
+          xDot = xDot0 + tau * this.xAcc;
+          theta = theta0 + tau * thetaDot0;
+          thetaDot = thetaDot0 + tau * this.thetaAcc;
+      }
+      if (swingUp) theta = wrapAngle(theta);
+
+      const steps = this.steps[i] + 1;
+      let code = RUNNING;
+      if (x < -xThreshold || x > xThreshold) {
+        code = OUT_OF_BOUNDS;
+      } else if (!swingUp && (theta < -thetaThresholdRad || theta > thetaThresholdRad)) {
+        code = POLE_FELL;
+      } else if (steps >= maxSteps) {
+        code = MAX_STEPS;
+      }
+
+      const { scratch } = this;
+      scratch.x = x;
+      scratch.xDot = xDot;
+      scratch.theta = theta;
+      scratch.thetaDot = thetaDot;
+      const reward = stepReward(scratch, TERMINATION_CODES[code], force + actuatorNoise, config);
+      this.rewards[i] = reward;
+      this.returns[i] += reward;
+      this.terminatedCodes[i] = code;
+
+      if (code === RUNNING) {
+        this.dones[i] = 0;
+        this.x[i] = x;
+        this.xDot[i] = xDot;
+        this.theta[i] = theta;
+        this.thetaDot[i] = thetaDot;
+        this.steps[i] = steps;
+      } else {
+        this.dones[i] = 1;
+        this.finalObservations[i * 4] = x;
+        this.finalObservations[i * 4 + 1] = xDot;
+        this.finalObservations[i * 4 + 2] = theta;
+        this.finalObservations[i * 4 + 3] = thetaDot;
+        this.episodeLengths[i] = steps;
+        this.episodeReturns[i] = this.returns[i];
+        this.resetOne(i);
+      }
+    }
+  }
+
+  private resetOne(i: number) {
+    const initial = getInitialState(this.rngs[i], this.config.task);
+    this.x[i] = initial.x;
+    this.xDot[i] = initial.xDot;
+    this.theta[i] = initial.theta;
+    this.thetaDot[i] = initial.thetaDot;
+    this.steps[i] = 0;
+    this.returns[i] = 0;
+    this.wind[i] = 0;
+  }
+
+  // `computeAccelerations` with the forces already combined; leaves the result in xAcc/thetaAcc
+  private accelerate(xDot: number, theta: number, thetaDot: number, horizontalForce: number, poleForce: number) {
+    const { gravity, cartMass, poleMass, poleLength, cartFriction, poleFriction } = this.config;
+    const totalMass = cartMass + poleMass;
+    const poleMassLength = poleMass * poleLength;
+
+    const costheta = Math.cos(theta);
+    const sintheta = Math.sin(theta);
+
+    const poleTorque = poleForce * poleLength * costheta - poleFriction * thetaDot;
+    const temp =
+      (horizontalForce + poleMassLength * thetaDot * thetaDot * sintheta - cartFriction * Math.sign(xDot)) / totalMass;
+
+    this.thetaAcc =
+      (gravity * sintheta - costheta * temp + poleTorque / poleMassLength) /
+      (poleLength * (4.0 / 3.0 - (poleMass * costheta * costheta) / totalMass));
+    this.xAcc = temp - (poleMassLength * this.thetaAcc * costheta) / totalMass;
+  }
+}
+
+export interface BenchmarkResult {
+  numEnvs: number;
+  steps: number; // environment steps taken by each implementation
+  scalarStepsPerSecond: number;
+  vectorStepsPerSecond: number;
+  // Largest difference between the two implementations' states, and steps where done or termination code differed
+  maxStateDifference: number;
+  mismatchedSteps: number;
+}
+
+/**
+ * Steps `numEnvs` environments `stepsPerEnv` times with `CartPoleEnv` and
+ * with `VectorCartPoleEnv`, from the same seeds and actions, timing both and
+ * comparing their states after every step. Actions come from one seeded
+ * stream so both runs see identical inputs.
+ */
+export const benchmarkVectorEnv = (
+  config: SimulationConfig,
+  numEnvs: number,
+  stepsPerEnv: number,
+  seed: number
+): BenchmarkResult => {
+  const actionRng = new Random(seed);
+  // Every action of the space, coasting included, so each branch of the force mapping is compared
+  const actionSet = getActionSet(config);
+  const actions = Array.from({ length: stepsPerEnv }, () => {
+    const row = new Float64Array(numEnvs);
+    for (let i = 0; i < numEnvs; i++) {
+      row[i] =
+        config.actionSpace === 'continuous'
+          ? actionRng.uniform(-config.forceMag, config.forceMag)
+          : actionSet[actionRng.int(actionSet.length)];
+    }
+    return row;
+  });
+
+  // Both runs record every state (final states of finished episodes) and code for the comparison
+  const total = numEnvs * stepsPerEnv;
+  const scalarStates = new Float64Array(total * 4);
+  const scalarCodes = new Uint8Array(total);
+  const vectorStates = new Float64Array(total * 4);
+  const vectorCodes = new Uint8Array(total);
+
+  // Scalar: one environment object per cart, reset by hand when its episode ends
+  const envs = Array.from({ length: numEnvs }, (_, i) => new CartPoleEnv(config, seed + i));
+  let start = performance.now();
+  for (let t = 0; t < stepsPerEnv; t++) {
+    const row = actions[t];
+    for (let i = 0; i < numEnvs; i++) {
+      const env = envs[i];
+      env.step(row[i]);
+      const state = env.getState();
+      const k = t * numEnvs + i;
+      scalarStates[k * 4] = state.x;
+      scalarStates[k * 4 + 1] = state.xDot;
+      scalarStates[k * 4 + 2] = state.theta;
+      scalarStates[k * 4 + 3] = state.thetaDot;
+      scalarCodes[k] = TERMINATION_CODES.indexOf(state.terminatedCode);
+      if (state.done) env.reset();
+    }
+  }
+  const scalarSeconds = (performance.now() - start) / 1000;
+
+  const vector = new VectorCartPoleEnv(config, numEnvs, seed);
+  start = performance.now();
+  for (let t = 0; t < stepsPerEnv; t++) {
+    vector.step(actions[t]);
+    for (let i = 0; i < numEnvs; i++) {
+      const k = t * numEnvs + i;
+      if (vector.dones[i] === 1) {
+        vectorStates.set(vector.finalObservations.subarray(i * 4, i * 4 + 4), k * 4);
+      } else {
+        vectorStates[k * 4] = vector.x[i];
+        vectorStates[k * 4 + 1] = vector.xDot[i];
+        vectorStates[k * 4 + 2] = vector.theta[i];
+        vectorStates[k * 4 + 3] = vector.thetaDot[i];
+      }
+      vectorCodes[k] = vector.terminatedCodes[i];
+    }
+  }
+  const vectorSeconds = (performance.now() - start) / 1000;
+
+  let maxStateDifference = 0;
+  let mismatchedSteps = 0;
+  for (let k = 0; k < total; k++) {
+    for (let j = k * 4; j < k * 4 + 4; j++) {
+      maxStateDifference = Math.max(maxStateDifference, Math.abs(scalarStates[j] - vectorStates[j]));
+    }
+    if (scalarCodes[k] !== vectorCodes[k]) mismatchedSteps++;
+  }
+
+  return {
+    numEnvs,
+    steps: total,
+    scalarStepsPerSecond: total / Math.max(scalarSeconds, 1e-9),
+    vectorStepsPerSecond: total / Math.max(vectorSeconds, 1e-9),
+    maxStateDifference,
+    mismatchedSteps,
+  };
+};